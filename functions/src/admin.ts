@@ -0,0 +1,9 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Initialize the Admin SDK once for every function in this codebase.
+// Admin access bypasses firestore.rules, so every callable must do its own
+// authorization checks before writing.
+initializeApp();
+
+export const db = getFirestore();
@@ -0,0 +1,64 @@
+import { FieldValue, Transaction } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { AttemptDoc, AttemptOutcome, GameDoc, QuestionDoc } from './types';
+
+export const countWords = (text: string) => text.split(' ').length;
+
+export interface AttemptInput {
+  playerId: string;
+  teamId?: string;
+  questionIndex: number;
+  buzzTime: number | null;
+  wordsRevealed: number;
+  answer: string | null;
+  outcome: AttemptOutcome;
+}
+
+export const attemptRef = (gameId: string, playerId: string, questionIndex: number) =>
+  db.collection('attempts').doc(`${gameId}_${playerId}_${questionIndex}`);
+
+/**
+ * Build the attempts document for one player's try at one question.
+ * Buzz times are rounded to hundredths and words revealed are clamped to
+ * the question length, matching how the rest of the stats are stored.
+ */
+export const buildAttempt = (
+  gameId: string,
+  game: GameDoc,
+  question: QuestionDoc,
+  input: AttemptInput
+): AttemptDoc => {
+  const totalWords = countWords(question.questionText);
+  const attempt: AttemptDoc = {
+    gameId,
+    gameType: game.type,
+    playerId: input.playerId,
+    questionId: game.questionIds[input.questionIndex],
+    questionIndex: input.questionIndex,
+    subjectArea: question.subjectArea,
+    buzzTime: input.buzzTime === null ? null : parseFloat(input.buzzTime.toFixed(2)),
+    wordsRevealed: Math.min(Math.max(0, input.wordsRevealed), totalWords),
+    totalWords,
+    answer: input.answer,
+    correct: input.outcome === 'correct',
+    outcome: input.outcome,
+  };
+  const teamId = input.teamId || game.teamId;
+  if (teamId) {
+    attempt.teamId = teamId;
+  }
+  if (game.teamIds) {
+    attempt.teamIds = game.teamIds;
+  }
+  return attempt;
+};
+
+// Write attempts inside an existing transaction so they land with the state change they describe
+export const setAttempts = (transaction: Transaction, attempts: AttemptDoc[]) => {
+  attempts.forEach((attempt) => {
+    transaction.set(attemptRef(attempt.gameId, attempt.playerId, attempt.questionIndex), {
+      ...attempt,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+};
@@ -0,0 +1,203 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { db } from './admin';
+import { ClientConnectionDoc, ClockSyncDoc, GameDoc, MatchStateDoc, QuestionDoc } from './types';
+import { requireAuth, requireObject, requireString, requireNumber } from './validation';
+import { getQuestionPrefix, getRevealedWords, getShuffleSeed } from './liveMatch';
+import { getGameDoc } from './matches';
+import { logMatchEvents } from './matchEvents';
+import { getAnswerChoices } from './shuffle';
+
+// How far back a buzz can be dated to make up for the player's network delay;
+// also how long after the first buzz lands an earlier press can still take over
+const MAX_COMPENSATION_MS = 250;
+// Sanity limit on the clock offset a client can report from the clock-sync handshake
+const MAX_CLOCK_OFFSET_MS = 24 * 60 * 60 * 1000;
+// Longest gap between handshake rounds that still counts as one round trip
+const MAX_ROUND_TRIP_MS = 60 * 1000;
+
+/**
+ * Server time the player pressed the buzzer: their own press time moved onto
+ * the server clock with the offset measured in the lobby. It can be no
+ * earlier than half their measured round trip (the one-way delay, capped)
+ * before the buzz arrived, and never later than its arrival. Without a clock
+ * sync it is the arrival.
+ *
+ * The press time comes from the client, so that bound is a trust limit: a
+ * player can date a buzz up to their one-way delay earlier than the real
+ * press, but no further.
+ */
+const getCompensatedBuzzTime = (
+  connection: ClientConnectionDoc | undefined,
+  clientBuzzAt: number | undefined,
+  now: number
+): number => {
+  if (!connection || clientBuzzAt === undefined) {
+    return now;
+  }
+  const earliest = now - Math.min(connection.rttMs / 2, MAX_COMPENSATION_MS);
+  return Math.min(now, Math.max(earliest, clientBuzzAt + connection.offsetMs));
+};
+
+/**
+ * First-to-buzz arbitration for a live match.
+ *
+ * The buzz is dated on the server clock and locked in a transaction on
+ * matchStates/{gameId}, so when several players buzz at once exactly one
+ * wins. Buzzes are latency compensated: a player on a slow connection whose
+ * earlier press lands just after someone else's (within MAX_COMPENSATION_MS)
+ * takes the buzzer over. The other players are locked out until the buzzed
+ * player answers or hesitates.
+ */
+export const arbitrateBuzzer = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const questionIndex = requireNumber(data.questionIndex, 'questionIndex', { min: 0, integer: true });
+  const clientBuzzAt = data.clientBuzzAt === undefined || data.clientBuzzAt === null
+    ? undefined
+    : requireNumber(data.clientBuzzAt, 'clientBuzzAt', { min: 0 });
+
+  const gameSnapshot = await db.collection('games').doc(gameId).get();
+  if (!gameSnapshot.exists) {
+    throw new HttpsError('not-found', 'Match not found.');
+  }
+  const game = gameSnapshot.data() as GameDoc;
+  if (!(game.playerIds || []).includes(uid)) {
+    throw new HttpsError('permission-denied', 'You are not part of this match.');
+  }
+  if (game.status !== 'active') {
+    throw new HttpsError('failed-precondition', 'Match is not active.');
+  }
+
+  const matchStateRef = db.collection('matchStates').doc(gameId);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(matchStateRef);
+    if (!snapshot.exists) {
+      throw new HttpsError('failed-precondition', 'Match has not started.');
+    }
+    const state = snapshot.data() as MatchStateDoc;
+
+    const now = Date.now();
+    if (state.status !== 'playing' || state.pausedAt || state.currentQuestionIndex !== questionIndex) {
+      return { accepted: false, buzzedBy: state.buzzedBy ?? null };
+    }
+    // Players who already missed this question cannot buzz again
+    if (state.lockedOutPlayerIds.includes(uid)) {
+      return { accepted: false, buzzedBy: null };
+    }
+    const buzzedAt = getCompensatedBuzzTime(game.connections?.[uid], clientBuzzAt, now);
+    const previousBuzzTimes = state.players[uid]?.buzzTimes || [];
+
+    if (state.buzzerState === 'buzzed') {
+      // An earlier press that was still on its way when the first buzz landed takes the buzzer over
+      const overrules = state.buzzedBy !== uid
+        && buzzedAt < (state.buzzedAt || 0)
+        && now - (state.buzzReceivedAt ?? 0) <= MAX_COMPENSATION_MS;
+      if (!overrules) {
+        return { accepted: false, buzzedBy: state.buzzedBy ?? null };
+      }
+      const overruledId = state.buzzedBy as string;
+      transaction.update(matchStateRef, {
+        buzzedBy: uid,
+        buzzedAt,
+        [`players.${uid}.buzzTimes`]: [...previousBuzzTimes, (buzzedAt - state.questionStartTime) / 1000],
+        // The overruled buzz doesn't count towards their average
+        [`players.${overruledId}.buzzTimes`]: state.players[overruledId].buzzTimes.slice(0, -1),
+        ...logMatchEvents(transaction, gameId, state, [
+          { type: 'buzz', at: buzzedAt, questionIndex, playerId: uid, wordsRevealed: state.revealedWordsCount },
+        ]),
+      });
+      return { accepted: true, buzzedBy: uid, buzzedAt };
+    }
+
+    if (state.buzzerState !== 'idle' || state.revealStartedAt === null || now < state.revealStartedAt) {
+      return { accepted: false, buzzedBy: state.buzzedBy ?? null };
+    }
+
+    // Freeze the reveal at the word the buzz landed on, and publish the text
+    // up to there along with the answer choices
+    const questionId = game.questionIds[questionIndex];
+    const questionSnapshot = await transaction.get(db.collection('questions').doc(questionId));
+    if (!questionSnapshot.exists) {
+      throw new HttpsError('not-found', `Question ${questionId} no longer exists.`);
+    }
+    const question = questionSnapshot.data() as QuestionDoc;
+    const pressedAt = Math.max(buzzedAt, state.revealStartedAt);
+    const revealedWordsCount = getRevealedWords(state, pressedAt);
+    transaction.update(matchStateRef, {
+      buzzerState: 'buzzed',
+      buzzedBy: uid,
+      buzzedAt: pressedAt,
+      buzzReceivedAt: now,
+      revealStartedAt: null,
+      revealedWordsCount,
+      questionFullyRevealed: revealedWordsCount >= state.questionWordCount,
+      questionText: getQuestionPrefix(question.questionText, revealedWordsCount),
+      answerChoices: getAnswerChoices(question, getShuffleSeed(gameId, game), questionIndex),
+      [`players.${uid}.buzzTimes`]: [...previousBuzzTimes, (pressedAt - state.questionStartTime) / 1000],
+      ...logMatchEvents(transaction, gameId, state, [
+        { type: 'buzz', at: pressedAt, questionIndex, playerId: uid, wordsRevealed: revealedWordsCount },
+      ]),
+    });
+    return { accepted: true, buzzedBy: uid, buzzedAt: pressedAt };
+  });
+});
+
+/**
+ * Clock-sync handshake for a match lobby. The client calls it a few times
+ * back to back; every call returns the server time so the client can
+ * estimate its clock offset, and the server times the gap between answering
+ * one call and receiving the next, which bounds the player's round trip on
+ * its own clock. The client then reports its offset along with its clock
+ * reading at the time. The round trip stored on the game is the server's
+ * shortest sample, and the offset is clamped to within half of it of what
+ * the server's own timestamps allow, so a client can't claim a slow
+ * connection or a skewed clock to get more buzz compensation.
+ */
+export const syncClock = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const receivedAt = Date.now();
+
+  const report = data.offsetMs !== undefined;
+  const offsetMs = report
+    ? requireNumber(data.offsetMs, 'offsetMs', { min: -MAX_CLOCK_OFFSET_MS, max: MAX_CLOCK_OFFSET_MS, integer: true })
+    : 0;
+  const clientTime = report ? requireNumber(data.clientTime, 'clientTime', { min: 0 }) : 0;
+
+  const game = await getGameDoc(gameId);
+  if (!(game.playerIds || []).includes(uid)) {
+    throw new HttpsError('permission-denied', 'Join the match before syncing your clock.');
+  }
+  if (game.status === 'completed') {
+    throw new HttpsError('failed-precondition', 'Match has already finished.');
+  }
+
+  const syncRef = db.collection('games').doc(gameId).collection('clockSync').doc(uid);
+  const previous = (await syncRef.get()).data() as ClockSyncDoc | undefined;
+  // A gap longer than any plausible round trip means a new handshake has started
+  const gapMs = previous ? receivedAt - previous.respondedAt : Infinity;
+  const minRttMs = gapMs <= MAX_ROUND_TRIP_MS
+    ? Math.min(gapMs, previous?.minRttMs ?? Infinity)
+    : undefined;
+
+  if (report) {
+    if (minRttMs === undefined) {
+      throw new HttpsError('failed-precondition', 'Clock sync timed out. Please try again.');
+    }
+    // The report left the client at clientTime and arrived within one round trip
+    const measuredOffsetMs = receivedAt - minRttMs / 2 - clientTime;
+    const clampedOffsetMs = Math.min(measuredOffsetMs + minRttMs / 2, Math.max(measuredOffsetMs - minRttMs / 2, offsetMs));
+    const connection: ClientConnectionDoc = {
+      offsetMs: Math.round(clampedOffsetMs),
+      rttMs: minRttMs,
+      measuredAt: receivedAt,
+    };
+    await db.collection('games').doc(gameId).update({ [`connections.${uid}`]: connection });
+  }
+
+  const sync: ClockSyncDoc = { respondedAt: Date.now(), ...(minRttMs !== undefined ? { minRttMs } : {}) };
+  await syncRef.set(sync);
+  return { serverTime: sync.respondedAt };
+});
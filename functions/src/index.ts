@@ -0,0 +1,19 @@
+// Lightning League Cloud Functions
+// Callables are invoked from src/services/functions.ts in the web app;
+// aggregateMatchHistory, syncLeaderboardTeamInfo, aggregateItemStats,
+// advanceTournament, releaseMatchCode and the question lock releases are
+// Firestore triggers;
+// runScheduledMatches runs every minute.
+
+export { arbitrateBuzzer, syncClock } from './buzzer';
+export { createMatch } from './matches';
+export { releaseMatchCode } from './matchCodes';
+export { releaseQuestionLocks, releaseTournamentQuestionLocks } from './questionLocks';
+export { startMatch, submitMatchAnswer, revealQuestionText, advanceMatch, controlMatch } from './liveMatch';
+export { writeMatchStats } from './stats';
+export { calculateLeaderboard, aggregateMatchHistory, syncLeaderboardTeamInfo } from './leaderboard';
+export { commitQuestionEdit } from './questions';
+export { aggregateItemStats } from './itemStats';
+export { createSpectatorToken, getSpectatorView } from './spectator';
+export { runScheduledMatches } from './scheduledMatches';
+export { createTournament, advanceTournament } from './tournaments';
@@ -0,0 +1,117 @@
+import { onDocumentCreated } from 'firebase-functions/v2/firestore';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { AttemptDoc, MatchHistoryDoc, QuestionDoc, QuestionStatsDoc } from './types';
+
+// Discrimination is too noisy to show below this many attempts
+const MIN_DISCRIMINATION_ATTEMPTS = 10;
+
+const emptyQuestionStats = (): QuestionStatsDoc => ({
+  attempts: 0,
+  correct: 0,
+  percentCorrect: 0,
+  answered: 0,
+  answerCounts: {},
+  buzzCount: 0,
+  buzzPointSum: 0,
+  meanBuzzPoint: null,
+  discrimination: null,
+  discriminationCount: 0,
+  correctSum: 0,
+  restScoreSum: 0,
+  restScoreSqSum: 0,
+  correctRestScoreSum: 0,
+});
+
+// Recompute the derived fields from the running sums
+const deriveQuestionStats = (stats: QuestionStatsDoc): QuestionStatsDoc => {
+  const n = stats.discriminationCount;
+  const numerator = n * stats.correctRestScoreSum - stats.correctSum * stats.restScoreSum;
+  const denominator = Math.sqrt(
+    (n * stats.correctSum - stats.correctSum ** 2) * (n * stats.restScoreSqSum - stats.restScoreSum ** 2)
+  );
+  return {
+    ...stats,
+    percentCorrect: stats.attempts > 0 ? parseFloat(((stats.correct / stats.attempts) * 100).toFixed(1)) : 0,
+    meanBuzzPoint: stats.buzzCount > 0 ? parseFloat((stats.buzzPointSum / stats.buzzCount).toFixed(3)) : null,
+    discrimination: n >= MIN_DISCRIMINATION_ATTEMPTS && denominator > 0
+      ? parseFloat((numerator / denominator).toFixed(3))
+      : null,
+  };
+};
+
+// Fold one attempt into a question's stats. `restScore` is the player's
+// fraction correct on the other questions of the game, if there were any.
+const addAttempt = (stats: QuestionStatsDoc, attempt: AttemptDoc, restScore: number | null): QuestionStatsDoc => {
+  const x = attempt.correct ? 1 : 0;
+  const next: QuestionStatsDoc = {
+    ...stats,
+    attempts: stats.attempts + 1,
+    correct: stats.correct + x,
+    answerCounts: { ...stats.answerCounts },
+  };
+  if (attempt.answer !== null) {
+    next.answered += 1;
+    next.answerCounts[attempt.answer] = (next.answerCounts[attempt.answer] || 0) + 1;
+  }
+  if (attempt.buzzTime !== null && attempt.totalWords > 0) {
+    next.buzzCount += 1;
+    next.buzzPointSum += attempt.wordsRevealed / attempt.totalWords;
+  }
+  if (restScore !== null) {
+    next.discriminationCount += 1;
+    next.correctSum += x;
+    next.restScoreSum += restScore;
+    next.restScoreSqSum += restScore ** 2;
+    next.correctRestScoreSum += x * restScore;
+  }
+  return next;
+};
+
+/**
+ * Fold a finished game's attempts into item analytics on each question it
+ * used: percent correct, mean buzz point, answer pick counts and
+ * discrimination. Runs once per matchHistory document, after the attempts
+ * for that player's game have all been written.
+ */
+export const aggregateItemStats = onDocumentCreated('matchHistory/{matchHistoryId}', async (event) => {
+  const snapshot = event.data;
+  if (!snapshot) return;
+  const history = snapshot.data() as MatchHistoryDoc;
+
+  await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(snapshot.ref);
+    if (!current.exists || current.get('itemStatsAppliedAt')) return;
+
+    const attemptsSnapshot = await transaction.get(
+      db.collection('attempts')
+        .where('gameId', '==', history.gameId)
+        .where('playerId', '==', history.playerId)
+    );
+    const attempts = attemptsSnapshot.docs.map((doc) => doc.data() as AttemptDoc);
+    const questionIds = [...new Set(attempts.map((attempt) => attempt.questionId))];
+    const questionRefs = questionIds.map((id) => db.collection('questions').doc(id));
+    const questionSnapshots = questionRefs.length > 0 ? await transaction.getAll(...questionRefs) : [];
+
+    const statsById = new Map<string, QuestionStatsDoc>();
+    questionSnapshots.forEach((questionSnapshot) => {
+      if (questionSnapshot.exists) {
+        statsById.set(questionSnapshot.id, (questionSnapshot.data() as QuestionDoc).stats || emptyQuestionStats());
+      }
+    });
+
+    attempts.forEach((attempt) => {
+      const stats = statsById.get(attempt.questionId);
+      if (!stats) return;
+      const restScore = history.total > 1
+        ? (history.score - (attempt.correct ? 1 : 0)) / (history.total - 1)
+        : null;
+      statsById.set(attempt.questionId, addAttempt(stats, attempt, restScore));
+    });
+
+    statsById.forEach((stats, questionId) => {
+      transaction.update(db.collection('questions').doc(questionId), { stats: deriveQuestionStats(stats) });
+    });
+    transaction.update(snapshot.ref, { itemStatsAppliedAt: FieldValue.serverTimestamp() });
+  });
+});
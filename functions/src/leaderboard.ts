@@ -0,0 +1,393 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentCreated, onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { DocumentReference, FieldValue, WriteBatch } from 'firebase-admin/firestore';
+import { db } from './admin';
+import {
+  LeaderboardEntryDoc,
+  LeaderboardWindow,
+  MatchHistoryDoc,
+  MatchWinnerDoc,
+  PlayerDoc,
+  TeamDoc,
+} from './types';
+import { rankResults } from './scoring';
+import { requireAuth, requireObject, optionalString, requireCoach } from './validation';
+
+// Firestore batches are capped at 500 writes
+const MAX_BATCH_WRITES = 450;
+// Seasons follow the school year, starting in August (0-based month)
+const SEASON_START_MONTH = 7;
+
+type PlayerAggregate = Pick<
+  LeaderboardEntryDoc,
+  | 'playerId'
+  | 'teamId'
+  | 'wins'
+  | 'highScore'
+  | 'totalGames'
+  | 'totalScore'
+  | 'totalQuestions'
+  | 'buzzTimeSum'
+  | 'buzzTimeGames'
+>;
+
+type TeamInfo = Pick<LeaderboardEntryDoc, 'teamName' | 'levels' | 'leagueOptIn'>;
+
+// A leaderboard document a result is counted in: all-time plus one per window
+interface EntryTarget {
+  ref: DocumentReference;
+  teamId: string;
+  playerId: string;
+  window: LeaderboardWindow;
+  period?: string;
+}
+
+/**
+ * Period keys for the windowed leaderboards a date falls in. Weeks are ISO
+ * weeks in UTC. Mirrored in src/util/leaderboardPeriods.ts.
+ */
+export const getLeaderboardPeriods = (date: Date): Record<Exclude<LeaderboardWindow, 'all'>, string> => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // ISO weeks belong to the year of their Thursday
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const seasonStart = month >= SEASON_START_MONTH ? year : year - 1;
+
+  return {
+    week: `week-${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`,
+    month: `month-${year}-${String(month + 1).padStart(2, '0')}`,
+    season: `season-${seasonStart}-${String((seasonStart + 1) % 100).padStart(2, '0')}`,
+  };
+};
+
+const getEntryTargets = (teamId: string, playerId: string, date: Date): EntryTarget[] => {
+  const periods = getLeaderboardPeriods(date);
+  return [
+    { ref: db.collection('leaderboards').doc(`${teamId}_${playerId}`), teamId, playerId, window: 'all' },
+    ...(Object.entries(periods) as [LeaderboardWindow, string][]).map(([window, period]) => ({
+      ref: db.collection('leaderboardWindows').doc(`${period}_${teamId}_${playerId}`),
+      teamId,
+      playerId,
+      window,
+      period,
+    })),
+  ];
+};
+
+const getHistoryDate = (history: MatchHistoryDoc) => history.completedAt?.toDate() ?? new Date();
+
+const getTeamInfo = (team: TeamDoc | undefined): TeamInfo => ({
+  teamName: team?.name || '',
+  levels: team?.levels || [],
+  leagueOptIn: team?.leagueOptIn === true,
+});
+
+const emptyAggregate = (teamId: string, playerId: string): PlayerAggregate => ({
+  playerId,
+  teamId,
+  wins: 0,
+  highScore: 0,
+  totalGames: 0,
+  totalScore: 0,
+  totalQuestions: 0,
+  buzzTimeSum: 0,
+  buzzTimeGames: 0,
+});
+
+// Fold one matchHistory result into a player's running sums
+const addResult = (aggregate: PlayerAggregate, history: MatchHistoryDoc) => {
+  aggregate.totalGames += 1;
+  aggregate.totalScore += history.score;
+  aggregate.totalQuestions += history.total;
+  if (history.avgBuzzTime > 0) {
+    aggregate.buzzTimeSum += history.avgBuzzTime;
+    aggregate.buzzTimeGames += 1;
+  }
+  aggregate.highScore = Math.max(aggregate.highScore, history.score);
+};
+
+// The full leaderboard document, with accuracy and average buzz time derived from the sums
+const toEntry = (aggregate: PlayerAggregate, target: EntryTarget, displayName: string, teamInfo: TeamInfo) => ({
+  ...aggregate,
+  ...teamInfo,
+  displayName,
+  window: target.window,
+  ...(target.period ? { period: target.period } : {}),
+  accuracy: aggregate.totalQuestions > 0
+    ? parseFloat(((aggregate.totalScore / aggregate.totalQuestions) * 100).toFixed(2))
+    : 0,
+  avgBuzzTime: aggregate.buzzTimeGames > 0
+    ? parseFloat((aggregate.buzzTimeSum / aggregate.buzzTimeGames).toFixed(2))
+    : 0,
+  lastUpdated: FieldValue.serverTimestamp(),
+});
+
+/**
+ * Rebuild every leaderboard entry for a team from its matchHistory: the
+ * all-time board and every week, month and season the results fall in.
+ * Entries are keyed by team and player (and period) so a rebuild overwrites
+ * rather than duplicates. Only players still on the team are ranked; any
+ * other entry for the team is deleted.
+ */
+export const rebuildTeamLeaderboard = async (teamId: string): Promise<number> => {
+  const [historySnapshot, teamSnapshot, allTimeSnapshot, windowedSnapshot] = await Promise.all([
+    db.collection('matchHistory').where('teamId', '==', teamId).get(),
+    db.collection('teams').doc(teamId).get(),
+    db.collection('leaderboards').where('teamId', '==', teamId).get(),
+    db.collection('leaderboardWindows').where('teamId', '==', teamId).get(),
+  ]);
+  const team = teamSnapshot.data() as TeamDoc | undefined;
+  const roster = new Set(team?.playerIds || []);
+  // Everyone's results still decide who won each match
+  const allHistories = historySnapshot.docs.map((doc) => doc.data() as MatchHistoryDoc);
+  const histories = allHistories.filter((history) => roster.has(history.playerId));
+  const teamInfo = getTeamInfo(team);
+
+  const aggregates = new Map<string, { target: EntryTarget; aggregate: PlayerAggregate }>();
+  const getAggregates = (playerId: string, date: Date) =>
+    getEntryTargets(teamId, playerId, date).map((target) => {
+      let entry = aggregates.get(target.ref.path);
+      if (!entry) {
+        entry = { target, aggregate: emptyAggregate(teamId, playerId) };
+        aggregates.set(target.ref.path, entry);
+      }
+      return entry.aggregate;
+    });
+
+  histories.forEach((history) => {
+    getAggregates(history.playerId, getHistoryDate(history)).forEach((aggregate) => addResult(aggregate, history));
+  });
+
+  const historiesByMatch = new Map<string, MatchHistoryDoc[]>();
+  allHistories.forEach((history) => {
+    if (history.type === 'match') {
+      const matchHistories = historiesByMatch.get(history.gameId) || [];
+      matchHistories.push(history);
+      historiesByMatch.set(history.gameId, matchHistories);
+    }
+  });
+
+  // Team-vs-team matches are ranked against the other team's results too
+  for (const [gameId, matchHistories] of historiesByMatch) {
+    if (matchHistories.some((history) => history.teamIds)) {
+      const gameSnapshot = await db.collection('matchHistory').where('gameId', '==', gameId).get();
+      historiesByMatch.set(gameId, gameSnapshot.docs.map((doc) => doc.data() as MatchHistoryDoc));
+    }
+  }
+
+  const winners: MatchWinnerDoc[] = [];
+  historiesByMatch.forEach((matchHistories, gameId) => {
+    const [winner] = rankResults(matchHistories);
+    if (winner && winner.teamId) {
+      winners.push({ gameId, playerId: winner.playerId, teamId: winner.teamId });
+      if (winner.teamId === teamId && roster.has(winner.playerId)) {
+        getAggregates(winner.playerId, getHistoryDate(winner)).forEach((aggregate) => {
+          aggregate.wins += 1;
+        });
+      }
+    }
+  });
+
+  const playerIds = Array.from(new Set(histories.map((history) => history.playerId)));
+  const playerDocs = playerIds.length > 0
+    ? await db.getAll(...playerIds.map((playerId) => db.collection('players').doc(playerId)))
+    : [];
+  const displayNames = new Map(
+    playerDocs.map((doc) => [doc.id, doc.exists ? (doc.data() as PlayerDoc).displayName : 'Unknown Player'])
+  );
+
+  const writes: Array<(batch: WriteBatch) => void> = [];
+  aggregates.forEach(({ target, aggregate }) => {
+    writes.push((batch) => batch.set(
+      target.ref,
+      toEntry(aggregate, target, displayNames.get(aggregate.playerId) || 'Unknown Player', teamInfo)
+    ));
+  });
+  winners.forEach((winner) => {
+    writes.push((batch) => batch.set(db.collection('matchWinners').doc(winner.gameId), winner));
+  });
+  [...allTimeSnapshot.docs, ...windowedSnapshot.docs]
+    .filter((doc) => !aggregates.has(doc.ref.path))
+    .forEach((doc) => writes.push((batch) => batch.delete(doc.ref)));
+
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  return playerIds.length;
+};
+
+/**
+ * Keep the leaderboards current as results come in: each new matchHistory
+ * document is folded into its player's all-time and windowed entries, and
+ * for match games the win moves to whoever now ranks first.
+ *
+ * Triggers can be delivered more than once, so the history document is
+ * stamped with leaderboardAppliedAt in the same transaction and skipped if
+ * it has already been applied.
+ */
+export const aggregateMatchHistory = onDocumentCreated('matchHistory/{matchHistoryId}', async (event) => {
+  const snapshot = event.data;
+  if (!snapshot) return;
+  const history = snapshot.data() as MatchHistoryDoc;
+  const teamId = history.teamId;
+  if (!teamId) return;
+  const date = getHistoryDate(history);
+
+  await db.runTransaction(async (transaction) => {
+    const current = await transaction.get(snapshot.ref);
+    if (!current.exists || current.get('leaderboardAppliedAt')) return;
+
+    const winnerRef = db.collection('matchWinners').doc(history.gameId);
+    let previousWinner: MatchWinnerDoc | undefined;
+    let newWinner: MatchWinnerDoc | undefined;
+    if (history.type === 'match') {
+      const [winnerSnapshot, gameSnapshot] = await Promise.all([
+        transaction.get(winnerRef),
+        transaction.get(db.collection('matchHistory').where('gameId', '==', history.gameId)),
+      ]);
+      previousWinner = winnerSnapshot.exists ? (winnerSnapshot.data() as MatchWinnerDoc) : undefined;
+      const [winner] = rankResults(gameSnapshot.docs.map((doc) => doc.data() as MatchHistoryDoc));
+      if (winner && winner.teamId && winner.playerId !== previousWinner?.playerId) {
+        newWinner = { gameId: history.gameId, playerId: winner.playerId, teamId: winner.teamId };
+      }
+    }
+
+    // Every entry this result touches: the player's own, and the old and new
+    // match winners' if the win changes hands
+    const players = [{ teamId, playerId: history.playerId }];
+    if (newWinner) {
+      players.push(newWinner);
+      if (previousWinner) {
+        players.push(previousWinner);
+      }
+    }
+    const targets = new Map<string, EntryTarget>();
+    players.forEach(({ teamId: playerTeamId, playerId }) => {
+      getEntryTargets(playerTeamId, playerId, date).forEach((target) => targets.set(target.ref.path, target));
+    });
+    const targetList = Array.from(targets.values());
+    const playerIds = Array.from(new Set(players.map((player) => player.playerId)));
+    const teamIds = Array.from(new Set(players.map((player) => player.teamId)));
+
+    const snapshots = await transaction.getAll(
+      ...targetList.map((target) => target.ref),
+      ...playerIds.map((playerId) => db.collection('players').doc(playerId)),
+      ...teamIds.map((id) => db.collection('teams').doc(id))
+    );
+    const entrySnapshots = snapshots.slice(0, targetList.length);
+    const playerSnapshots = snapshots.slice(targetList.length, targetList.length + playerIds.length);
+    const teamSnapshots = snapshots.slice(targetList.length + playerIds.length);
+
+    const displayNames = new Map(playerSnapshots.map((doc) => [
+      doc.id,
+      doc.exists ? (doc.data() as PlayerDoc).displayName : 'Unknown Player',
+    ]));
+    const teamInfos = new Map(teamSnapshots.map((doc) => [doc.id, getTeamInfo(doc.data() as TeamDoc | undefined)]));
+
+    const aggregates = new Map<string, PlayerAggregate>();
+    targetList.forEach((target, index) => {
+      const existing = entrySnapshots[index].exists
+        ? (entrySnapshots[index].data() as LeaderboardEntryDoc)
+        : undefined;
+      aggregates.set(target.ref.path, {
+        ...emptyAggregate(target.teamId, target.playerId),
+        ...(existing ? {
+          wins: existing.wins || 0,
+          highScore: existing.highScore || 0,
+          totalGames: existing.totalGames || 0,
+          totalScore: existing.totalScore || 0,
+          totalQuestions: existing.totalQuestions || 0,
+          buzzTimeSum: existing.buzzTimeSum || 0,
+          buzzTimeGames: existing.buzzTimeGames || 0,
+        } : {}),
+      });
+    });
+
+    const forPlayer = (playerTeamId: string, playerId: string) =>
+      getEntryTargets(playerTeamId, playerId, date).map((target) => aggregates.get(target.ref.path) as PlayerAggregate);
+
+    forPlayer(teamId, history.playerId).forEach((aggregate) => addResult(aggregate, history));
+    if (newWinner) {
+      forPlayer(newWinner.teamId, newWinner.playerId).forEach((aggregate) => {
+        aggregate.wins += 1;
+      });
+      if (previousWinner) {
+        forPlayer(previousWinner.teamId, previousWinner.playerId).forEach((aggregate) => {
+          aggregate.wins = Math.max(0, aggregate.wins - 1);
+        });
+      }
+      transaction.set(winnerRef, newWinner);
+    }
+
+    targetList.forEach((target) => {
+      transaction.set(target.ref, toEntry(
+        aggregates.get(target.ref.path) as PlayerAggregate,
+        target,
+        displayNames.get(target.playerId) || 'Unknown Player',
+        teamInfos.get(target.teamId) || getTeamInfo(undefined)
+      ));
+    });
+    transaction.update(snapshot.ref, { leaderboardAppliedAt: FieldValue.serverTimestamp() });
+  });
+});
+
+/**
+ * Copy a team's name, levels and league opt-in onto its leaderboard entries
+ * when the coach changes them, so opting out takes the team off the league
+ * boards straight away.
+ */
+export const syncLeaderboardTeamInfo = onDocumentUpdated('teams/{teamId}', async (event) => {
+  const before = event.data?.before.data() as TeamDoc | undefined;
+  const after = event.data?.after.data() as TeamDoc | undefined;
+  if (!after) return;
+
+  const beforeInfo = getTeamInfo(before);
+  const afterInfo = getTeamInfo(after);
+  if (
+    beforeInfo.teamName === afterInfo.teamName &&
+    beforeInfo.leagueOptIn === afterInfo.leagueOptIn &&
+    beforeInfo.levels.join(',') === afterInfo.levels.join(',')
+  ) {
+    return;
+  }
+
+  const teamId = event.params.teamId;
+  const [allTime, windowed] = await Promise.all([
+    db.collection('leaderboards').where('teamId', '==', teamId).get(),
+    db.collection('leaderboardWindows').where('teamId', '==', teamId).get(),
+  ]);
+  const refs = [...allTime.docs, ...windowed.docs].map((doc) => doc.ref);
+  for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    refs.slice(i, i + MAX_BATCH_WRITES).forEach((ref) => batch.update(ref, { ...afterInfo }));
+    await batch.commit();
+  }
+});
+
+/**
+ * Rebuild the leaderboard for a team the caller coaches (their own by default).
+ */
+export const calculateLeaderboard = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data ?? {});
+  const coach = await requireCoach(uid);
+  const teamId = optionalString(data.teamId, 'teamId', 64) || coach.teamId;
+  if (!teamId) {
+    throw new HttpsError('failed-precondition', 'You must have a team to rebuild its leaderboard.');
+  }
+
+  const teamDoc = await db.collection('teams').doc(teamId).get();
+  if (!teamDoc.exists || (teamDoc.data() as TeamDoc).coachId !== uid) {
+    throw new HttpsError('permission-denied', 'You can only rebuild the leaderboard of a team you coach.');
+  }
+
+  const entries = await rebuildTeamLeaderboard(teamId);
+  return { teamId, entries };
+});
@@ -0,0 +1,896 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { Transaction } from 'firebase-admin/firestore';
+import { db } from './admin';
+import {
+  AttemptDoc,
+  AttemptOutcome,
+  GameDoc,
+  MatchControlAction,
+  MatchPlayerState,
+  MatchQuestionResult,
+  MatchStateDoc,
+  PlayerDoc,
+  QuestionDoc,
+} from './types';
+import { attemptRef, buildAttempt, countWords, setAttempts } from './attempts';
+import { completeMatch, getGameDoc } from './matches';
+import { MatchEventInput, logMatchEvents } from './matchEvents';
+import { scoreAttempt, sumPoints } from './scoring';
+import { getGameSettings } from './settings';
+import { recordGameResult } from './stats';
+import { requireAuth, requireObject, requireString, requireNumber, requireOneOf, optionalString } from './validation';
+
+// How long the correct answer stays on screen before the next question
+const REVIEW_DURATION_MS = 3000;
+// Countdown before the first word of the first question is revealed
+const START_COUNTDOWN_MS = 3000;
+// Allowance for network latency when checking client-reported deadlines
+const DEADLINE_GRACE_MS = 1000;
+// A match whose running timer ran out this long ago with nobody calling advanceMatch is abandoned
+const ABANDON_AFTER_MS = 5 * 60 * 1000;
+// How long a match can stay paused before it counts as abandoned
+const MAX_PAUSE_MS = 60 * 60 * 1000;
+
+const MATCH_CONTROL_ACTIONS: readonly MatchControlAction[] = ['pause', 'resume', 'skip', 'kick', 'end'];
+
+const msPerWord = (wpm: number) => (60 / wpm) * 1000;
+
+/**
+ * Words revealed at server time `now`. While a buzz freezes the reveal
+ * (revealStartedAt is null) this is just the stored count.
+ */
+export const getRevealedWords = (state: MatchStateDoc, now: number): number => {
+  if (state.revealStartedAt === null) {
+    return state.revealedWordsCount;
+  }
+  const elapsedWords = Math.max(0, Math.floor((now - state.revealStartedAt) / msPerWord(state.settings.wpm)));
+  return Math.min(state.questionWordCount, state.revealedWordsCount + elapsedWords);
+};
+
+/**
+ * Server time at which the question timer runs out if nobody buzzes.
+ * The question timer only starts once every word is revealed.
+ */
+export const getQuestionDeadline = (state: MatchStateDoc): number | null => {
+  if (state.revealStartedAt === null) {
+    return null;
+  }
+  const remainingWords = state.questionWordCount - state.revealedWordsCount;
+  return state.revealStartedAt + remainingWords * msPerWord(state.settings.wpm) + state.settings.questionTime * 1000;
+};
+
+/**
+ * Server time after which a live match nobody is driving any more counts as
+ * abandoned: a few minutes past whatever timer is running (reveal and
+ * question timer, hesitation window or answer review), an hour into a pause,
+ * or a few minutes after a final state that was never completed.
+ * `updatedAt` is when the match state was last written.
+ */
+export const getAbandonDeadline = (state: MatchStateDoc, updatedAt: number): number => {
+  if (state.pausedAt) {
+    return state.pausedAt + MAX_PAUSE_MS;
+  }
+  let timer = updatedAt;
+  if (state.status === 'reviewing') {
+    timer = state.reviewUntil ?? updatedAt;
+  } else if (state.status === 'playing' && state.buzzerState === 'buzzed') {
+    timer = (state.buzzedAt || 0) + state.settings.hesitationTime * 1000;
+  } else if (state.status === 'playing') {
+    timer = getQuestionDeadline(state) ?? updatedAt;
+  }
+  return Math.max(timer, updatedAt) + ABANDON_AFTER_MS;
+};
+
+const emptyPlayerState = (): MatchPlayerState => ({
+  score: 0,
+  points: 0,
+  correctBySubject: {},
+  totalBySubject: {},
+  buzzTimes: [],
+  hesitationCount: 0,
+});
+
+const getQuestion = async (transaction: Transaction, game: GameDoc, index: number): Promise<QuestionDoc> => {
+  const questionId = game.questionIds[index];
+  const questionSnapshot = await transaction.get(db.collection('questions').doc(questionId));
+  if (!questionSnapshot.exists) {
+    throw new HttpsError('not-found', `Question ${questionId} no longer exists.`);
+  }
+  return questionSnapshot.data() as QuestionDoc;
+};
+
+const requireParticipant = (game: GameDoc, uid: string) => {
+  if (!(game.playerIds || []).includes(uid) && game.coachId !== uid) {
+    throw new HttpsError('permission-denied', 'You are not part of this match.');
+  }
+};
+
+// Games created before shuffle seeds existed fall back to their ID, which is just as stable
+export const getShuffleSeed = (gameId: string, game: GameDoc) => game.shuffleSeed || gameId;
+
+// The first `words` words of a question; the match state never carries more than has been revealed
+export const getQuestionPrefix = (questionText: string, words: number) =>
+  questionText.split(' ').slice(0, words).join(' ');
+
+// State for a freshly opened question. Its text is published as the reveal
+// freezes and its answer choices once someone buzzes, so players can't read ahead
+const openQuestion = (
+  index: number,
+  question: QuestionDoc,
+  revealStartedAt: number
+): Partial<MatchStateDoc> => ({
+  status: 'playing',
+  currentQuestionIndex: index,
+  questionWordCount: countWords(question.questionText),
+  questionText: '',
+  answerChoices: [],
+  questionStartTime: revealStartedAt,
+  revealStartedAt,
+  revealedWordsCount: 0,
+  questionFullyRevealed: false,
+  buzzerState: 'idle',
+  buzzedBy: null,
+  buzzedAt: null,
+  buzzReceivedAt: null,
+  lockedOutPlayerIds: [],
+  lastResult: null,
+  reviewUntil: null,
+});
+
+// Score the buzzed player's attempt under the match's scoring rules: the
+// points go on their total and, in a team match, on their team's score
+const awardPoints = (
+  state: MatchStateDoc,
+  question: QuestionDoc,
+  playerState: MatchPlayerState,
+  outcome: AttemptOutcome
+): Pick<MatchStateDoc, 'teamScores'> => {
+  const points = scoreAttempt(state.settings.scoring, {
+    outcome,
+    subjectArea: question.subjectArea,
+    wordsRevealed: state.revealedWordsCount,
+    totalWords: state.questionWordCount,
+  });
+  playerState.points = sumPoints([playerState.points ?? playerState.score, points]);
+  if (points === 0 || !state.teamScores || !playerState.teamId || !(playerState.teamId in state.teamScores)) {
+    return {};
+  }
+  return {
+    teamScores: {
+      ...state.teamScores,
+      [playerState.teamId]: sumPoints([state.teamScores[playerState.teamId], points]),
+    },
+  };
+};
+
+// Close the current question: reveal the answer and count it for every player
+const closeQuestion = (
+  state: MatchStateDoc,
+  question: QuestionDoc,
+  players: Record<string, MatchPlayerState>,
+  result: Omit<MatchQuestionResult, 'questionIndex' | 'correctAnswer'>,
+  now: number
+): Partial<MatchStateDoc> => {
+  const tallied: Record<string, MatchPlayerState> = {};
+  Object.entries(players).forEach(([playerId, playerState]) => {
+    tallied[playerId] = {
+      ...playerState,
+      totalBySubject: {
+        ...playerState.totalBySubject,
+        [question.subjectArea]: (playerState.totalBySubject[question.subjectArea] || 0) + 1,
+      },
+    };
+  });
+  return {
+    status: 'reviewing',
+    buzzerState: 'locked',
+    revealStartedAt: null,
+    revealedWordsCount: state.questionWordCount,
+    questionText: question.questionText,
+    questionFullyRevealed: true,
+    players: tallied,
+    lastResult: {
+      ...result,
+      questionIndex: state.currentQuestionIndex,
+      correctAnswer: question.correctAnswer,
+    },
+    reviewUntil: now + REVIEW_DURATION_MS,
+  };
+};
+
+// After a wrong answer or hesitation: lock the player out and reopen the
+// question to everyone else, or close it if nobody is left to buzz
+const lockOutBuzzedPlayer = (
+  state: MatchStateDoc,
+  question: QuestionDoc,
+  players: Record<string, MatchPlayerState>,
+  outcome: 'incorrect' | 'hesitation',
+  now: number
+): Partial<MatchStateDoc> => {
+  const playerId = state.buzzedBy as string;
+  const lockedOutPlayerIds = [...state.lockedOutPlayerIds, playerId];
+  const remaining = Object.keys(players).filter((id) => !lockedOutPlayerIds.includes(id));
+
+  if (remaining.length === 0) {
+    return {
+      ...closeQuestion(state, question, players, { outcome, playerId }, now),
+      lockedOutPlayerIds,
+    };
+  }
+
+  return {
+    players,
+    lockedOutPlayerIds,
+    buzzerState: 'idle',
+    buzzedBy: null,
+    buzzedAt: null,
+    buzzReceivedAt: null,
+    revealStartedAt: now,
+    lastResult: { questionIndex: state.currentQuestionIndex, outcome, playerId },
+  };
+};
+
+// Log entry for how the question stands after a change: closed for good, or
+// reopened to the other players after a miss
+const followUpEvents = (state: MatchStateDoc, update: Partial<MatchStateDoc>, now: number): MatchEventInput[] => {
+  const questionIndex = state.currentQuestionIndex;
+  if (update.status === 'reviewing' && update.lastResult) {
+    return [{
+      type: 'question_end',
+      at: now,
+      questionIndex,
+      outcome: update.lastResult.outcome,
+      playerId: update.lastResult.playerId,
+    }];
+  }
+  if (update.revealStartedAt !== undefined && update.revealStartedAt !== null) {
+    return [{
+      type: 'reveal_resume',
+      at: update.revealStartedAt,
+      questionIndex,
+      wordsRevealed: update.revealedWordsCount ?? state.revealedWordsCount,
+    }];
+  }
+  return [];
+};
+
+/**
+ * Write matchHistory for every player from the final match state and
+ * complete the match. Each player's total is the questions that were actually
+ * scored, so thrown-out questions and a match ended early give partial results.
+ * In an abandoned match every result is marked DNF (did not finish).
+ */
+const finishMatch = async (gameId: string, game: GameDoc, state: MatchStateDoc, results: Partial<GameDoc> = {}) => {
+  for (const [playerId, playerState] of Object.entries(state.players)) {
+    const avgBuzzTime = playerState.buzzTimes.length > 0
+      ? playerState.buzzTimes.reduce((a, b) => a + b, 0) / playerState.buzzTimes.length
+      : 0;
+    try {
+      await recordGameResult(gameId, game, playerId, {
+        score: playerState.score,
+        points: playerState.points ?? playerState.score,
+        avgBuzzTime,
+        correctBySubject: playerState.correctBySubject,
+        totalBySubject: playerState.totalBySubject,
+        hesitationCount: playerState.hesitationCount,
+        total: Object.values(playerState.totalBySubject).reduce((a, b) => a + b, 0),
+        ...(results.abandoned ? { dnf: true } : {}),
+      });
+    } catch (error) {
+      console.error(`Failed to record match result for player ${playerId}:`, error);
+    }
+  }
+  await completeMatch(gameId, { ...results, ...(state.teamScores ? { teamScores: state.teamScores } : {}) });
+};
+
+/**
+ * Move a waiting match to active and create the shared match state with the
+ * team's game settings. In a team-vs-team match every player is tagged with
+ * their team so answers also count towards a team score. Used by the coach's
+ * Begin button and by the scheduler for scheduled matches, which also require
+ * `minPlayers` to have joined.
+ */
+export const beginMatch = async (gameId: string, game: GameDoc, minPlayers: number = 1) => {
+  const settings = await getGameSettings(game.teamId);
+
+  const gameRef = db.collection('games').doc(gameId);
+  const matchStateRef = db.collection('matchStates').doc(gameId);
+  await db.runTransaction(async (transaction) => {
+    const gameSnapshot = await transaction.get(gameRef);
+    const current = gameSnapshot.data() as GameDoc;
+    if (current.status === 'scheduled') {
+      throw new HttpsError('failed-precondition', 'The lobby for this match is not open yet.');
+    }
+    if (current.status !== 'waiting') {
+      throw new HttpsError('failed-precondition', 'Match has already started.');
+    }
+    const playerIds = current.playerIds || [];
+    if (playerIds.length < Math.max(1, minPlayers)) {
+      throw new HttpsError(
+        'failed-precondition',
+        minPlayers > 1
+          ? `At least ${minPlayers} players must join before beginning the match.`
+          : 'At least one player must join before beginning the match.'
+      );
+    }
+    const firstQuestion = await getQuestion(transaction, current, 0);
+    const playerSnapshots = await transaction.getAll(
+      ...playerIds.map((playerId) => db.collection('players').doc(playerId))
+    );
+
+    const players: Record<string, MatchPlayerState> = {};
+    playerSnapshots.forEach((playerSnapshot) => {
+      const player = playerSnapshot.data() as PlayerDoc | undefined;
+      players[playerSnapshot.id] = {
+        ...emptyPlayerState(),
+        ...(player?.teamId ? { teamId: player.teamId } : {}),
+        ...(player?.displayName ? { displayName: player.displayName } : {}),
+        ...(player?.avatar ? { avatar: player.avatar } : {}),
+      };
+    });
+
+    const now = Date.now();
+    const revealStartedAt = now + START_COUNTDOWN_MS;
+    const state: MatchStateDoc = {
+      gameId,
+      questionCount: current.questionIds.length,
+      players,
+      settings,
+      ...openQuestion(0, firstQuestion, revealStartedAt),
+      ...logMatchEvents(transaction, gameId, {}, [
+        { type: 'match_start', at: now, questionIndex: 0 },
+        { type: 'question_start', at: revealStartedAt, questionIndex: 0 },
+      ]),
+    } as MatchStateDoc;
+    if (current.teamIds) {
+      state.teamScores = Object.fromEntries(current.teamIds.map((teamId) => [teamId, 0]));
+    }
+    transaction.set(matchStateRef, state);
+    transaction.update(gameRef, { status: 'active' });
+  });
+};
+
+/**
+ * Start a live match: the coach clicks Begin in the lobby. A scheduled match
+ * can be begun early once its lobby is open, without waiting for its
+ * minimum number of players.
+ */
+export const startMatch = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+
+  const game = await getGameDoc(gameId);
+  if (game.coachId !== uid) {
+    throw new HttpsError('permission-denied', 'Only the match coach can start the match.');
+  }
+  await beginMatch(gameId, game);
+
+  return { started: true };
+});
+
+/**
+ * Judge the buzzed player's answer. A correct answer closes the question; a
+ * wrong one locks the player out and reopens the question to the others.
+ * Either way the attempt is added to the game's answer log. Players only see
+ * the answer choices, never which is correct: the caller gets the verdict
+ * back and everyone sees the right answer once the question closes.
+ */
+export const submitMatchAnswer = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const questionIndex = requireNumber(data.questionIndex, 'questionIndex', { min: 0, integer: true });
+  const answer = requireString(data.answer, 'answer', 500);
+
+  const game = await getGameDoc(gameId);
+  requireParticipant(game, uid);
+
+  const matchStateRef = db.collection('matchStates').doc(gameId);
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(matchStateRef);
+    if (!snapshot.exists) {
+      throw new HttpsError('failed-precondition', 'Match has not started.');
+    }
+    const state = snapshot.data() as MatchStateDoc;
+    if (
+      state.status !== 'playing' ||
+      state.currentQuestionIndex !== questionIndex ||
+      state.buzzerState !== 'buzzed' ||
+      state.buzzedBy !== uid
+    ) {
+      throw new HttpsError('failed-precondition', 'You do not hold the buzzer for this question.');
+    }
+    if (state.pausedAt) {
+      throw new HttpsError('failed-precondition', 'The match is paused.');
+    }
+    if (state.answerChoices && !state.answerChoices.includes(answer)) {
+      throw new HttpsError('invalid-argument', 'That is not one of the answer choices.');
+    }
+
+    const question = await getQuestion(transaction, game, questionIndex);
+    const now = Date.now();
+    const players = { ...state.players };
+    const playerState = { ...players[uid] };
+    players[uid] = playerState;
+    const recordAttempt = (outcome: 'correct' | 'incorrect' | 'hesitation') =>
+      setAttempts(transaction, [buildAttempt(gameId, game, question, {
+        playerId: uid,
+        teamId: playerState.teamId,
+        questionIndex,
+        buzzTime: ((state.buzzedAt || 0) - state.questionStartTime) / 1000,
+        wordsRevealed: state.revealedWordsCount,
+        answer,
+        outcome,
+      })]);
+
+    // Answers that arrive after the hesitation window count as hesitation
+    const hesitationDeadline = (state.buzzedAt || 0) + state.settings.hesitationTime * 1000 + DEADLINE_GRACE_MS;
+    if (now > hesitationDeadline) {
+      playerState.hesitationCount += 1;
+      const teamUpdate = awardPoints(state, question, playerState, 'hesitation');
+      recordAttempt('hesitation');
+      const update = { ...lockOutBuzzedPlayer(state, question, players, 'hesitation', now), ...teamUpdate };
+      transaction.update(matchStateRef, {
+        ...update,
+        ...logMatchEvents(transaction, gameId, state, [
+          { type: 'hesitation', at: now, questionIndex, playerId: uid, answer },
+          ...followUpEvents(state, update, now),
+        ]),
+      });
+      return { correct: false, outcome: 'hesitation' };
+    }
+
+    if (answer === question.correctAnswer) {
+      playerState.score += 1;
+      playerState.correctBySubject = {
+        ...playerState.correctBySubject,
+        [question.subjectArea]: (playerState.correctBySubject[question.subjectArea] || 0) + 1,
+      };
+      const teamUpdate = awardPoints(state, question, playerState, 'correct');
+      const update = { ...closeQuestion(state, question, players, { outcome: 'correct', playerId: uid }, now), ...teamUpdate };
+      recordAttempt('correct');
+      transaction.update(matchStateRef, {
+        ...update,
+        ...logMatchEvents(transaction, gameId, state, [
+          { type: 'answer', at: now, questionIndex, playerId: uid, answer, correct: true },
+          ...followUpEvents(state, update, now),
+        ]),
+      });
+      return { correct: true, outcome: 'correct' };
+    }
+
+    const teamUpdate = awardPoints(state, question, playerState, 'incorrect');
+    recordAttempt('incorrect');
+    const update = { ...lockOutBuzzedPlayer(state, question, players, 'incorrect', now), ...teamUpdate };
+    transaction.update(matchStateRef, {
+      ...update,
+      ...logMatchEvents(transaction, gameId, state, [
+        { type: 'answer', at: now, questionIndex, playerId: uid, answer, correct: false },
+        ...followUpEvents(state, update, now),
+      ]),
+    });
+    return { correct: false, outcome: 'incorrect' };
+  });
+});
+
+/**
+ * The words of the current question revealed so far by the server clock.
+ * The match state only carries the text up to where the reveal last froze,
+ * so match screens fetch each new word from here as their reveal clock
+ * reaches it; nobody can get a word before it is due.
+ */
+export const revealQuestionText = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const questionIndex = requireNumber(data.questionIndex, 'questionIndex', { min: 0, integer: true });
+
+  const game = await getGameDoc(gameId);
+  requireParticipant(game, uid);
+
+  const snapshot = await db.collection('matchStates').doc(gameId).get();
+  if (!snapshot.exists) {
+    throw new HttpsError('failed-precondition', 'Match has not started.');
+  }
+  const state = snapshot.data() as MatchStateDoc;
+  if (state.currentQuestionIndex !== questionIndex) {
+    throw new HttpsError('failed-precondition', 'That question is no longer being played.');
+  }
+
+  const words = state.status === 'playing'
+    ? getRevealedWords(state, state.pausedAt || Date.now())
+    : state.questionWordCount;
+  const questionSnapshot = await db.collection('questions').doc(game.questionIds[questionIndex]).get();
+  if (!questionSnapshot.exists) {
+    throw new HttpsError('not-found', 'Question no longer exists.');
+  }
+  return { questionIndex, text: getQuestionPrefix((questionSnapshot.data() as QuestionDoc).questionText, words) };
+});
+
+/**
+ * Move a live match along once a deadline has passed: the question timer
+ * expiring, the buzzed player hesitating, or the answer review finishing.
+ *
+ * Every client calls this when its local timer runs out; the server checks
+ * the deadline against its own clock and only the first call in each state
+ * has any effect.
+ */
+export const advanceMatch = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const questionIndex = requireNumber(data.questionIndex, 'questionIndex', { min: 0, integer: true });
+
+  const game = await getGameDoc(gameId);
+  requireParticipant(game, uid);
+
+  const matchStateRef = db.collection('matchStates').doc(gameId);
+  const outcome = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(matchStateRef);
+    if (!snapshot.exists) {
+      throw new HttpsError('failed-precondition', 'Match has not started.');
+    }
+    const state = snapshot.data() as MatchStateDoc;
+    // Nothing expires while the coach has the match paused
+    if (state.status === 'finished' || state.currentQuestionIndex !== questionIndex || state.pausedAt) {
+      return { advanced: false, finished: false };
+    }
+
+    const now = Date.now();
+
+    if (state.status === 'reviewing') {
+      if (now < (state.reviewUntil || 0)) {
+        return { advanced: false, finished: false };
+      }
+      const nextIndex = questionIndex + 1;
+      if (nextIndex >= state.questionCount) {
+        transaction.update(matchStateRef, {
+          status: 'finished',
+          buzzerState: 'locked',
+          ...logMatchEvents(transaction, gameId, state, [{ type: 'match_end', at: now, questionIndex }]),
+        });
+        return { advanced: true, finished: true };
+      }
+      const nextQuestion = await getQuestion(transaction, game, nextIndex);
+      transaction.update(matchStateRef, {
+        ...openQuestion(nextIndex, nextQuestion, now),
+        ...logMatchEvents(transaction, gameId, state, [{ type: 'question_start', at: now, questionIndex: nextIndex }]),
+      });
+      return { advanced: true, finished: false };
+    }
+
+    const question = await getQuestion(transaction, game, questionIndex);
+
+    if (state.buzzerState === 'buzzed') {
+      const hesitationDeadline = (state.buzzedAt || 0) + state.settings.hesitationTime * 1000;
+      if (now < hesitationDeadline) {
+        return { advanced: false, finished: false };
+      }
+      const players = { ...state.players };
+      const buzzedBy = state.buzzedBy as string;
+      players[buzzedBy] = { ...players[buzzedBy], hesitationCount: players[buzzedBy].hesitationCount + 1 };
+      const teamUpdate = awardPoints(state, question, players[buzzedBy], 'hesitation');
+      setAttempts(transaction, [buildAttempt(gameId, game, question, {
+        playerId: buzzedBy,
+        teamId: players[buzzedBy].teamId,
+        questionIndex,
+        buzzTime: ((state.buzzedAt || 0) - state.questionStartTime) / 1000,
+        wordsRevealed: state.revealedWordsCount,
+        answer: null,
+        outcome: 'hesitation',
+      })]);
+      const update = { ...lockOutBuzzedPlayer(state, question, players, 'hesitation', now), ...teamUpdate };
+      transaction.update(matchStateRef, {
+        ...update,
+        ...logMatchEvents(transaction, gameId, state, [
+          { type: 'hesitation', at: now, questionIndex, playerId: buzzedBy },
+          ...followUpEvents(state, update, now),
+        ]),
+      });
+      return { advanced: true, finished: false };
+    }
+
+    const questionDeadline = getQuestionDeadline(state);
+    if (questionDeadline === null || now < questionDeadline) {
+      return { advanced: false, finished: false };
+    }
+    // Everyone who never buzzed on this question timed out on it
+    setAttempts(transaction, Object.entries(state.players)
+      .filter(([playerId]) => !state.lockedOutPlayerIds.includes(playerId))
+      .map(([playerId, playerState]) => buildAttempt(gameId, game, question, {
+        playerId,
+        teamId: playerState.teamId,
+        questionIndex,
+        buzzTime: null,
+        wordsRevealed: state.questionWordCount,
+        answer: null,
+        outcome: 'timeout',
+      })));
+    const update = closeQuestion(state, question, state.players, { outcome: 'timeout' }, now);
+    transaction.update(matchStateRef, {
+      ...update,
+      ...logMatchEvents(transaction, gameId, state, [
+        { type: 'timeout', at: now, questionIndex },
+        ...followUpEvents(state, update, now),
+      ]),
+    });
+    return { advanced: true, finished: false };
+  });
+
+  if (outcome.finished) {
+    // Re-read so the final question's tallies are included
+    const finalState = (await matchStateRef.get()).data() as MatchStateDoc;
+    await finishMatch(gameId, game, finalState);
+  }
+
+  return { advanced: outcome.advanced, finished: outcome.finished };
+});
+
+
+// Resuming pushes every running deadline back by the length of the pause,
+// so no reveal, question, hesitation or review time is lost
+const shiftClock = (state: MatchStateDoc, ms: number): Partial<MatchStateDoc> => ({
+  questionStartTime: state.questionStartTime + ms,
+  revealStartedAt: state.revealStartedAt === null ? null : state.revealStartedAt + ms,
+  buzzedAt: state.buzzedAt ? state.buzzedAt + ms : state.buzzedAt ?? null,
+  buzzReceivedAt: state.buzzReceivedAt ? state.buzzReceivedAt + ms : state.buzzReceivedAt ?? null,
+  reviewUntil: state.reviewUntil === null ? null : state.reviewUntil + ms,
+  pausedAt: null,
+});
+
+// Take a thrown-out question back out of every player's tallies using its answer log
+const uncountQuestion = (
+  state: MatchStateDoc,
+  question: QuestionDoc,
+  attempts: AttemptDoc[]
+): Pick<MatchStateDoc, 'players' | 'teamScores'> => {
+  const subject = question.subjectArea;
+  const decrement = (counts: Record<string, number>) => ({ ...counts, [subject]: Math.max(0, (counts[subject] || 0) - 1) });
+  const players: Record<string, MatchPlayerState> = {};
+  const teamScores = state.teamScores ? { ...state.teamScores } : undefined;
+
+  Object.entries(state.players).forEach(([playerId, playerState]) => {
+    const updated = { ...playerState };
+    // A closed question was counted for everyone
+    if (state.status === 'reviewing') {
+      updated.totalBySubject = decrement(updated.totalBySubject);
+    }
+    const attempt = attempts.find((candidate) => candidate.playerId === playerId);
+    const buzzedNow = state.buzzerState === 'buzzed' && state.buzzedBy === playerId;
+    // A player buzzes at most once per question, so theirs is the latest buzz time
+    if ((attempt && attempt.buzzTime !== null) || buzzedNow) {
+      updated.buzzTimes = updated.buzzTimes.slice(0, -1);
+    }
+    if (attempt) {
+      // Give back whatever the attempt scored under the match's rules
+      const points = scoreAttempt(state.settings.scoring, attempt);
+      updated.points = sumPoints([playerState.points ?? playerState.score, -points]);
+      if (points !== 0 && teamScores && updated.teamId && updated.teamId in teamScores) {
+        teamScores[updated.teamId] = sumPoints([teamScores[updated.teamId], -points]);
+      }
+    }
+    if (attempt?.outcome === 'correct') {
+      updated.score = Math.max(0, updated.score - 1);
+      updated.correctBySubject = decrement(updated.correctBySubject);
+    }
+    if (attempt?.outcome === 'hesitation') {
+      updated.hesitationCount = Math.max(0, updated.hesitationCount - 1);
+    }
+    players[playerId] = updated;
+  });
+
+  return teamScores ? { players, teamScores } : { players };
+};
+
+/**
+ * Coach controls for a live match: pause and resume it for everyone, throw
+ * out the current question, remove a player, or end the match early.
+ *
+ * Everything happens in one transaction on matchStates/{gameId}, so the
+ * change reaches every player's screen through the same snapshot listener
+ * as the rest of the match. Ending the match (or skipping past the last
+ * question) writes partial results for the questions that were scored.
+ */
+export const controlMatch = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const action = requireOneOf(data.action, 'action', MATCH_CONTROL_ACTIONS);
+  const targetPlayerId = optionalString(data.playerId, 'playerId', 128);
+  if (action === 'kick' && !targetPlayerId) {
+    throw new HttpsError('invalid-argument', 'playerId is required to remove a player.');
+  }
+
+  const game = await getGameDoc(gameId);
+  if (game.coachId !== uid) {
+    throw new HttpsError('permission-denied', 'Only the match coach can control the match.');
+  }
+
+  const gameRef = db.collection('games').doc(gameId);
+  const matchStateRef = db.collection('matchStates').doc(gameId);
+  const finished = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(matchStateRef);
+    if (!snapshot.exists) {
+      throw new HttpsError('failed-precondition', 'Match has not started.');
+    }
+    const state = snapshot.data() as MatchStateDoc;
+    if (state.status === 'finished') {
+      throw new HttpsError('failed-precondition', 'Match has already finished.');
+    }
+    const now = Date.now();
+    // While paused, the match clock stands still at the moment it was paused
+    const clock = state.pausedAt || now;
+    const questionIndex = state.currentQuestionIndex;
+    const logEvents = (events: MatchEventInput[]) => logMatchEvents(transaction, gameId, state, events);
+
+    if (action === 'pause') {
+      if (state.pausedAt) {
+        throw new HttpsError('failed-precondition', 'Match is already paused.');
+      }
+      transaction.update(matchStateRef, {
+        pausedAt: now,
+        ...logEvents([{ type: 'pause', at: now, questionIndex }]),
+      });
+      return false;
+    }
+
+    if (action === 'resume') {
+      if (!state.pausedAt) {
+        throw new HttpsError('failed-precondition', 'Match is not paused.');
+      }
+      transaction.update(matchStateRef, {
+        ...shiftClock(state, now - state.pausedAt),
+        ...logEvents([{ type: 'resume', at: now, questionIndex }]),
+      });
+      return false;
+    }
+
+    if (action === 'end') {
+      transaction.update(matchStateRef, {
+        status: 'finished',
+        buzzerState: 'locked',
+        pausedAt: null,
+        ...logEvents([{ type: 'match_end', at: now, questionIndex }]),
+      });
+      return true;
+    }
+
+    if (action === 'skip') {
+      const playerIds = [...Object.keys(state.players), ...(state.kickedPlayerIds || [])];
+      const question = await getQuestion(transaction, game, questionIndex);
+      const nextIndex = questionIndex + 1;
+      const nextQuestion = nextIndex < state.questionCount ? await getQuestion(transaction, game, nextIndex) : null;
+      const attemptSnapshots = await transaction.getAll(
+        ...playerIds.map((playerId) => attemptRef(gameId, playerId, questionIndex))
+      );
+      const attempts = attemptSnapshots.filter((doc) => doc.exists).map((doc) => doc.data() as AttemptDoc);
+
+      // A thrown-out question leaves nothing behind in the answer log
+      attemptSnapshots.filter((doc) => doc.exists).forEach((doc) => transaction.delete(doc.ref));
+      const update: Partial<MatchStateDoc> = {
+        ...uncountQuestion(state, question, attempts),
+        skippedQuestionIndexes: [...(state.skippedQuestionIndexes || []), questionIndex],
+      };
+      const skipped: MatchEventInput = { type: 'skip', at: clock, questionIndex };
+      if (nextQuestion) {
+        transaction.update(matchStateRef, {
+          ...update,
+          ...openQuestion(nextIndex, nextQuestion, clock),
+          ...logEvents([skipped, { type: 'question_start', at: clock, questionIndex: nextIndex }]),
+        });
+        return false;
+      }
+      transaction.update(matchStateRef, {
+        ...update,
+        status: 'finished',
+        buzzerState: 'locked',
+        pausedAt: null,
+        ...logEvents([skipped, { type: 'match_end', at: now, questionIndex }]),
+      });
+      return true;
+    }
+
+    // kick
+    const playerId = targetPlayerId as string;
+    if (!state.players[playerId]) {
+      throw new HttpsError('not-found', 'That player is not in this match.');
+    }
+    const players = { ...state.players };
+    delete players[playerId];
+    const gameSnapshot = await transaction.get(gameRef);
+    const question = state.status === 'playing' ? await getQuestion(transaction, game, state.currentQuestionIndex) : null;
+
+    transaction.update(gameRef, {
+      playerIds: ((gameSnapshot.data() as GameDoc).playerIds || []).filter((id) => id !== playerId),
+    });
+    const kicked: Partial<MatchStateDoc> = {
+      players,
+      kickedPlayerIds: [...(state.kickedPlayerIds || []), playerId],
+    };
+    const kickEvent: MatchEventInput = { type: 'kick', at: clock, questionIndex, playerId };
+    if (Object.keys(players).length === 0) {
+      transaction.update(matchStateRef, {
+        ...kicked,
+        status: 'finished',
+        buzzerState: 'locked',
+        pausedAt: null,
+        ...logEvents([kickEvent, { type: 'match_end', at: now, questionIndex }]),
+      });
+      return true;
+    }
+    if (!question) {
+      transaction.update(matchStateRef, { ...kicked, ...logEvents([kickEvent]) });
+      return false;
+    }
+
+    // Free the buzzer if they held it, and close the question if nobody left can buzz
+    const lockedOutPlayerIds = state.lockedOutPlayerIds.filter((id) => id !== playerId);
+    const releaseBuzzer = state.buzzerState === 'buzzed' && state.buzzedBy === playerId;
+    const remaining = Object.keys(players).filter((id) => !lockedOutPlayerIds.includes(id));
+    if (remaining.length === 0 && (releaseBuzzer || state.buzzerState !== 'buzzed')) {
+      const update = closeQuestion(state, question, players, { outcome: 'timeout' }, clock);
+      transaction.update(matchStateRef, {
+        ...kicked,
+        ...update,
+        lockedOutPlayerIds,
+        ...logEvents([kickEvent, ...followUpEvents(state, update, clock)]),
+      });
+      return false;
+    }
+    const update: Partial<MatchStateDoc> = releaseBuzzer
+      ? { buzzerState: 'idle', buzzedBy: null, buzzedAt: null, buzzReceivedAt: null, revealStartedAt: clock }
+      : {};
+    transaction.update(matchStateRef, {
+      ...kicked,
+      lockedOutPlayerIds,
+      ...update,
+      ...logEvents([kickEvent, ...followUpEvents(state, update, clock)]),
+    });
+    return false;
+  });
+
+  if (finished) {
+    // Skipping the last question finishes the match normally; anything else cut it short
+    const finalState = (await matchStateRef.get()).data() as MatchStateDoc;
+    await finishMatch(gameId, game, finalState, action === 'skip' ? {} : { endedEarly: true });
+  }
+
+  return { finished };
+});
+
+/**
+ * Complete a live match that everyone walked away from once its abandon
+ * deadline has passed, so the coach still gets the match_end notification.
+ * Players keep partial results for the questions that were scored, marked
+ * DNF. A match that reached its final state but was never completed (the
+ * last client left before finishing it) gets its full results instead.
+ * Called by the scheduler; returns true if the match was completed.
+ */
+export const abandonMatch = async (gameId: string, game: GameDoc, now: number): Promise<boolean> => {
+  const matchStateRef = db.collection('matchStates').doc(gameId);
+
+  const outcome = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(matchStateRef);
+    if (!snapshot.exists) return 'running';
+    const state = snapshot.data() as MatchStateDoc;
+    const updatedAt = snapshot.updateTime?.toMillis() ?? now;
+    if (now < getAbandonDeadline(state, updatedAt)) return 'running';
+    if (state.status === 'finished') return 'finished';
+
+    transaction.update(matchStateRef, {
+      status: 'finished',
+      buzzerState: 'locked',
+      pausedAt: null,
+      ...logMatchEvents(transaction, gameId, state, [
+        { type: 'match_end', at: now, questionIndex: state.currentQuestionIndex },
+      ]),
+    });
+    return 'abandoned';
+  });
+  if (outcome === 'running') return false;
+
+  const finalState = (await matchStateRef.get()).data() as MatchStateDoc;
+  await finishMatch(gameId, game, finalState, outcome === 'abandoned' ? { abandoned: true } : {});
+  return true;
+};
@@ -0,0 +1,92 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { DocumentSnapshot, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { GameDoc, MatchCodeDoc } from './types';
+
+// A code is held from when the match opens until it completes or this long after its start time
+export const MATCH_CODE_TTL_MS = 12 * 60 * 60 * 1000;
+const CODE_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+// Generate a short match ID code (6 characters, alphanumeric)
+const generateMatchIdCode = (): string => {
+  let result = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    result += CODE_CHARS.charAt(Math.floor(Math.random() * CODE_CHARS.length));
+  }
+  return result;
+};
+
+const isCodeFree = (snapshot: DocumentSnapshot): boolean =>
+  !snapshot.exists || (snapshot.data() as MatchCodeDoc).expiresAt.toMillis() <= Date.now();
+
+/**
+ * Pick `count` codes that no open match holds. Reads the registry inside the
+ * transaction, so it must run before the transaction's first write; the
+ * caller then claims each code with claimMatchCode in the same transaction.
+ */
+export const reserveMatchCodes = async (transaction: Transaction, count: number): Promise<string[]> => {
+  const codes: string[] = [];
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS && codes.length < count; attempt++) {
+    const candidates = [...new Set(Array.from({ length: count - codes.length }, generateMatchIdCode))]
+      .filter((code) => !codes.includes(code));
+    if (candidates.length === 0) continue;
+    const snapshots = await transaction.getAll(...candidates.map((code) => db.collection('matchCodes').doc(code)));
+    snapshots.forEach((snapshot) => {
+      if (isCodeFree(snapshot)) codes.push(snapshot.id);
+    });
+  }
+  if (codes.length < count) {
+    throw new HttpsError('resource-exhausted', 'Could not find a free match code. Please try again.');
+  }
+  return codes;
+};
+
+// Point a reserved code at its game until the game completes or the code expires
+export const claimMatchCode = (
+  transaction: Transaction,
+  code: string,
+  gameId: string,
+  startsAt: number = Date.now()
+) => {
+  transaction.set(db.collection('matchCodes').doc(code), {
+    gameId,
+    expiresAt: Timestamp.fromMillis(startsAt + MATCH_CODE_TTL_MS),
+    createdAt: FieldValue.serverTimestamp(),
+  });
+};
+
+/**
+ * Free a match's code as soon as the match completes, so students can't
+ * join a finished match and the code can go to a new one. The registry
+ * entry is only removed while it still points at this game.
+ */
+export const releaseMatchCode = onDocumentUpdated('games/{gameId}', async (event) => {
+  const before = event.data?.before.data() as GameDoc | undefined;
+  const after = event.data?.after.data() as GameDoc | undefined;
+  if (!before || !after || !after.matchIdCode || before.status === 'completed' || after.status !== 'completed') {
+    return;
+  }
+  const codeRef = db.collection('matchCodes').doc(after.matchIdCode);
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(codeRef);
+    if (snapshot.exists && (snapshot.data() as MatchCodeDoc).gameId === event.params.gameId) {
+      transaction.delete(codeRef);
+    }
+  });
+});
+
+// Delete registry entries whose matches never completed; run by the scheduler
+export const sweepExpiredMatchCodes = async () => {
+  const expired = await db.collection('matchCodes')
+    .where('expiresAt', '<=', Timestamp.now())
+    .limit(200)
+    .get();
+  if (expired.empty) return;
+  const batch = db.batch();
+  // If a new match claimed one of these since the query ran, the batch fails and the next run retries
+  expired.docs.forEach((doc) => batch.delete(doc.ref, { lastUpdateTime: doc.updateTime }));
+  await batch.commit();
+};
@@ -0,0 +1,33 @@
+import { FieldValue, Transaction } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { MatchEventDoc, MatchStateDoc } from './types';
+
+export type MatchEventInput = Omit<MatchEventDoc, 'seq' | 'createdAt'>;
+
+export const matchEventsCollection = (gameId: string) =>
+  db.collection('games').doc(gameId).collection('events');
+
+/**
+ * Append events to a match's log in the same transaction as the state change
+ * they describe. Events are numbered from the match state's eventCount, so the
+ * log has a total order even when several events share a timestamp. Returns
+ * the eventCount update to merge into the match state write.
+ */
+export const logMatchEvents = (
+  transaction: Transaction,
+  gameId: string,
+  state: Pick<MatchStateDoc, 'eventCount'>,
+  events: MatchEventInput[]
+): Pick<MatchStateDoc, 'eventCount'> => {
+  const start = state.eventCount || 0;
+  events.forEach((event, index) => {
+    const seq = start + index;
+    const eventData = Object.fromEntries(Object.entries(event).filter(([, value]) => value !== undefined));
+    transaction.set(matchEventsCollection(gameId).doc(String(seq).padStart(6, '0')), {
+      ...eventData,
+      seq,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+  return { eventCount: start + events.length };
+};
@@ -0,0 +1,222 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { GameDoc, PacketDoc, TeamDoc } from './types';
+import { claimMatchCode, reserveMatchCodes } from './matchCodes';
+import { lockQuestions } from './questionLocks';
+import { newShuffleSeed } from './shuffle';
+import { requireAuth, requireObject, requireStringArray, requireNumber, optionalString, requireCoach } from './validation';
+
+const MAX_MATCH_QUESTIONS = 100;
+// Scheduled matches: how far ahead they can be booked and how many players they can wait for
+const MAX_SCHEDULE_AHEAD_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_MIN_PLAYERS = 50;
+
+export const getGameDoc = async (gameId: string): Promise<GameDoc> => {
+  const gameDoc = await db.collection('games').doc(gameId).get();
+  if (!gameDoc.exists) {
+    throw new HttpsError('not-found', 'Match not found.');
+  }
+  return gameDoc.data() as GameDoc;
+};
+
+export const getCoachIdForGame = async (game: GameDoc): Promise<string | undefined> => {
+  if (game.coachId) return game.coachId;
+  if (!game.teamId) return undefined;
+  const teamDoc = await db.collection('teams').doc(game.teamId).get();
+  return teamDoc.exists ? (teamDoc.data() as TeamDoc).coachId : undefined;
+};
+
+/**
+ * Mark a match completed and send match_end notifications to the coach(es)
+ * and every player. Safe to call more than once: a match that is already
+ * completed is left untouched and no duplicate notifications are sent.
+ * `results` (e.g. final team scores) is written in the same update.
+ * Returns true if this call completed the match.
+ */
+export const completeMatch = async (gameId: string, results: Partial<GameDoc> = {}): Promise<boolean> => {
+  const gameRef = db.collection('games').doc(gameId);
+
+  const completed = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(gameRef);
+    if (!snapshot.exists || (snapshot.data() as GameDoc).status === 'completed') {
+      return false;
+    }
+    transaction.update(gameRef, {
+      ...results,
+      status: 'completed',
+      endedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  if (!completed) return false;
+
+  const game = (await gameRef.get()).data() as GameDoc;
+  const code = game.matchIdCode || gameId.substring(0, 6).toUpperCase();
+  const coachId = await getCoachIdForGame(game);
+
+  const batch = db.batch();
+  const notify = (userId: string, message: string) => {
+    const notificationData: Record<string, unknown> = {
+      userId,
+      type: 'match_end',
+      title: 'End of Match',
+      message,
+      gameId,
+      read: false,
+      createdAt: FieldValue.serverTimestamp(),
+    };
+    if (game.teamId) {
+      notificationData.teamId = game.teamId;
+    }
+    batch.set(db.collection('notifications').doc(), notificationData);
+  };
+
+  // An abandoned match was closed by the scheduler with partial (DNF) results
+  const coachMessage = game.abandoned
+    ? `Match ${code} was closed after everyone stopped playing. Partial results were saved.`
+    : `Match ${code} has ended. All players have completed.`;
+  const playerMessage = game.abandoned
+    ? `Match ${code} was closed before you finished. Your partial results were saved.`
+    : `Match ${code} has ended. View your results!`;
+
+  if (coachId) {
+    notify(coachId, coachMessage);
+  }
+  // Coaches of invited teams hear about the result as well
+  for (const invitedTeamId of (game.teamIds || []).filter((id) => id !== game.teamId)) {
+    const invitedTeam = await db.collection('teams').doc(invitedTeamId).get();
+    if (invitedTeam.exists) {
+      notify(
+        (invitedTeam.data() as TeamDoc).coachId,
+        game.abandoned ? coachMessage : `Match ${code} has ended. View your team's results!`
+      );
+    }
+  }
+  (game.playerIds || []).forEach((playerId) => {
+    notify(playerId, playerMessage);
+  });
+  await batch.commit();
+
+  return true;
+};
+
+/**
+ * Create a match game for the calling coach's team.
+ * Questions are checked for existence so a match can never start with
+ * dangling question IDs. Passing `opponentTeamId` makes it a team-vs-team
+ * match: the other team's roster may join too and its coach is notified.
+ * Passing `scheduledAt` (epoch ms) schedules it instead: the game stays
+ * 'scheduled' until the scheduler reminds the roster, opens the lobby and
+ * begins it once `minPlayers` have joined. A `packetId` records the saved
+ * packet the questions came from, so the players' results count as plays of it.
+ * The join code is reserved in the matchCodes registry, so no two open
+ * matches share one, and the questions are answer-locked until the match completes.
+ */
+export const createMatch = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const questionIds = requireStringArray(data.questionIds, 'questionIds', {
+    minLength: 1,
+    maxLength: MAX_MATCH_QUESTIONS,
+  });
+
+  const coach = await requireCoach(uid);
+  const teamId = optionalString(data.teamId, 'teamId', 64) || coach.teamId;
+  if (!teamId) {
+    throw new HttpsError('failed-precondition', 'You must have a team to create a match.');
+  }
+
+  const teamDoc = await db.collection('teams').doc(teamId).get();
+  if (!teamDoc.exists || (teamDoc.data() as TeamDoc).coachId !== uid) {
+    throw new HttpsError('permission-denied', 'You can only create matches for your own team.');
+  }
+  const team = teamDoc.data() as TeamDoc;
+
+  let scheduledAt: number | undefined;
+  let minPlayers = 1;
+  if (data.scheduledAt !== undefined && data.scheduledAt !== null) {
+    const now = Date.now();
+    scheduledAt = requireNumber(data.scheduledAt, 'scheduledAt', { integer: true });
+    if (scheduledAt <= now || scheduledAt > now + MAX_SCHEDULE_AHEAD_MS) {
+      throw new HttpsError('invalid-argument', 'Scheduled time must be in the future and within 90 days.');
+    }
+    if (data.minPlayers !== undefined && data.minPlayers !== null) {
+      minPlayers = requireNumber(data.minPlayers, 'minPlayers', { min: 1, max: MAX_MIN_PLAYERS, integer: true });
+    }
+  }
+
+  const opponentTeamId = optionalString(data.opponentTeamId, 'opponentTeamId', 64);
+  let opponentTeam: TeamDoc | undefined;
+  if (opponentTeamId) {
+    if (opponentTeamId === teamId) {
+      throw new HttpsError('invalid-argument', 'You cannot invite your own team.');
+    }
+    const opponentDoc = await db.collection('teams').doc(opponentTeamId).get();
+    if (!opponentDoc.exists) {
+      throw new HttpsError('not-found', 'Opponent team not found. Check the team ID.');
+    }
+    opponentTeam = opponentDoc.data() as TeamDoc;
+  }
+
+  const packetId = optionalString(data.packetId, 'packetId', 128);
+  if (packetId) {
+    const packetDoc = await db.collection('packets').doc(packetId).get();
+    if (!packetDoc.exists || (packetDoc.data() as PacketDoc).teamId !== teamId) {
+      throw new HttpsError('not-found', 'Packet not found.');
+    }
+  }
+
+  const questionRefs = questionIds.map((id) => db.collection('questions').doc(id));
+  const questionDocs = await db.getAll(...questionRefs);
+  const missing = questionDocs.filter((doc) => !doc.exists).map((doc) => doc.id);
+  if (missing.length > 0) {
+    throw new HttpsError('invalid-argument', `Questions not found: ${missing.join(', ')}`);
+  }
+
+  const gameRef = db.collection('games').doc();
+  const gameData: Record<string, unknown> = {
+    type: 'match',
+    teamId,
+    coachId: uid,
+    questionIds,
+    status: scheduledAt ? 'scheduled' : 'waiting',
+    playerIds: [],
+    shuffleSeed: newShuffleSeed(),
+    startedAt: FieldValue.serverTimestamp(),
+  };
+  if (scheduledAt) {
+    gameData.scheduledAt = Timestamp.fromMillis(scheduledAt);
+    gameData.minPlayers = minPlayers;
+  }
+  if (packetId) {
+    gameData.packetId = packetId;
+  }
+  if (opponentTeamId && opponentTeam) {
+    gameData.teamIds = [teamId, opponentTeamId];
+    gameData.teamNames = { [teamId]: team.name, [opponentTeamId]: opponentTeam.name };
+  }
+
+  const matchIdCode = await db.runTransaction(async (transaction) => {
+    const [code] = await reserveMatchCodes(transaction, 1);
+    claimMatchCode(transaction, code, gameRef.id, scheduledAt);
+    transaction.set(gameRef, { ...gameData, matchIdCode: code });
+    lockQuestions(transaction, gameRef.id, questionIds);
+    if (opponentTeamId && opponentTeam) {
+      transaction.set(db.collection('notifications').doc(), {
+        userId: opponentTeam.coachId,
+        type: 'team_invite',
+        title: 'Match Invitation',
+        message: `${team.name} has invited ${opponentTeam.name} to a match. Your players can join with code ${code}.`,
+        gameId: gameRef.id,
+        teamId: opponentTeamId,
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+    return code;
+  });
+
+  return { gameId: gameRef.id, matchIdCode };
+});
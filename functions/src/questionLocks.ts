@@ -0,0 +1,89 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { FieldPath, FieldValue, Transaction } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { GameDoc, QuestionDoc, TournamentDoc } from './types';
+
+/**
+ * Answer locks keep students from looking up a question's answer while a
+ * match or tournament that uses it is unfinished. A locked question has
+ * answersLocked set, which the security rules check before letting a
+ * student read it; lockedBy lists the games and tournaments holding the
+ * lock, and the question unlocks once the last of them completes.
+ */
+
+// Questions checked per scheduler run when backfilling the lock flag
+const BACKFILL_BATCH_SIZE = 300;
+const backfillRef = db.collection('migrations').doc('questionLocks');
+
+// Lock a game's or tournament's questions; part of the transaction that creates it
+export const lockQuestions = (transaction: Transaction, holderId: string, questionIds: string[]) => {
+  [...new Set(questionIds)].forEach((questionId) => {
+    transaction.update(db.collection('questions').doc(questionId), {
+      answersLocked: true,
+      lockedBy: FieldValue.arrayUnion(holderId),
+    });
+  });
+};
+
+// Drop a holder's locks; a question stays locked while anything else still holds it
+export const releaseQuestions = async (holderId: string, questionIds: string[]) => {
+  const questionRefs = [...new Set(questionIds)].map((id) => db.collection('questions').doc(id));
+  if (questionRefs.length === 0) return;
+  await db.runTransaction(async (transaction) => {
+    const snapshots = await transaction.getAll(...questionRefs);
+    snapshots.forEach((snapshot) => {
+      const question = snapshot.data() as QuestionDoc | undefined;
+      if (!question || !(question.lockedBy || []).includes(holderId)) return;
+      const lockedBy = (question.lockedBy || []).filter((id) => id !== holderId);
+      transaction.update(snapshot.ref, { answersLocked: lockedBy.length > 0, lockedBy });
+    });
+  });
+};
+
+/**
+ * Unlock a match's questions once it completes (finished, ended early,
+ * abandoned or cancelled), and a tournament's pool once its last match does.
+ */
+export const releaseQuestionLocks = onDocumentUpdated('games/{gameId}', async (event) => {
+  const before = event.data?.before.data() as GameDoc | undefined;
+  const after = event.data?.after.data() as GameDoc | undefined;
+  if (!before || !after || after.type !== 'match' || before.status === 'completed' || after.status !== 'completed') {
+    return;
+  }
+  await releaseQuestions(event.params.gameId, after.questionIds);
+});
+
+export const releaseTournamentQuestionLocks = onDocumentUpdated('tournaments/{tournamentId}', async (event) => {
+  const before = event.data?.before.data() as TournamentDoc | undefined;
+  const after = event.data?.after.data() as TournamentDoc | undefined;
+  if (!before || !after || before.status === 'completed' || after.status !== 'completed') {
+    return;
+  }
+  await releaseQuestions(event.params.tournamentId, after.questionIds);
+});
+
+/**
+ * Give questions written before answer locks existed an explicit unlocked
+ * flag, since the rules only show students questions that have one. Works
+ * through the collection a batch per scheduler run and stops once done.
+ */
+export const backfillQuestionLocks = async () => {
+  const progress = (await backfillRef.get()).data() as { lastQuestionId?: string; done?: boolean } | undefined;
+  if (progress?.done) return;
+
+  let pageQuery = db.collection('questions').orderBy(FieldPath.documentId()).limit(BACKFILL_BATCH_SIZE);
+  if (progress?.lastQuestionId) {
+    pageQuery = pageQuery.startAfter(progress.lastQuestionId);
+  }
+  const page = await pageQuery.get();
+
+  const batch = db.batch();
+  page.docs
+    .filter((doc) => (doc.data() as QuestionDoc).answersLocked === undefined)
+    // A question locked since the query ran already has the flag, so the batch fails and the next run retries
+    .forEach((doc) => batch.update(doc.ref, { answersLocked: false, lockedBy: [] }, { lastUpdateTime: doc.updateTime }));
+  batch.set(backfillRef, page.size < BACKFILL_BATCH_SIZE
+    ? { done: true }
+    : { lastQuestionId: page.docs[page.docs.length - 1].id });
+  await batch.commit();
+};
@@ -0,0 +1,107 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { QuestionDoc } from './types';
+import {
+  requireAuth,
+  requireObject,
+  requireString,
+  optionalString,
+  requireNumber,
+  requireBoolean,
+  requireStringArray,
+  requireOneOf,
+  requireCoach,
+} from './validation';
+
+const SUBJECT_AREAS = ['SS', 'SC', 'LA', 'MA', 'AH'] as const;
+const LEVELS = ['EL', 'MS', 'HS'] as const;
+const VALIDATION_STATUSES = ['pending', 'approved', 'flagged', 'rejected'] as const;
+const ACTIONS = ['create', 'update', 'delete'] as const;
+
+const parseQuestion = (value: unknown, coachTeamId?: string): Omit<QuestionDoc, 'createdBy'> => {
+  const data = requireObject(value);
+  const isPublic = requireBoolean(data.isPublic, 'question.isPublic');
+  const question: Omit<QuestionDoc, 'createdBy'> = {
+    subjectArea: requireOneOf(data.subjectArea, 'question.subjectArea', SUBJECT_AREAS),
+    questionText: requireString(data.questionText, 'question.questionText', 2000),
+    correctAnswer: requireString(data.correctAnswer, 'question.correctAnswer', 500),
+    distractors: requireStringArray(data.distractors, 'question.distractors', { minLength: 1, maxLength: 5 }),
+    level: requireOneOf(data.level, 'question.level', LEVELS),
+    isPublic,
+    importYear: requireNumber(data.importYear, 'question.importYear', { min: 1900, max: 2100, integer: true }),
+  };
+
+  if (data.validationStatus !== undefined) {
+    question.validationStatus = requireOneOf(data.validationStatus, 'question.validationStatus', VALIDATION_STATUSES);
+  }
+
+  // Private questions are always scoped to the coach's own team
+  const teamId = optionalString(data.teamId, 'question.teamId', 64);
+  if (!isPublic) {
+    if (!coachTeamId) {
+      throw new HttpsError('failed-precondition', 'You must have a team to create private questions.');
+    }
+    if (teamId && teamId !== coachTeamId) {
+      throw new HttpsError('permission-denied', 'Private questions can only belong to your own team.');
+    }
+    question.teamId = coachTeamId;
+  } else if (teamId) {
+    question.teamId = teamId;
+  }
+
+  if (question.distractors.includes(question.correctAnswer)) {
+    throw new HttpsError('invalid-argument', 'A distractor cannot match the correct answer.');
+  }
+
+  return question;
+};
+
+/**
+ * Create, update or delete a question on behalf of a coach.
+ * Only the coach who created a question may change or delete it.
+ */
+export const commitQuestionEdit = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const action = requireOneOf(data.action, 'action', ACTIONS);
+  const coach = await requireCoach(uid);
+
+  if (action === 'create') {
+    const question = parseQuestion(data.question, coach.teamId);
+    const questionRef = db.collection('questions').doc();
+    await questionRef.set({
+      ...question,
+      answersLocked: false,
+      lockedBy: [],
+      createdBy: uid,
+      importDate: Timestamp.now(),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return { questionId: questionRef.id };
+  }
+
+  const questionId = requireString(data.questionId, 'questionId', 128);
+  const questionRef = db.collection('questions').doc(questionId);
+  const existing = await questionRef.get();
+  if (!existing.exists) {
+    throw new HttpsError('not-found', 'Question not found.');
+  }
+  if ((existing.data() as QuestionDoc).createdBy !== uid) {
+    throw new HttpsError('permission-denied', 'You can only edit questions you created.');
+  }
+
+  if (action === 'delete') {
+    await questionRef.delete();
+    return { questionId };
+  }
+
+  const question = parseQuestion(data.question, coach.teamId);
+  await questionRef.update({
+    ...question,
+    teamId: question.teamId ?? FieldValue.delete(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return { questionId };
+});
@@ -0,0 +1,133 @@
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { GameDoc, TeamDoc } from './types';
+import { abandonMatch, beginMatch } from './liveMatch';
+import { sweepExpiredMatchCodes } from './matchCodes';
+import { backfillQuestionLocks } from './questionLocks';
+
+// Roster reminders go out this long before a scheduled match
+const REMINDER_LEAD_MS = 15 * 60 * 1000;
+// The lobby opens this long before a scheduled match so players can join
+const LOBBY_OPEN_LEAD_MS = 5 * 60 * 1000;
+
+// Every player on the rosters of the match's team(s)
+const getRosterPlayerIds = async (game: GameDoc): Promise<string[]> => {
+  const teamIds = [...new Set([...(game.teamId ? [game.teamId] : []), ...(game.teamIds || [])])];
+  const teamDocs = teamIds.length > 0
+    ? await db.getAll(...teamIds.map((teamId) => db.collection('teams').doc(teamId)))
+    : [];
+  const playerIds = teamDocs.flatMap((teamDoc) => (teamDoc.exists ? (teamDoc.data() as TeamDoc).playerIds || [] : []));
+  return [...new Set(playerIds)];
+};
+
+/**
+ * Send match_start reminders for a scheduled match and/or open its lobby.
+ * Runs in a transaction on the game so overlapping scheduler runs never send
+ * the reminders twice or reopen a lobby the coach already cancelled.
+ */
+const prepareScheduledMatch = async (gameId: string, now: number) => {
+  const gameRef = db.collection('games').doc(gameId);
+  const game = (await gameRef.get()).data() as GameDoc | undefined;
+  if (!game || game.status !== 'scheduled' || !game.scheduledAt) return;
+  const rosterPlayerIds = game.reminderSentAt ? [] : await getRosterPlayerIds(game);
+
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(gameRef);
+    const current = snapshot.data() as GameDoc | undefined;
+    if (!current || current.status !== 'scheduled' || !current.scheduledAt) return;
+
+    const update: Record<string, unknown> = {};
+    if (!current.reminderSentAt) {
+      const code = current.matchIdCode || gameId.substring(0, 6).toUpperCase();
+      const minutes = Math.max(1, Math.round((current.scheduledAt.toMillis() - now) / 60000));
+      rosterPlayerIds.forEach((playerId) => {
+        const notificationData: Record<string, unknown> = {
+          userId: playerId,
+          type: 'match_start',
+          title: 'Match Starting Soon',
+          message: `Match ${code} starts in ${minutes} minute${minutes === 1 ? '' : 's'}. Join with code ${code}.`,
+          gameId,
+          read: false,
+          createdAt: FieldValue.serverTimestamp(),
+        };
+        if (current.teamId) {
+          notificationData.teamId = current.teamId;
+        }
+        transaction.set(db.collection('notifications').doc(), notificationData);
+      });
+      update.reminderSentAt = FieldValue.serverTimestamp();
+    }
+    if (current.scheduledAt.toMillis() - LOBBY_OPEN_LEAD_MS <= now) {
+      update.status = 'waiting';
+    }
+    if (Object.keys(update).length > 0) {
+      transaction.update(gameRef, update);
+    }
+  });
+};
+
+/**
+ * Drives scheduled matches every minute: reminds the roster ahead of time,
+ * opens the lobby shortly before the start, and begins the match at the
+ * scheduled time once its minimum number of players have joined. A match
+ * short of players stays in the lobby until enough join or the coach
+ * begins or cancels it. Live matches nobody is driving any more are
+ * completed with partial results once their deadline passes, expired
+ * join codes are cleared from the registry, and older questions are given
+ * their answer-lock flag.
+ */
+export const runScheduledMatches = onSchedule('every 1 minutes', async () => {
+  const now = Date.now();
+
+  const upcoming = await db.collection('games')
+    .where('status', '==', 'scheduled')
+    .where('scheduledAt', '<=', Timestamp.fromMillis(now + REMINDER_LEAD_MS))
+    .get();
+  for (const gameDoc of upcoming.docs) {
+    try {
+      await prepareScheduledMatch(gameDoc.id, now);
+    } catch (error) {
+      console.error(`Failed to prepare scheduled match ${gameDoc.id}:`, error);
+    }
+  }
+
+  const due = await db.collection('games')
+    .where('status', '==', 'waiting')
+    .where('scheduledAt', '<=', Timestamp.fromMillis(now))
+    .get();
+  for (const gameDoc of due.docs) {
+    const game = gameDoc.data() as GameDoc;
+    const minPlayers = game.minPlayers || 1;
+    if ((game.playerIds || []).length < minPlayers) continue;
+    try {
+      await beginMatch(gameDoc.id, game, minPlayers);
+    } catch (error) {
+      console.error(`Failed to begin scheduled match ${gameDoc.id}:`, error);
+    }
+  }
+
+  const live = await db.collection('games')
+    .where('type', '==', 'match')
+    .where('status', '==', 'active')
+    .get();
+  for (const gameDoc of live.docs) {
+    try {
+      await abandonMatch(gameDoc.id, gameDoc.data() as GameDoc, now);
+    } catch (error) {
+      console.error(`Failed to close abandoned match ${gameDoc.id}:`, error);
+    }
+  }
+
+  try {
+    await sweepExpiredMatchCodes();
+  } catch (error) {
+    console.error('Failed to sweep expired match codes:', error);
+  }
+
+  try {
+    await backfillQuestionLocks();
+  } catch (error) {
+    console.error('Failed to backfill question locks:', error);
+  }
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { compareAvgBuzzTime, rankResults } from './scoring';
+
+describe('compareAvgBuzzTime', () => {
+  it('puts faster buzz times first', () => {
+    expect(compareAvgBuzzTime(1.2, 2.5)).toBeLessThan(0);
+    expect(compareAvgBuzzTime(2.5, 1.2)).toBeGreaterThan(0);
+  });
+
+  it('puts a player who never buzzed behind everyone who did', () => {
+    expect(compareAvgBuzzTime(0, 9.9)).toBeGreaterThan(0);
+    expect(compareAvgBuzzTime(9.9, 0)).toBeLessThan(0);
+    expect(compareAvgBuzzTime(0, 0)).toBe(0);
+  });
+});
+
+describe('rankResults', () => {
+  it('ranks by points, then buzz time, with no buzzes last', () => {
+    const ranked = rankResults([
+      { playerId: 'silent', score: 2, points: 4, avgBuzzTime: 0 },
+      { playerId: 'slow', score: 2, points: 4, avgBuzzTime: 3.1 },
+      { playerId: 'fast', score: 2, points: 4, avgBuzzTime: 1.4 },
+      { playerId: 'top', score: 3, points: 6, avgBuzzTime: 0 },
+    ]);
+    expect(ranked.map((result) => result.playerId)).toEqual(['top', 'fast', 'slow', 'silent']);
+  });
+
+  it('falls back to the score for results without points', () => {
+    const ranked = rankResults([
+      { playerId: 'a', score: 1, avgBuzzTime: 1 },
+      { playerId: 'b', score: 2, avgBuzzTime: 2 },
+    ]);
+    expect(ranked.map((result) => result.playerId)).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,103 @@
+import { AttemptOutcome, ScoringRulesDoc } from './types';
+
+/**
+ * Scoring rules engine shared by practice results, live matches and result
+ * ranking. The web app mirrors it in src/util/scoring.ts so players see the
+ * same points the server records; keep the two in sync.
+ */
+
+// One point per correct answer and nothing else, which is how games were
+// scored before scoring rules existed
+export const DEFAULT_SCORING_RULES: ScoringRulesDoc = {
+  correctPoints: 1,
+  earlyBuzzBonus: 0,
+  speedPoints: 0,
+  interruptPenalty: 0,
+  incorrectPenalty: 0,
+  subjectWeights: {},
+};
+
+const MAX_POINTS = 100;
+const MAX_SUBJECT_WEIGHT = 10;
+
+const clamp = (value: unknown, fallback: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(0, value), max) : fallback;
+
+// Fill in missing or out-of-range rules from a stored settings document
+export const normalizeScoringRules = (data?: Partial<ScoringRulesDoc> | null): ScoringRulesDoc => {
+  const subjectWeights: Record<string, number> = {};
+  Object.entries(data?.subjectWeights || {}).forEach(([subject, weight]) => {
+    subjectWeights[subject] = clamp(weight, 1, MAX_SUBJECT_WEIGHT);
+  });
+  return {
+    correctPoints: clamp(data?.correctPoints, DEFAULT_SCORING_RULES.correctPoints, MAX_POINTS),
+    earlyBuzzBonus: clamp(data?.earlyBuzzBonus, DEFAULT_SCORING_RULES.earlyBuzzBonus, MAX_POINTS),
+    speedPoints: clamp(data?.speedPoints, DEFAULT_SCORING_RULES.speedPoints, MAX_POINTS),
+    interruptPenalty: clamp(data?.interruptPenalty, DEFAULT_SCORING_RULES.interruptPenalty, MAX_POINTS),
+    incorrectPenalty: clamp(data?.incorrectPenalty, DEFAULT_SCORING_RULES.incorrectPenalty, MAX_POINTS),
+    subjectWeights,
+  };
+};
+
+export interface ScorableAttempt {
+  outcome: AttemptOutcome;
+  subjectArea: string;
+  // Words on screen at the buzz (all of them for a timeout)
+  wordsRevealed: number;
+  totalWords: number;
+}
+
+/**
+ * Points for one attempt. A correct answer earns the base points plus the
+ * early-buzz and speed bonuses, all scaled by the subject weight. A wrong
+ * answer or hesitation loses the interrupt penalty if the buzz came before
+ * the question was fully revealed, the incorrect penalty otherwise. A
+ * timeout scores nothing.
+ */
+export const scoreAttempt = (rules: ScoringRulesDoc | undefined, attempt: ScorableAttempt): number => {
+  const scoring = rules || DEFAULT_SCORING_RULES;
+  const totalWords = Math.max(1, attempt.totalWords);
+  const early = attempt.wordsRevealed < totalWords;
+
+  if (attempt.outcome === 'correct') {
+    const hiddenShare = Math.max(0, totalWords - attempt.wordsRevealed) / totalWords;
+    const weight = scoring.subjectWeights[attempt.subjectArea] ?? 1;
+    const points = (scoring.correctPoints + (early ? scoring.earlyBuzzBonus : 0) + scoring.speedPoints * hiddenShare) * weight;
+    return parseFloat(points.toFixed(2));
+  }
+  if (attempt.outcome === 'incorrect' || attempt.outcome === 'hesitation') {
+    return -(early ? scoring.interruptPenalty : scoring.incorrectPenalty);
+  }
+  return 0;
+};
+
+// Add up attempt points, rounded like the stored buzz times
+export const sumPoints = (points: number[]) => parseFloat(points.reduce((a, b) => a + b, 0).toFixed(2));
+
+// A result's points, falling back to its correct answers for results recorded before scoring rules
+export const getResultPoints = (result: { score: number; points?: number }) => result.points ?? result.score;
+
+/**
+ * Order average buzz times fastest first. A player who never buzzed has an
+ * average of 0 and ranks behind everyone who did. Mirrored in src/util/ranking.ts.
+ */
+export const compareAvgBuzzTime = (a: number, b: number): number => {
+  if (a > 0 && b > 0) {
+    return a - b;
+  }
+  return (a > 0 ? 0 : 1) - (b > 0 ? 0 : 1);
+};
+
+/**
+ * Rank the results of a single game: points descending, then average buzz
+ * time ascending. Matches the ordering shown in MatchResults.
+ */
+export const rankResults = <T extends { score: number; points?: number; avgBuzzTime: number }>(results: T[]): T[] =>
+  [...results].sort((a, b) => {
+    const pointsA = getResultPoints(a);
+    const pointsB = getResultPoints(b);
+    if (pointsB !== pointsA) {
+      return pointsB - pointsA;
+    }
+    return compareAvgBuzzTime(a.avgBuzzTime, b.avgBuzzTime);
+  });
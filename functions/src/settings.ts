@@ -0,0 +1,32 @@
+import { db } from './admin';
+import { GameSettingsDoc } from './types';
+import { DEFAULT_SCORING_RULES, normalizeScoringRules } from './scoring';
+
+const DEFAULT_GAME_SETTINGS: GameSettingsDoc = {
+  questionTime: 10,
+  hesitationTime: 5,
+  wpm: 150,
+  scoring: DEFAULT_SCORING_RULES,
+};
+
+/**
+ * Load a team's game settings, falling back to the 'default' settings
+ * document and then to hardcoded defaults (same order as getGameSettings in
+ * the web app).
+ */
+export const getGameSettings = async (teamId?: string): Promise<GameSettingsDoc> => {
+  const candidates = teamId ? [teamId, 'default'] : ['default'];
+  for (const settingsId of candidates) {
+    const settingsDoc = await db.collection('settings').doc(settingsId).get();
+    if (settingsDoc.exists) {
+      const data = settingsDoc.data() as Partial<GameSettingsDoc>;
+      return {
+        questionTime: data.questionTime ?? DEFAULT_GAME_SETTINGS.questionTime,
+        hesitationTime: data.hesitationTime ?? DEFAULT_GAME_SETTINGS.hesitationTime,
+        wpm: data.wpm ?? DEFAULT_GAME_SETTINGS.wpm,
+        scoring: normalizeScoringRules(data.scoring),
+      };
+    }
+  }
+  return DEFAULT_GAME_SETTINGS;
+};
@@ -0,0 +1,45 @@
+import { randomBytes } from 'crypto';
+import { QuestionDoc } from './types';
+
+/**
+ * Seeded, unbiased shuffling for games. A game's shuffleSeed fixes the order
+ * of every question's answer choices, so every player in a match sees the
+ * same A-D layout and a replay can rebuild it. The web app mirrors it in
+ * src/util/shuffle.ts; keep the two in sync so a seed gives the same order.
+ */
+
+// A fresh seed for a new game
+export const newShuffleSeed = (): string => randomBytes(6).toString('hex').toUpperCase();
+
+// Deterministic 32-bit generator (mulberry32) seeded from any string
+export const seededRandom = (seed: string): (() => number) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 2654435761) >>> 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fisher-Yates: every order is equally likely
+export const seededShuffle = <T>(items: T[], seed: string): T[] => {
+  const random = seededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// The answer choices for the question at `questionIndex`, in the order every player sees them
+export const getAnswerChoices = (
+  question: Pick<QuestionDoc, 'correctAnswer' | 'distractors'>,
+  shuffleSeed: string,
+  questionIndex: number
+): string[] => seededShuffle([question.correctAnswer, ...question.distractors], `${shuffleSeed}:${questionIndex}`);
@@ -0,0 +1,97 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { FieldValue } from 'firebase-admin/firestore';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { db } from './admin';
+import { MatchStateDoc, QuestionDoc, SpectatorTokenDoc } from './types';
+import { getQuestionPrefix, getRevealedWords } from './liveMatch';
+import { getGameDoc } from './matches';
+import { requireAuth, requireObject, requireString, requireBoolean } from './validation';
+
+// A spectator link keeps working this long after its match completes, so the display can show the podium
+const SPECTATOR_LINK_GRACE_MS = 30 * 60 * 1000;
+
+/**
+ * Get (or create) the spectator token for a match, so the coach can open the
+ * projector display on a classroom machine that isn't signed in. Passing
+ * `regenerate: true` replaces the token, so links shared earlier stop working.
+ */
+export const createSpectatorToken = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const regenerate = data.regenerate === undefined ? false : requireBoolean(data.regenerate, 'regenerate');
+
+  const game = await getGameDoc(gameId);
+  if (game.coachId !== uid) {
+    throw new HttpsError('permission-denied', 'Only the match coach can share the match display.');
+  }
+  if (game.status === 'completed') {
+    throw new HttpsError('failed-precondition', 'Match has already finished.');
+  }
+
+  const tokenRef = db.collection('spectatorTokens').doc(gameId);
+  const token = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(tokenRef);
+    if (snapshot.exists && !regenerate) {
+      return (snapshot.data() as SpectatorTokenDoc).token;
+    }
+    const newToken = randomBytes(16).toString('hex');
+    transaction.set(tokenRef, { token: newToken, coachId: uid, createdAt: FieldValue.serverTimestamp() });
+    return newToken;
+  });
+
+  return { token };
+});
+
+/**
+ * Read-only view of a live match for a spectator token holder. No sign-in is
+ * needed; the token stands in for it, until a little while after the match
+ * completes (straight away for a cancelled match). The correct answer is only
+ * included once the question has closed, so the display can never give it
+ * away while players can still buzz.
+ */
+export const getSpectatorView = onCall(async (request) => {
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const token = requireString(data.token, 'token', 128);
+
+  const tokenSnapshot = await db.collection('spectatorTokens').doc(gameId).get();
+  const expected = tokenSnapshot.exists ? Buffer.from((tokenSnapshot.data() as SpectatorTokenDoc).token) : null;
+  const given = Buffer.from(token);
+  if (!expected || expected.length !== given.length || !timingSafeEqual(expected, given)) {
+    throw new HttpsError('permission-denied', 'This spectator link is not valid.');
+  }
+
+  const game = await getGameDoc(gameId);
+  if (game.status === 'completed' && (game.endedAt?.toMillis() ?? 0) + SPECTATOR_LINK_GRACE_MS <= Date.now()) {
+    throw new HttpsError('permission-denied', 'This spectator link has expired.');
+  }
+  const matchStateSnapshot = await db.collection('matchStates').doc(gameId).get();
+  let matchState: MatchStateDoc | null = null;
+  if (matchStateSnapshot.exists) {
+    matchState = matchStateSnapshot.data() as MatchStateDoc;
+    if (matchState.status === 'playing' && matchState.lastResult) {
+      const lastResult = { ...matchState.lastResult };
+      delete lastResult.correctAnswer;
+      matchState = { ...matchState, lastResult };
+    }
+    // The stored text stops where the reveal last froze; bring it up to now
+    if (matchState.status === 'playing') {
+      const questionSnapshot = await db.collection('questions').doc(game.questionIds[matchState.currentQuestionIndex]).get();
+      if (questionSnapshot.exists) {
+        const words = getRevealedWords(matchState, matchState.pausedAt || Date.now());
+        matchState = { ...matchState, questionText: getQuestionPrefix((questionSnapshot.data() as QuestionDoc).questionText, words) };
+      }
+    }
+  }
+
+  return {
+    game: {
+      status: game.status,
+      matchIdCode: game.matchIdCode ?? null,
+      teamNames: game.teamNames ?? null,
+      endedEarly: game.endedEarly ?? false,
+    },
+    matchState,
+  };
+});
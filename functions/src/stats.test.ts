@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { QuestionDoc } from './types';
+import { judgePracticeAttempt, parsePracticeAttempts, PracticeAttempt } from './stats';
+
+const question: QuestionDoc = {
+  subjectArea: 'SS',
+  questionText: 'What is the capital of France?',
+  correctAnswer: 'Paris',
+  distractors: ['Lyon', 'Nice', 'Lille'],
+  level: 'MS',
+  isPublic: true,
+  createdBy: 'coach',
+  importYear: 2024,
+};
+
+const attempt = (overrides: Partial<PracticeAttempt> = {}): PracticeAttempt => ({
+  questionIndex: 0,
+  buzzTime: null,
+  wordsRevealed: 6,
+  answer: null,
+  ...overrides,
+});
+
+// The message of the HttpsError parsePracticeAttempts throws for an answer log
+const rejection = (value: unknown, total: number): string => {
+  try {
+    parsePracticeAttempts(value, total);
+  } catch (error) {
+    if (error instanceof HttpsError && error.code === 'invalid-argument') return error.message;
+    throw error;
+  }
+  throw new Error('Expected the answer log to be rejected.');
+};
+
+describe('judgePracticeAttempt', () => {
+  it('judges an answer against the question', () => {
+    expect(judgePracticeAttempt(attempt({ buzzTime: 2, answer: 'Paris' }), question)).toBe('correct');
+    expect(judgePracticeAttempt(attempt({ buzzTime: 2, answer: 'Lyon' }), question)).toBe('incorrect');
+  });
+
+  it('needs the exact right answer', () => {
+    expect(judgePracticeAttempt(attempt({ buzzTime: 2, answer: 'paris' }), question)).toBe('incorrect');
+  });
+
+  it('counts a buzz without an answer as a hesitation and no buzz as a timeout', () => {
+    expect(judgePracticeAttempt(attempt({ buzzTime: 2 }), question)).toBe('hesitation');
+    expect(judgePracticeAttempt(attempt(), question)).toBe('timeout');
+  });
+});
+
+describe('parsePracticeAttempts', () => {
+  it('reads the attempts, filling in missing buzz times and answers', () => {
+    expect(parsePracticeAttempts([
+      { questionIndex: 1, buzzTime: 1.5, wordsRevealed: 3, answer: 'Paris' },
+      { questionIndex: 0, wordsRevealed: 6 },
+    ], 3)).toEqual([
+      attempt({ questionIndex: 1, buzzTime: 1.5, wordsRevealed: 3, answer: 'Paris' }),
+      attempt({ questionIndex: 0 }),
+    ]);
+    expect(parsePracticeAttempts([], 3)).toEqual([]);
+  });
+
+  it('rejects a log that is not an array or is longer than the game', () => {
+    expect(rejection({}, 3)).toBe('attempts must be an array of at most 3 items.');
+    expect(rejection([attempt(), attempt({ questionIndex: 1 })], 1)).toBe('attempts must be an array of at most 1 items.');
+  });
+
+  it('rejects bad fields by position', () => {
+    expect(rejection([attempt({ questionIndex: 3 })], 3)).toBe('attempts[0].questionIndex must be between 0 and 2.');
+    expect(rejection([attempt(), { ...attempt({ questionIndex: 1 }), buzzTime: -1 }], 3))
+      .toBe('attempts[1].buzzTime must be between 0 and 600.');
+    expect(rejection([{ ...attempt(), answer: 42 }], 3)).toBe('attempts[0].answer must be a non-empty string.');
+  });
+
+  it('rejects a question attempted twice', () => {
+    expect(rejection([attempt(), attempt()], 3)).toBe('Each question can only be attempted once.');
+  });
+
+  it('rejects a log with a missed question left out', () => {
+    expect(rejection([attempt({ questionIndex: 0 }), attempt({ questionIndex: 2 })], 3))
+      .toBe('attempts must cover every question up to the last one reached.');
+    expect(rejection([attempt({ questionIndex: 1 })], 3))
+      .toBe('attempts must cover every question up to the last one reached.');
+  });
+});
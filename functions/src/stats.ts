@@ -0,0 +1,316 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './admin';
+import { AttemptDoc, AttemptOutcome, GameDoc, PacketDoc, PacketPlayDoc, PlayerDoc, QuestionDoc } from './types';
+import { AttemptInput, buildAttempt, setAttempts } from './attempts';
+import { scoreAttempt, sumPoints } from './scoring';
+import { getGameSettings } from './settings';
+import {
+  requireAuth,
+  requireObject,
+  requireString,
+  requireNumber,
+  requireBoolean,
+  getUserDoc,
+} from './validation';
+
+// Upper bound for a single buzz time; anything larger is a client bug or tampering
+const MAX_BUZZ_TIME_SECONDS = 600;
+// Sprint lengths (minutes) timed practice can be played at
+export const TIMED_SPRINT_MINUTES = [1, 5, 10];
+// Time allowed past the clock for the last question to finish and the result to arrive
+const TIMED_FINISH_GRACE_SECONDS = 60;
+
+export interface GameResult {
+  score: number;
+  // Points under the team's scoring rules
+  points: number;
+  avgBuzzTime: number;
+  correctBySubject: Record<string, number>;
+  totalBySubject: Record<string, number>;
+  hesitationCount: number;
+  // Questions played, when that isn't every question in the game (timed practice,
+  // thrown-out questions or a match ended early)
+  total?: number;
+  // Whether a timed result may set a personal best (it finished within the clock)
+  countsForBest?: boolean;
+  // An abandoned match or practice session: partial results for a player who did not finish
+  dnf?: boolean;
+}
+
+export interface RecordedGameResult {
+  matchHistoryId: string;
+  personalBest: boolean;
+}
+
+/**
+ * Write a player's matchHistory document for a game and fold the result into
+ * their player stats. Each player gets exactly one matchHistory document per
+ * game (ID `${gameId}_${uid}`); a second write fails with already-exists.
+ * Practice attempts are written in the same transaction as the result, and
+ * timed practice updates the player's best score for that sprint length.
+ */
+export const recordGameResult = async (
+  gameId: string,
+  game: GameDoc,
+  uid: string,
+  result: GameResult,
+  attempts: AttemptDoc[] = []
+): Promise<RecordedGameResult> => {
+  const user = await getUserDoc(uid);
+  const total = result.total ?? game.questionIds.length;
+  const matchHistoryRef = db.collection('matchHistory').doc(`${gameId}_${uid}`);
+  const playerRef = db.collection('players').doc(uid);
+  const gameRef = db.collection('games').doc(gameId);
+  const packetRef = game.packetId ? db.collection('packets').doc(game.packetId) : null;
+
+  return db.runTransaction(async (transaction) => {
+    const [existingHistory, playerSnapshot, packetSnapshot] = await Promise.all([
+      transaction.get(matchHistoryRef),
+      transaction.get(playerRef),
+      packetRef ? transaction.get(packetRef) : Promise.resolve(null),
+    ]);
+    if (existingHistory.exists) {
+      throw new HttpsError('already-exists', 'Results for this game were already recorded.');
+    }
+
+    const matchHistoryData: Record<string, unknown> = {
+      gameId,
+      playerId: uid,
+      type: game.type,
+      score: result.score,
+      points: result.points,
+      total,
+      avgBuzzTime: parseFloat(result.avgBuzzTime.toFixed(2)),
+      correctBySubject: result.correctBySubject,
+      totalBySubject: result.totalBySubject,
+      questionIds: game.questionIds,
+      hesitationCount: result.hesitationCount,
+      startedAt: FieldValue.serverTimestamp(),
+      completedAt: FieldValue.serverTimestamp(),
+    };
+    const teamId = user.teamId || game.teamId;
+    if (teamId) {
+      matchHistoryData.teamId = teamId;
+    }
+    if (game.teamIds) {
+      matchHistoryData.teamIds = game.teamIds;
+    }
+    if (game.subtype) {
+      matchHistoryData.subtype = game.subtype;
+    }
+    if (game.timeLimitMinutes) {
+      matchHistoryData.timeLimitMinutes = game.timeLimitMinutes;
+    }
+    if (result.dnf) {
+      matchHistoryData.dnf = true;
+    }
+    transaction.set(matchHistoryRef, matchHistoryData);
+    setAttempts(transaction, attempts);
+
+    // Fold this game into the player's running totals
+    const player = playerSnapshot.exists ? (playerSnapshot.data() as PlayerDoc) : undefined;
+    const gamesPlayed = player?.gamesPlayed || 0;
+    const newGamesPlayed = gamesPlayed + 1;
+    const mergedCorrectBySubject = { ...(player?.correctBySubject || {}) };
+    Object.entries(result.correctBySubject).forEach(([subject, count]) => {
+      mergedCorrectBySubject[subject] = (mergedCorrectBySubject[subject] || 0) + count;
+    });
+    const mergedTotalBySubject = { ...(player?.totalBySubject || {}) };
+    Object.entries(result.totalBySubject).forEach(([subject, count]) => {
+      mergedTotalBySubject[subject] = (mergedTotalBySubject[subject] || 0) + count;
+    });
+    const timedBests = { ...(player?.timedBests || {}) };
+    const sprintKey = String(game.timeLimitMinutes);
+    const personalBest = game.subtype === 'timed' && result.countsForBest === true &&
+      result.score > (timedBests[sprintKey] ?? -1);
+    if (personalBest) {
+      timedBests[sprintKey] = result.score;
+    }
+    const newAvgBuzzTime = result.avgBuzzTime > 0
+      ? ((player?.avgBuzzTime || 0) * gamesPlayed + result.avgBuzzTime) / newGamesPlayed
+      : player?.avgBuzzTime || 0;
+
+    transaction.set(playerRef, {
+      userId: uid,
+      teamId: player?.teamId ?? user.teamId ?? '',
+      displayName: player?.displayName ?? user.displayName ?? '',
+      gamesPlayed: newGamesPlayed,
+      totalScore: (player?.totalScore || 0) + result.score,
+      totalQuestions: (player?.totalQuestions || 0) + total,
+      avgBuzzTime: parseFloat(newAvgBuzzTime.toFixed(2)),
+      correctBySubject: mergedCorrectBySubject,
+      totalBySubject: mergedTotalBySubject,
+      ...(personalBest ? { timedBests } : {}),
+      ...(player ? {} : { createdAt: FieldValue.serverTimestamp() }),
+    }, { merge: true });
+
+    // Games loaded from one of the team's packets count as a play of that packet
+    const packet = packetSnapshot?.exists ? (packetSnapshot.data() as PacketDoc) : undefined;
+    if (packetRef && packet && packet.teamId === teamId) {
+      const play: PacketPlayDoc = {
+        count: (packet.plays?.[uid]?.count || 0) + 1,
+        lastGameId: gameId,
+        lastType: game.type,
+        lastScore: result.score,
+        lastTotal: total,
+        lastPlayedAt: Timestamp.now(),
+      };
+      transaction.update(packetRef, { [`plays.${uid}`]: play });
+    }
+
+    if (game.type === 'practice') {
+      transaction.update(gameRef, {
+        status: 'completed',
+        endedAt: FieldValue.serverTimestamp(),
+        ...(result.dnf ? { abandoned: true } : {}),
+      });
+    }
+
+    return { matchHistoryId: matchHistoryRef.id, personalBest };
+  });
+};
+
+// One entry of the answer log a client reports for a practice game
+export type PracticeAttempt = Pick<AttemptInput, 'questionIndex' | 'buzzTime' | 'wordsRevealed' | 'answer'>;
+
+/**
+ * Check the answer log sent for a practice game of `total` questions. Each
+ * question can be attempted once, and since questions are played in order the
+ * attempts must cover the first ones with no gaps: a result's total is the
+ * questions reached, so a miss can't be left out.
+ */
+export const parsePracticeAttempts = (value: unknown, total: number): PracticeAttempt[] => {
+  if (!Array.isArray(value) || value.length > total) {
+    throw new HttpsError('invalid-argument', `attempts must be an array of at most ${total} items.`);
+  }
+  const inputs = value.map((item, idx) => {
+    const input = requireObject(item);
+    return {
+      questionIndex: requireNumber(input.questionIndex, `attempts[${idx}].questionIndex`, {
+        min: 0,
+        max: total - 1,
+        integer: true,
+      }),
+      buzzTime: input.buzzTime === null || input.buzzTime === undefined
+        ? null
+        : requireNumber(input.buzzTime, `attempts[${idx}].buzzTime`, { min: 0, max: MAX_BUZZ_TIME_SECONDS }),
+      wordsRevealed: requireNumber(input.wordsRevealed, `attempts[${idx}].wordsRevealed`, { min: 0, integer: true }),
+      answer: input.answer === null || input.answer === undefined
+        ? null
+        : requireString(input.answer, `attempts[${idx}].answer`, 500),
+    };
+  });
+  if (new Set(inputs.map((input) => input.questionIndex)).size !== inputs.length) {
+    throw new HttpsError('invalid-argument', 'Each question can only be attempted once.');
+  }
+  if (inputs.some((input) => input.questionIndex >= inputs.length)) {
+    throw new HttpsError('invalid-argument', 'attempts must cover every question up to the last one reached.');
+  }
+  return inputs;
+};
+
+// An answer is judged; a buzz without one is a hesitation; no buzz is a timeout
+export const judgePracticeAttempt = (attempt: PracticeAttempt, question: QuestionDoc): AttemptOutcome => {
+  if (attempt.answer !== null) {
+    return attempt.answer === question.correctAnswer ? 'correct' : 'incorrect';
+  }
+  return attempt.buzzTime !== null ? 'hesitation' : 'timeout';
+};
+
+/**
+ * Record the calling player's result for a practice game from its answer log.
+ *
+ * The game document is the source of truth for which questions were played
+ * and the question documents for the right answers, so the client only
+ * reports what it did on each question (buzz time, words revealed, answer)
+ * and the server judges it and derives the score and tallies. Match results
+ * are never accepted from clients; they are recorded by the server when a
+ * live match finishes (see liveMatch.ts). A session the player abandons
+ * part-way (`abandoned: true`) is recorded as a DNF on the questions reached.
+ */
+export const writeMatchStats = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const gameId = requireString(data.gameId, 'gameId', 128);
+  const abandoned = data.abandoned === undefined ? false : requireBoolean(data.abandoned, 'abandoned');
+
+  const gameSnapshot = await db.collection('games').doc(gameId).get();
+  if (!gameSnapshot.exists) {
+    throw new HttpsError('not-found', 'Game not found.');
+  }
+  const game = gameSnapshot.data() as GameDoc;
+
+  if (game.type === 'match') {
+    throw new HttpsError('failed-precondition', 'Match results are recorded by the server when the match ends.');
+  }
+  if (game.playerId !== uid) {
+    throw new HttpsError('permission-denied', 'This practice game belongs to another player.');
+  }
+
+  const timed = game.subtype === 'timed';
+  if (timed && !TIMED_SPRINT_MINUTES.includes(game.timeLimitMinutes ?? 0)) {
+    throw new HttpsError('failed-precondition', `Timed practice must last ${TIMED_SPRINT_MINUTES.join(', ')} minutes.`);
+  }
+
+  const inputs = parsePracticeAttempts(data.attempts, game.questionIds.length);
+
+  // Practice is scored with the player's team rules, like their matches
+  const { scoring } = await getGameSettings((await getUserDoc(uid)).teamId);
+  const questionSnapshots = inputs.length > 0
+    ? await db.getAll(...inputs.map((input) => db.collection('questions').doc(game.questionIds[input.questionIndex])))
+    : [];
+
+  const attempts: AttemptDoc[] = [];
+  const result: GameResult = {
+    score: 0,
+    points: 0,
+    avgBuzzTime: 0,
+    correctBySubject: {},
+    totalBySubject: {},
+    hesitationCount: 0,
+  };
+  const buzzTimes: number[] = [];
+  inputs.forEach((input, idx) => {
+    if (!questionSnapshots[idx].exists) return;
+    const question = questionSnapshots[idx].data() as QuestionDoc;
+
+    const outcome = judgePracticeAttempt(input, question);
+    attempts.push(buildAttempt(gameId, game, question, { ...input, playerId: uid, outcome }));
+
+    const subject = question.subjectArea;
+    result.totalBySubject[subject] = (result.totalBySubject[subject] || 0) + 1;
+    if (outcome === 'correct') {
+      result.score += 1;
+      result.correctBySubject[subject] = (result.correctBySubject[subject] || 0) + 1;
+    }
+    if (outcome === 'hesitation') {
+      result.hesitationCount += 1;
+    }
+    if (input.buzzTime !== null) {
+      buzzTimes.push(input.buzzTime);
+    }
+  });
+  if (buzzTimes.length > 0) {
+    result.avgBuzzTime = buzzTimes.reduce((a, b) => a + b, 0) / buzzTimes.length;
+  }
+  result.points = sumPoints(attempts.map((attempt) => scoreAttempt(scoring, attempt)));
+
+  // A timed game is scored on the questions reached before the clock ran out,
+  // and only counts for a personal best if it really finished in time
+  if (timed) {
+    result.total = attempts.length;
+    const elapsedSeconds = game.startedAt ? (Date.now() - game.startedAt.toMillis()) / 1000 : Infinity;
+    result.countsForBest = !abandoned &&
+      elapsedSeconds <= (game.timeLimitMinutes ?? 0) * 60 + TIMED_FINISH_GRACE_SECONDS;
+  }
+  // An abandoned session is recorded as partial, on the questions the player reached
+  if (abandoned) {
+    result.total = attempts.length;
+    result.dnf = true;
+  }
+
+  const { matchHistoryId, personalBest } = await recordGameResult(gameId, game, uid, result, attempts);
+
+  return { matchHistoryId, score: result.score, points: result.points, personalBest };
+});
@@ -0,0 +1,509 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { db } from './admin';
+import {
+  GameDoc,
+  LeaderboardEntryDoc,
+  MatchHistoryDoc,
+  PlayerDoc,
+  TeamDoc,
+  TournamentDoc,
+  TournamentFormat,
+  TournamentMatchDoc,
+  TournamentStandingDoc,
+  TournamentTiebreaker,
+} from './types';
+import { claimMatchCode, reserveMatchCodes } from './matchCodes';
+import { lockQuestions } from './questionLocks';
+import { compareAvgBuzzTime, getResultPoints } from './scoring';
+import { newShuffleSeed } from './shuffle';
+import {
+  requireAuth,
+  requireObject,
+  requireString,
+  requireStringArray,
+  requireNumber,
+  requireOneOf,
+  optionalString,
+  requireCoach,
+} from './validation';
+
+const MAX_TOURNAMENT_PLAYERS = 32;
+const MAX_QUESTIONS_PER_MATCH = 50;
+const MAX_QUESTION_POOL = 500;
+// Both players must join a tournament match before the scheduler auto-begins it
+const TOURNAMENT_MATCH_PLAYERS = 2;
+
+const TOURNAMENT_FORMATS: readonly TournamentFormat[] = ['single_elimination', 'round_robin'];
+const TOURNAMENT_TIEBREAKERS: readonly TournamentTiebreaker[] = ['head_to_head', 'total_score', 'avg_buzz_time', 'seed'];
+const DEFAULT_TIEBREAKERS: TournamentTiebreaker[] = ['head_to_head', 'total_score', 'avg_buzz_time', 'seed'];
+
+/**
+ * Seed order for the participants: all-time leaderboard accuracy descending,
+ * then average buzz time ascending. Players with no leaderboard entry yet
+ * are seeded last, in the order given.
+ */
+const seedPlayers = async (playerIds: string[], players: Map<string, PlayerDoc>): Promise<string[]> => {
+  const entryDocs = await db.getAll(
+    ...playerIds.map((playerId) => db.collection('leaderboards').doc(`${players.get(playerId)?.teamId}_${playerId}`))
+  );
+  const entries = new Map(entryDocs.map((doc, index) => [
+    playerIds[index],
+    doc.exists ? (doc.data() as LeaderboardEntryDoc) : undefined,
+  ]));
+
+  return [...playerIds].sort((a, b) => {
+    const entryA = entries.get(a);
+    const entryB = entries.get(b);
+    if (!entryA || !entryB) {
+      return (entryA ? 0 : 1) - (entryB ? 0 : 1);
+    }
+    if (entryB.accuracy !== entryA.accuracy) {
+      return entryB.accuracy - entryA.accuracy;
+    }
+    return compareAvgBuzzTime(entryA.avgBuzzTime, entryB.avgBuzzTime);
+  });
+};
+
+// Standard bracket order so the top seeds meet last, e.g. 8 slots -> 1,8,4,5,2,7,3,6
+const bracketOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, total - seed]);
+  }
+  return order;
+};
+
+const matchId = (round: number, slot: number) => `r${round}m${slot + 1}`;
+
+// Move an elimination match's winner into their slot in the next round
+const placeWinner = (matches: TournamentMatchDoc[], match: TournamentMatchDoc) => {
+  const next = matches.find((candidate) => candidate.round === match.round + 1 && candidate.slot === Math.floor(match.slot / 2));
+  if (!next || !match.winnerId) return;
+  next.playerIds[match.slot % 2] = match.winnerId;
+  if (next.playerIds.every((playerId) => playerId)) {
+    next.status = 'ready';
+  }
+};
+
+/**
+ * Single-elimination bracket padded to a power of two. Top seeds get the
+ * byes, which are decided immediately; later rounds wait on their feeders.
+ */
+const buildEliminationBracket = (seededIds: string[]): { rounds: number; matches: TournamentMatchDoc[] } => {
+  const rounds = Math.ceil(Math.log2(seededIds.length));
+  const size = 2 ** rounds;
+  const order = bracketOrder(size);
+  const matches: TournamentMatchDoc[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    for (let slot = 0; slot < size / 2 ** round; slot++) {
+      matches.push({ id: matchId(round, slot), round, slot, playerIds: [null, null], status: 'pending' });
+    }
+  }
+  matches.filter((match) => match.round === 1).forEach((match) => {
+    match.playerIds = [order[match.slot * 2], order[match.slot * 2 + 1]].map((seed) => seededIds[seed - 1] ?? null);
+    const [home, away] = match.playerIds;
+    if (home && away) {
+      match.status = 'ready';
+    } else {
+      match.status = 'bye';
+      match.winnerId = (home || away) as string;
+    }
+  });
+  matches.filter((match) => match.status === 'bye').forEach((match) => placeWinner(matches, match));
+  return { rounds, matches };
+};
+
+/**
+ * Round-robin schedule by the circle method: everyone plays everyone once,
+ * one match per player per round, with a bye each round for an odd field.
+ */
+const buildRoundRobin = (seededIds: string[]): { rounds: number; matches: TournamentMatchDoc[] } => {
+  const circle: (string | null)[] = seededIds.length % 2 === 0 ? [...seededIds] : [...seededIds, null];
+  const rounds = circle.length - 1;
+  const matches: TournamentMatchDoc[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    let slot = 0;
+    for (let i = 0; i < circle.length / 2; i++) {
+      const home = circle[i];
+      const away = circle[circle.length - 1 - i];
+      if (home && away) {
+        matches.push({ id: matchId(round, slot), round, slot, playerIds: [home, away], status: 'ready' });
+        slot++;
+      }
+    }
+    // Keep the first entry fixed and rotate the rest
+    circle.splice(1, 0, circle.pop() as string | null);
+  }
+  return { rounds, matches };
+};
+
+// Earliest round that still has matches to play
+const getCurrentRound = (tournament: Pick<TournamentDoc, 'matches' | 'rounds'>) => {
+  const open = tournament.matches.filter((match) => match.status === 'pending' || match.status === 'ready');
+  return open.length > 0 ? Math.min(...open.map((match) => match.round)) : tournament.rounds;
+};
+
+// A match's questions: each round draws the next slice of the pool, wrapping around
+const getMatchQuestionIds = (tournament: TournamentDoc, round: number): string[] => {
+  const pool = tournament.questionIds;
+  const start = ((round - 1) * tournament.questionsPerMatch) % pool.length;
+  return Array.from({ length: tournament.questionsPerMatch }, (_, index) => pool[(start + index) % pool.length]);
+};
+
+/**
+ * Create a match game for every ready match that doesn't have one yet and
+ * notify both players. Round-robin games open one round at a time; bracket
+ * games open as soon as both players are known. Games are marked as due now
+ * with two required players, so the scheduler begins each one once both
+ * players have joined (the coach can also begin it from the lobby).
+ * Join codes are reserved first, so this must run before the transaction's
+ * first write.
+ */
+const openReadyMatches = async (transaction: Transaction, tournamentId: string, tournament: TournamentDoc) => {
+  const currentRound = getCurrentRound(tournament);
+  const readyMatches = tournament.matches
+    .filter((match) => match.status === 'ready' && !match.gameId)
+    .filter((match) => tournament.format === 'single_elimination' || match.round === currentRound);
+  if (readyMatches.length === 0) return;
+  const codes = await reserveMatchCodes(transaction, readyMatches.length);
+
+  readyMatches.forEach((match, index) => {
+    const players = match.playerIds as string[];
+    const gameRef = db.collection('games').doc();
+    const matchIdCode = codes[index];
+    const gameData: Record<string, unknown> = {
+      type: 'match',
+      teamId: tournament.teamId,
+      coachId: tournament.coachId,
+      questionIds: getMatchQuestionIds(tournament, match.round),
+      status: 'waiting',
+      playerIds: [],
+      matchIdCode,
+      shuffleSeed: newShuffleSeed(),
+      startedAt: FieldValue.serverTimestamp(),
+      scheduledAt: Timestamp.now(),
+      minPlayers: TOURNAMENT_MATCH_PLAYERS,
+      tournamentId,
+      tournamentMatchId: match.id,
+      tournamentPlayerIds: players,
+    };
+    if (tournament.teamIds.length > 1) {
+      gameData.teamIds = tournament.teamIds;
+      gameData.teamNames = tournament.teamNames;
+    }
+    transaction.set(gameRef, gameData);
+    claimMatchCode(transaction, matchIdCode, gameRef.id);
+    match.gameId = gameRef.id;
+    match.matchIdCode = matchIdCode;
+
+    players.forEach((playerId) => {
+      const opponentId = players.find((id) => id !== playerId) as string;
+      transaction.set(db.collection('notifications').doc(), {
+        userId: playerId,
+        type: 'match_start',
+        title: 'Tournament Match Ready',
+        message: `${tournament.name}: your round ${match.round} match against ${tournament.playerNames[opponentId] || 'your opponent'} is ready. Join with code ${matchIdCode}.`,
+        gameId: gameRef.id,
+        teamId: tournament.teamId,
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    });
+  });
+};
+
+/**
+ * Decide a finished match: more points wins, as in MatchResults, then the
+ * tournament's tiebreakers that apply within a single match.
+ */
+const decideMatchWinner = (
+  tournament: TournamentDoc,
+  match: TournamentMatchDoc,
+  scores: Record<string, number>,
+  avgBuzzTimes: Record<string, number>
+): string => {
+  const seed = (playerId: string) => tournament.playerIds.indexOf(playerId);
+  const [winnerId] = [...(match.playerIds as string[])].sort((a, b) => {
+    if (scores[a] !== scores[b]) {
+      return scores[b] - scores[a];
+    }
+    const buzzOrder = compareAvgBuzzTime(avgBuzzTimes[a] ?? 0, avgBuzzTimes[b] ?? 0);
+    for (const tiebreaker of tournament.tiebreakers) {
+      if (tiebreaker === 'avg_buzz_time' && buzzOrder !== 0) {
+        return buzzOrder;
+      }
+      if (tiebreaker === 'seed') break;
+    }
+    return seed(a) - seed(b);
+  });
+  return winnerId;
+};
+
+/**
+ * Round-robin standings: wins first, then the configured tiebreakers in
+ * order, then seed. Average buzz time only counts matches with a buzz.
+ */
+const computeStandings = (tournament: TournamentDoc): TournamentStandingDoc[] => {
+  const totals = new Map(tournament.playerIds.map((playerId) => [playerId, {
+    playerId, played: 0, wins: 0, losses: 0, totalScore: 0, buzzTimeSum: 0, buzzTimeMatches: 0,
+  }]));
+  const completed = tournament.matches.filter((match) => match.status === 'completed');
+  completed.forEach((match) => {
+    (match.playerIds as string[]).forEach((playerId) => {
+      const total = totals.get(playerId);
+      if (!total) return;
+      total.played += 1;
+      total.totalScore += match.scores?.[playerId] ?? 0;
+      const buzzTime = match.avgBuzzTimes?.[playerId] ?? 0;
+      if (buzzTime > 0) {
+        total.buzzTimeSum += buzzTime;
+        total.buzzTimeMatches += 1;
+      }
+      if (match.winnerId === playerId) {
+        total.wins += 1;
+      } else {
+        total.losses += 1;
+      }
+    });
+  });
+
+  const standings = Array.from(totals.values()).map((total) => ({
+    playerId: total.playerId,
+    played: total.played,
+    wins: total.wins,
+    losses: total.losses,
+    totalScore: total.totalScore,
+    avgBuzzTime: total.buzzTimeMatches > 0 ? parseFloat((total.buzzTimeSum / total.buzzTimeMatches).toFixed(2)) : 0,
+    rank: 0,
+  }));
+  const seed = (playerId: string) => tournament.playerIds.indexOf(playerId);
+
+  standings.sort((a, b) => {
+    if (a.wins !== b.wins) {
+      return b.wins - a.wins;
+    }
+    const buzzOrder = compareAvgBuzzTime(a.avgBuzzTime, b.avgBuzzTime);
+    for (const tiebreaker of tournament.tiebreakers) {
+      if (tiebreaker === 'head_to_head') {
+        const meeting = completed.find((match) => match.playerIds.includes(a.playerId) && match.playerIds.includes(b.playerId));
+        if (meeting?.winnerId === a.playerId) return -1;
+        if (meeting?.winnerId === b.playerId) return 1;
+      } else if (tiebreaker === 'total_score' && a.totalScore !== b.totalScore) {
+        return b.totalScore - a.totalScore;
+      } else if (tiebreaker === 'avg_buzz_time' && buzzOrder !== 0) {
+        return buzzOrder;
+      } else if (tiebreaker === 'seed') {
+        break;
+      }
+    }
+    return seed(a.playerId) - seed(b.playerId);
+  });
+  standings.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+  return standings;
+};
+
+/**
+ * Create a tournament for the calling coach's team: a single-elimination
+ * bracket or a round robin between the chosen players, seeded by leaderboard
+ * accuracy. Passing `opponentTeamId` adds that team's whole roster for a
+ * tournament between teams. Every match is a regular live match game drawn
+ * from the question pool; the first matches open straight away. The whole
+ * pool is answer-locked until the tournament completes.
+ */
+export const createTournament = onCall(async (request) => {
+  const uid = requireAuth(request);
+  const data = requireObject(request.data);
+  const name = requireString(data.name, 'name', 100);
+  const format = requireOneOf(data.format, 'format', TOURNAMENT_FORMATS);
+  const selectedPlayerIds = requireStringArray(data.playerIds, 'playerIds', { maxLength: MAX_TOURNAMENT_PLAYERS });
+  const questionIds = requireStringArray(data.questionIds, 'questionIds', { minLength: 1, maxLength: MAX_QUESTION_POOL });
+  const questionsPerMatch = requireNumber(data.questionsPerMatch, 'questionsPerMatch', {
+    min: 1,
+    max: Math.min(MAX_QUESTIONS_PER_MATCH, questionIds.length),
+    integer: true,
+  });
+  const tiebreakers = data.tiebreakers === undefined || data.tiebreakers === null
+    ? DEFAULT_TIEBREAKERS
+    : requireStringArray(data.tiebreakers, 'tiebreakers', { maxLength: TOURNAMENT_TIEBREAKERS.length })
+      .map((tiebreaker) => requireOneOf(tiebreaker, 'tiebreakers', TOURNAMENT_TIEBREAKERS));
+  if (new Set(tiebreakers).size !== tiebreakers.length) {
+    throw new HttpsError('invalid-argument', 'Each tiebreaker can only be listed once.');
+  }
+
+  const coach = await requireCoach(uid);
+  const teamId = coach.teamId;
+  if (!teamId) {
+    throw new HttpsError('failed-precondition', 'You must have a team to create a tournament.');
+  }
+  const teamDoc = await db.collection('teams').doc(teamId).get();
+  if (!teamDoc.exists || (teamDoc.data() as TeamDoc).coachId !== uid) {
+    throw new HttpsError('permission-denied', 'You can only create tournaments for your own team.');
+  }
+  const team = teamDoc.data() as TeamDoc;
+
+  const opponentTeamId = optionalString(data.opponentTeamId, 'opponentTeamId', 64);
+  let opponentTeam: TeamDoc | undefined;
+  if (opponentTeamId) {
+    if (opponentTeamId === teamId) {
+      throw new HttpsError('invalid-argument', 'You cannot invite your own team.');
+    }
+    const opponentDoc = await db.collection('teams').doc(opponentTeamId).get();
+    if (!opponentDoc.exists) {
+      throw new HttpsError('not-found', 'Opponent team not found. Check the team ID.');
+    }
+    opponentTeam = opponentDoc.data() as TeamDoc;
+  }
+  const teamIds = opponentTeamId ? [teamId, opponentTeamId] : [teamId];
+
+  const participantIds = [...new Set([...selectedPlayerIds, ...(opponentTeam?.playerIds || [])])];
+  if (participantIds.length < 2 || participantIds.length > MAX_TOURNAMENT_PLAYERS) {
+    throw new HttpsError('invalid-argument', `A tournament needs between 2 and ${MAX_TOURNAMENT_PLAYERS} players.`);
+  }
+  const playerDocs = await db.getAll(...participantIds.map((playerId) => db.collection('players').doc(playerId)));
+  const players = new Map<string, PlayerDoc>();
+  playerDocs.forEach((doc) => {
+    const player = doc.data() as PlayerDoc | undefined;
+    if (!player || !teamIds.includes(player.teamId)) {
+      throw new HttpsError('invalid-argument', `Player ${doc.id} is not on a team in this tournament.`);
+    }
+    players.set(doc.id, player);
+  });
+
+  const questionDocs = await db.getAll(...questionIds.map((id) => db.collection('questions').doc(id)));
+  const missing = questionDocs.filter((doc) => !doc.exists).map((doc) => doc.id);
+  if (missing.length > 0) {
+    throw new HttpsError('invalid-argument', `Questions not found: ${missing.join(', ')}`);
+  }
+
+  const seededIds = await seedPlayers(participantIds, players);
+  const { rounds, matches } = format === 'single_elimination'
+    ? buildEliminationBracket(seededIds)
+    : buildRoundRobin(seededIds);
+
+  const tournamentRef = db.collection('tournaments').doc();
+  const tournament: TournamentDoc = {
+    name,
+    format,
+    coachId: uid,
+    teamId,
+    teamIds,
+    teamNames: opponentTeamId && opponentTeam
+      ? { [teamId]: team.name, [opponentTeamId]: opponentTeam.name }
+      : { [teamId]: team.name },
+    playerIds: seededIds,
+    playerNames: Object.fromEntries(seededIds.map((playerId) => [playerId, players.get(playerId)?.displayName || 'Player'])),
+    questionIds,
+    questionsPerMatch,
+    tiebreakers,
+    rounds,
+    matches,
+    status: 'active',
+  };
+  if (format === 'round_robin') {
+    tournament.standings = computeStandings(tournament);
+  }
+
+  await db.runTransaction(async (transaction) => {
+    await openReadyMatches(transaction, tournamentRef.id, tournament);
+    transaction.set(tournamentRef, { ...tournament, createdAt: FieldValue.serverTimestamp() });
+    lockQuestions(transaction, tournamentRef.id, questionIds);
+    if (opponentTeamId && opponentTeam) {
+      transaction.set(db.collection('notifications').doc(), {
+        userId: opponentTeam.coachId,
+        type: 'team_invite',
+        title: 'Tournament Invitation',
+        message: `${team.name} has added ${opponentTeam.name} to the tournament "${name}". Your players will be notified when their matches are ready.`,
+        teamId: opponentTeamId,
+        read: false,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+  });
+
+  return { tournamentId: tournamentRef.id };
+});
+
+/**
+ * Advance a tournament when one of its match games completes. The winner is
+ * decided from the players' recorded results (a player with no result
+ * forfeits), moved into the next bracket slot or counted in the standings,
+ * and the next matches are opened. A game cancelled before anyone finished
+ * is replaced with a fresh game for the same pairing.
+ */
+export const advanceTournament = onDocumentUpdated('games/{gameId}', async (event) => {
+  const before = event.data?.before.data() as GameDoc | undefined;
+  const after = event.data?.after.data() as GameDoc | undefined;
+  if (!before || !after || !after.tournamentId || before.status === 'completed' || after.status !== 'completed') {
+    return;
+  }
+  const gameId = event.params.gameId;
+  const tournamentRef = db.collection('tournaments').doc(after.tournamentId);
+  const histories = await db.collection('matchHistory').where('gameId', '==', gameId).get();
+
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(tournamentRef);
+    if (!snapshot.exists) return;
+    const tournament = snapshot.data() as TournamentDoc;
+    const match = tournament.matches.find((candidate) => candidate.id === after.tournamentMatchId);
+    // Triggers can be delivered more than once; only the match's current game counts
+    if (!match || match.gameId !== gameId || match.status !== 'ready') return;
+
+    const players = match.playerIds as string[];
+    const results = new Map(histories.docs
+      .map((doc) => doc.data() as MatchHistoryDoc)
+      .filter((history) => players.includes(history.playerId))
+      .map((history) => [history.playerId, history]));
+
+    if (results.size === 0) {
+      delete match.gameId;
+      delete match.matchIdCode;
+    } else {
+      // A player with no result (never joined) loses to anyone who played, whatever their points
+      const scores = Object.fromEntries(players.map((playerId) => {
+        const result = results.get(playerId);
+        return [playerId, result ? getResultPoints(result) : Number.NEGATIVE_INFINITY];
+      }));
+      const avgBuzzTimes = Object.fromEntries(players.map((playerId) => [playerId, results.get(playerId)?.avgBuzzTime ?? 0]));
+      match.winnerId = decideMatchWinner(tournament, match, scores, avgBuzzTimes);
+      match.scores = Object.fromEntries(players.map((playerId) => [playerId, results.has(playerId) ? scores[playerId] : 0]));
+      match.avgBuzzTimes = avgBuzzTimes;
+      match.status = 'completed';
+
+      if (tournament.format === 'single_elimination') {
+        placeWinner(tournament.matches, match);
+        if (match.round === tournament.rounds) {
+          tournament.status = 'completed';
+          tournament.championId = match.winnerId;
+        }
+      } else {
+        tournament.standings = computeStandings(tournament);
+        if (tournament.matches.every((candidate) => candidate.status === 'completed')) {
+          tournament.status = 'completed';
+          tournament.championId = tournament.standings[0]?.playerId;
+        }
+      }
+    }
+
+    const update: Record<string, unknown> = {
+      matches: tournament.matches,
+      status: tournament.status,
+    };
+    if (tournament.standings) {
+      update.standings = tournament.standings;
+    }
+    if (tournament.status === 'completed') {
+      update.championId = tournament.championId;
+      update.completedAt = FieldValue.serverTimestamp();
+    } else {
+      await openReadyMatches(transaction, tournamentRef.id, tournament);
+    }
+    transaction.update(tournamentRef, update);
+  });
+});
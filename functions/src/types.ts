@@ -0,0 +1,444 @@
+import { Timestamp } from 'firebase-admin/firestore';
+
+// Firestore document shapes used by the Cloud Functions.
+// These mirror src/types/firebase.ts in the web app; keep them in sync.
+
+export type UserRole = 'student' | 'coach';
+export type Level = 'EL' | 'MS' | 'HS';
+
+export interface UserDoc {
+  uid: string;
+  email: string;
+  displayName: string;
+  role: UserRole;
+  teamId?: string;
+}
+
+export interface TeamDoc {
+  id: string;
+  name: string;
+  coachId: string;
+  playerIds: string[];
+  levels?: Level[];
+  // Opted in to the league-wide leaderboards for its levels
+  leagueOptIn?: boolean;
+}
+
+export interface QuestionDoc {
+  subjectArea: string;
+  questionText: string;
+  correctAnswer: string;
+  distractors: string[];
+  level: Level;
+  isPublic: boolean;
+  createdBy: string;
+  teamId?: string;
+  importYear: number;
+  validationStatus?: 'pending' | 'approved' | 'flagged' | 'rejected';
+  // Written only by the item stats trigger
+  stats?: QuestionStatsDoc;
+  // Set while a match or tournament that uses the question is unfinished, so
+  // students can't look its answer up; lockedBy lists the games and tournaments holding it
+  answersLocked?: boolean;
+  lockedBy?: string[];
+}
+
+// Empirical item analytics for a question, built from its recorded attempts
+export interface QuestionStatsDoc {
+  attempts: number;
+  correct: number;
+  percentCorrect: number;
+  // Attempts that picked an answer, and how often each answer was picked
+  answered: number;
+  answerCounts: Record<string, number>;
+  // Buzz point is the fraction of the question's words revealed at the buzz (0-1)
+  buzzCount: number;
+  buzzPointSum: number;
+  meanBuzzPoint: number | null;
+  // Point-biserial correlation between answering this question correctly and the
+  // player's score on the rest of the game; null until there are enough attempts
+  discrimination: number | null;
+  // Running sums discrimination is computed from (x = correct, y = rest-of-game score)
+  discriminationCount: number;
+  correctSum: number;
+  restScoreSum: number;
+  restScoreSqSum: number;
+  correctRestScoreSum: number;
+}
+
+export interface PlayerDoc {
+  userId: string;
+  teamId: string;
+  displayName: string;
+  avatar?: string;
+  gamesPlayed: number;
+  totalScore: number;
+  totalQuestions: number;
+  avgBuzzTime: number;
+  correctBySubject: Record<string, number>;
+  totalBySubject?: Record<string, number>;
+  // Best timed-practice score per sprint length in minutes
+  timedBests?: Record<string, number>;
+}
+
+// Practice subtype: 'timed' games run against a clock instead of a question count
+export type GameSubtype = 'timed';
+
+export interface GameDoc {
+  type: 'practice' | 'match';
+  subtype?: GameSubtype;
+  timeLimitMinutes?: number;
+  startedAt?: Timestamp;
+  playerId?: string;
+  teamId?: string;
+  coachId?: string;
+  questionIds: string[];
+  // 'scheduled' matches wait for the scheduler to open their lobby
+  status: 'scheduled' | 'waiting' | 'active' | 'completed';
+  matchIdCode?: string;
+  playerIds?: string[];
+  // Scheduled matches: start time, players needed to auto-begin, and when the roster was reminded
+  scheduledAt?: Timestamp;
+  minPlayers?: number;
+  reminderSentAt?: Timestamp;
+  // Team-vs-team matches: the host team first, then the invited team
+  teamIds?: string[];
+  teamNames?: Record<string, string>;
+  // Final points per team, written when a team match completes
+  teamScores?: Record<string, number>;
+  // Set when the game completes through the Cloud Functions
+  endedAt?: Timestamp;
+  // The coach ended the match before the last question
+  endedEarly?: boolean;
+  // Nobody was left driving the match, so the scheduler completed it after its deadline;
+  // for practice, the player gave up on the session part-way
+  abandoned?: boolean;
+  // Tournament matches: the owning tournament, its bracket slot, and the only players who may join
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  tournamentPlayerIds?: string[];
+  // The saved packet the questions were loaded from
+  packetId?: string;
+  // Seeds the order of every question's answer choices (see shuffle.ts)
+  shuffleSeed?: string;
+  // Each player's clock sync from the lobby, keyed by player ID (see syncClock)
+  connections?: Record<string, ClientConnectionDoc>;
+}
+
+// A player's clock offset (server time minus client time) and round trip, measured in the lobby
+export interface ClientConnectionDoc {
+  offsetMs: number;
+  // Measured by the server from its own timestamps
+  rttMs: number;
+  // Server time (ms) of the measurement
+  measuredAt: number;
+}
+
+// Server-side bookkeeping for a player's clock-sync handshake (games/{gameId}/clockSync/{playerId})
+export interface ClockSyncDoc {
+  // Server time (ms) the last handshake round was answered
+  respondedAt: number;
+  // Shortest gap (ms) seen so far between answering a round and receiving the next
+  minRttMs?: number;
+}
+
+export interface MatchHistoryDoc {
+  gameId: string;
+  playerId: string;
+  teamId?: string;
+  // Every team in a team-vs-team match, so both sides can read the results
+  teamIds?: string[];
+  type: 'practice' | 'match';
+  subtype?: GameSubtype;
+  timeLimitMinutes?: number;
+  // Correct answers, and points under the team's scoring rules (absent on older results)
+  score: number;
+  points?: number;
+  total: number;
+  avgBuzzTime: number;
+  correctBySubject: Record<string, number>;
+  totalBySubject?: Record<string, number>;
+  questionIds: string[];
+  hesitationCount: number;
+  // The match was abandoned before this player reached the last question
+  dnf?: boolean;
+  completedAt?: Timestamp;
+  // Set by the leaderboard trigger once this result has been folded in
+  leaderboardAppliedAt?: unknown;
+  // Set by the item stats trigger once this game's attempts have been folded in
+  itemStatsAppliedAt?: unknown;
+}
+
+export type AttemptOutcome = 'correct' | 'incorrect' | 'hesitation' | 'timeout';
+
+// One player's attempt at one question, stored as attempts/{gameId}_{playerId}_{questionIndex}
+export interface AttemptDoc {
+  gameId: string;
+  gameType: 'practice' | 'match';
+  playerId: string;
+  teamId?: string;
+  teamIds?: string[];
+  questionId: string;
+  questionIndex: number;
+  subjectArea: string;
+  // Seconds from the start of the question to the buzz; null if the player never buzzed
+  buzzTime: number | null;
+  wordsRevealed: number;
+  totalWords: number;
+  // null for a timeout, or a hesitation where no answer was given
+  answer: string | null;
+  correct: boolean;
+  outcome: AttemptOutcome;
+  createdAt?: Timestamp;
+}
+
+// All-time entries live in `leaderboards`; the rest in `leaderboardWindows`
+export type LeaderboardWindow = 'all' | 'week' | 'month' | 'season';
+
+export interface LeaderboardEntryDoc {
+  playerId: string;
+  teamId: string;
+  displayName: string;
+  accuracy: number;
+  avgBuzzTime: number;
+  wins: number;
+  highScore: number;
+  totalGames: number;
+  // Running sums the derived fields above are computed from
+  totalScore: number;
+  totalQuestions: number;
+  buzzTimeSum: number;
+  buzzTimeGames: number;
+  // Copied from the team so league-wide boards can be queried and displayed
+  teamName: string;
+  levels: Level[];
+  leagueOptIn: boolean;
+  window: LeaderboardWindow;
+  // e.g. 'week-2026-W42', 'month-2026-10', 'season-2026-27'; absent for all-time
+  period?: string;
+}
+
+// Current winner of a match game, so wins can move when a later result outranks it
+export interface MatchWinnerDoc {
+  gameId: string;
+  playerId: string;
+  teamId: string;
+}
+
+// How answers are scored, configured per team in its game settings (see scoring.ts)
+export interface ScoringRulesDoc {
+  // Points for a correct answer, before the subject weight
+  correctPoints: number;
+  // Flat bonus for a correct answer buzzed before the question was fully revealed
+  earlyBuzzBonus: number;
+  // Up to this many speed points, scaled by how much of the question was still hidden at the buzz
+  speedPoints: number;
+  // Points lost for a wrong answer or hesitation on a buzz before the question was fully revealed
+  interruptPenalty: number;
+  // Points lost for a wrong answer or hesitation once the question was fully revealed
+  incorrectPenalty: number;
+  // Multiplier on a correct answer's points by subject area; missing subjects count 1
+  subjectWeights: Record<string, number>;
+}
+
+export interface GameSettingsDoc {
+  questionTime: number;
+  hesitationTime: number;
+  wpm: number;
+  // Absent on match states created before scoring rules existed
+  scoring?: ScoringRulesDoc;
+}
+
+// Per-player running tallies for a live match, turned into matchHistory on finish
+export interface MatchPlayerState {
+  // Correct answers
+  score: number;
+  // Points under the match's scoring rules; absent on states created before scoring rules existed
+  points?: number;
+  correctBySubject: Record<string, number>;
+  totalBySubject: Record<string, number>;
+  buzzTimes: number[];
+  hesitationCount: number;
+  teamId?: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+export interface MatchQuestionResult {
+  questionIndex: number;
+  outcome: AttemptOutcome;
+  playerId?: string;
+  // Only set once the question is closed, so it never leaks while others can still buzz
+  correctAnswer?: string;
+}
+
+export interface MatchStateDoc {
+  gameId: string;
+  status: 'playing' | 'reviewing' | 'finished';
+  currentQuestionIndex: number;
+  questionCount: number;
+  questionWordCount: number;
+  // The current question's text up to where the reveal last froze (all of it once it closes);
+  // later words come from revealQuestionText as they are due
+  questionText?: string;
+  // The current question's answer choices in display order, published at the first buzz;
+  // which one is correct stays on the server
+  answerChoices?: string[];
+  questionStartTime: number;
+  // Server time (ms) the current reveal segment began; null while the reveal is frozen by a buzz
+  revealStartedAt: number | null;
+  buzzerState: 'idle' | 'locked' | 'buzzed';
+  buzzedBy?: string | null;
+  buzzedAt?: number | null;
+  // Server time the winning buzz arrived; buzzedAt is when it was pressed, after latency compensation
+  buzzReceivedAt?: number | null;
+  // Words revealed before the current reveal segment began
+  revealedWordsCount: number;
+  questionFullyRevealed: boolean;
+  lockedOutPlayerIds: string[];
+  players: Record<string, MatchPlayerState>;
+  settings: GameSettingsDoc;
+  lastResult: MatchQuestionResult | null;
+  reviewUntil: number | null;
+  // Running points per team under the scoring rules; only set for team-vs-team matches
+  teamScores?: Record<string, number>;
+  // Server time (ms) the coach paused the match; null or absent while running
+  pausedAt?: number | null;
+  // Questions the coach threw out; they count for nobody
+  skippedQuestionIndexes?: number[];
+  // Players the coach removed from the match
+  kickedPlayerIds?: string[];
+  // Events logged so far; the next event's sequence number
+  eventCount?: number;
+}
+
+export type MatchEventType =
+  | 'match_start'
+  | 'question_start'
+  | 'reveal_resume'
+  | 'buzz'
+  | 'answer'
+  | 'hesitation'
+  | 'timeout'
+  | 'question_end'
+  | 'pause'
+  | 'resume'
+  | 'skip'
+  | 'kick'
+  | 'match_end';
+
+// One entry in a live match's event log, stored as games/{gameId}/events/{seq}
+export interface MatchEventDoc {
+  seq: number;
+  type: MatchEventType;
+  // Server time (ms) the event took effect
+  at: number;
+  questionIndex: number;
+  playerId?: string;
+  // Words on screen at a buzz, or where the reveal picks up again
+  wordsRevealed?: number;
+  answer?: string;
+  correct?: boolean;
+  // How a question ended (question_end)
+  outcome?: AttemptOutcome;
+  createdAt?: Timestamp;
+}
+
+export type MatchControlAction = 'pause' | 'resume' | 'skip' | 'kick' | 'end';
+
+// Read-only access to a match's projector display without signing in,
+// stored as spectatorTokens/{gameId}
+export interface SpectatorTokenDoc {
+  token: string;
+  coachId: string;
+  createdAt?: Timestamp;
+}
+
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+
+// Tiebreak rules, applied in the tournament's configured order. Within a single
+// match only avg_buzz_time and seed apply; head_to_head and total_score break
+// ties in round-robin standings. Seed is always the last resort.
+export type TournamentTiebreaker = 'head_to_head' | 'total_score' | 'avg_buzz_time' | 'seed';
+
+export type TournamentMatchStatus = 'pending' | 'ready' | 'completed' | 'bye';
+
+export interface TournamentMatchDoc {
+  id: string;
+  round: number;
+  slot: number;
+  // Two entries; null while a bracket slot waits on an earlier round
+  playerIds: (string | null)[];
+  status: TournamentMatchStatus;
+  gameId?: string;
+  matchIdCode?: string;
+  winnerId?: string;
+  scores?: Record<string, number>;
+  avgBuzzTimes?: Record<string, number>;
+}
+
+export interface TournamentStandingDoc {
+  playerId: string;
+  played: number;
+  wins: number;
+  losses: number;
+  totalScore: number;
+  avgBuzzTime: number;
+  rank: number;
+}
+
+export interface TournamentDoc {
+  name: string;
+  format: TournamentFormat;
+  coachId: string;
+  teamId: string;
+  // Host team first, then an invited team for a tournament between teams
+  teamIds: string[];
+  teamNames: Record<string, string>;
+  // Participants in seed order (seed 1 first), seeded by leaderboard accuracy
+  playerIds: string[];
+  playerNames: Record<string, string>;
+  questionIds: string[];
+  questionsPerMatch: number;
+  tiebreakers: TournamentTiebreaker[];
+  rounds: number;
+  matches: TournamentMatchDoc[];
+  // Round robin only
+  standings?: TournamentStandingDoc[];
+  status: 'active' | 'completed';
+  championId?: string;
+  createdAt?: Timestamp;
+  completedAt?: Timestamp;
+}
+
+// A student's record of playing a packet, kept on the packet by recordGameResult
+export interface PacketPlayDoc {
+  count: number;
+  lastGameId: string;
+  lastType: 'practice' | 'match';
+  lastScore: number;
+  lastTotal: number;
+  lastPlayedAt: Timestamp;
+}
+
+// A saved, ordered question list a coach can load into matches and practice
+export interface PacketDoc {
+  name: string;
+  teamId: string;
+  coachId: string;
+  questionIds: string[];
+  // Questions per subject area, counted when the packet is saved
+  subjectCounts: Record<string, number>;
+  level?: 'EL' | 'MS' | 'HS';
+  notes?: string;
+  plays?: Record<string, PacketPlayDoc>;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// matchCodes/{code}: the open match a join code points at
+export interface MatchCodeDoc {
+  gameId: string;
+  expiresAt: Timestamp;
+  createdAt?: Timestamp;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { CallableRequest, HttpsError } from 'firebase-functions/v2/https';
+import {
+  optionalString,
+  requireAuth,
+  requireBoolean,
+  requireCountMap,
+  requireNumber,
+  requireObject,
+  requireOneOf,
+  requireString,
+  requireStringArray,
+} from './validation';
+
+// The HttpsError a helper throws, so tests can check its code and message
+const errorFrom = (fn: () => unknown): HttpsError => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof HttpsError) return error;
+    throw error;
+  }
+  throw new Error('Expected an HttpsError.');
+};
+
+describe('requireAuth', () => {
+  it('returns the caller uid', () => {
+    const request = { auth: { uid: 'player-1' } } as CallableRequest<unknown>;
+    expect(requireAuth(request)).toBe('player-1');
+  });
+
+  it('rejects a signed-out caller', () => {
+    expect(errorFrom(() => requireAuth({} as CallableRequest<unknown>)).code).toBe('unauthenticated');
+  });
+});
+
+describe('requireObject', () => {
+  it('accepts a plain object', () => {
+    expect(requireObject({ gameId: 'g1' })).toEqual({ gameId: 'g1' });
+  });
+
+  it.each([null, undefined, 'text', 3, ['gameId']])('rejects %j', (value) => {
+    expect(errorFrom(() => requireObject(value)).code).toBe('invalid-argument');
+  });
+});
+
+describe('requireString and optionalString', () => {
+  it('accepts a non-empty string within the limit', () => {
+    expect(requireString('abc', 'name', 3)).toBe('abc');
+  });
+
+  it('rejects empty, blank, too long and non-string values', () => {
+    expect(errorFrom(() => requireString('', 'name')).message).toBe('name must be a non-empty string.');
+    expect(errorFrom(() => requireString('   ', 'name')).code).toBe('invalid-argument');
+    expect(errorFrom(() => requireString(7, 'name')).code).toBe('invalid-argument');
+    expect(errorFrom(() => requireString('abcd', 'name', 3)).message).toBe('name must be at most 3 characters.');
+  });
+
+  it('treats missing optional strings as undefined', () => {
+    expect(optionalString(undefined, 'name')).toBeUndefined();
+    expect(optionalString(null, 'name')).toBeUndefined();
+    expect(optionalString('', 'name')).toBeUndefined();
+    expect(optionalString('abc', 'name')).toBe('abc');
+    expect(errorFrom(() => optionalString(5, 'name')).code).toBe('invalid-argument');
+  });
+});
+
+describe('requireNumber', () => {
+  it('accepts numbers within the bounds', () => {
+    expect(requireNumber(0, 'score', { min: 0, max: 10, integer: true })).toBe(0);
+    expect(requireNumber(2.5, 'buzzTime', { min: 0 })).toBe(2.5);
+  });
+
+  it('rejects non-finite, fractional and out-of-range numbers', () => {
+    expect(errorFrom(() => requireNumber('3', 'score')).message).toBe('score must be a number.');
+    expect(errorFrom(() => requireNumber(NaN, 'score')).code).toBe('invalid-argument');
+    expect(errorFrom(() => requireNumber(Infinity, 'score')).code).toBe('invalid-argument');
+    expect(errorFrom(() => requireNumber(1.5, 'score', { integer: true })).message).toBe('score must be an integer.');
+    expect(errorFrom(() => requireNumber(11, 'score', { min: 0, max: 10 })).message)
+      .toBe('score must be between 0 and 10.');
+  });
+});
+
+describe('requireBoolean', () => {
+  it('accepts only booleans', () => {
+    expect(requireBoolean(false, 'abandoned')).toBe(false);
+    expect(errorFrom(() => requireBoolean('true', 'abandoned')).code).toBe('invalid-argument');
+  });
+});
+
+describe('requireStringArray', () => {
+  it('accepts an array of non-empty strings within the length bounds', () => {
+    expect(requireStringArray(['a', 'b'], 'ids', { minLength: 1, maxLength: 2 })).toEqual(['a', 'b']);
+  });
+
+  it('rejects empty strings, other items and the wrong length', () => {
+    expect(errorFrom(() => requireStringArray(['a', ''], 'ids')).code).toBe('invalid-argument');
+    expect(errorFrom(() => requireStringArray(['a', 1], 'ids')).code).toBe('invalid-argument');
+    expect(errorFrom(() => requireStringArray([], 'ids', { minLength: 1 })).message)
+      .toBe('ids must contain between 1 and 500 items.');
+  });
+});
+
+describe('requireOneOf', () => {
+  it('accepts an allowed value and rejects the rest', () => {
+    expect(requireOneOf('MS', 'level', ['EL', 'MS', 'HS'] as const)).toBe('MS');
+    expect(errorFrom(() => requireOneOf('K', 'level', ['EL', 'MS', 'HS'] as const)).message)
+      .toBe('level must be one of: EL, MS, HS.');
+  });
+});
+
+describe('requireCountMap', () => {
+  it('reads non-negative integer counts and treats a missing map as empty', () => {
+    expect(requireCountMap({ SS: 2, SC: 0 }, 'correctBySubject')).toEqual({ SS: 2, SC: 0 });
+    expect(requireCountMap(undefined, 'correctBySubject')).toEqual({});
+  });
+
+  it('names the bad entry', () => {
+    expect(errorFrom(() => requireCountMap({ SS: -1 }, 'correctBySubject')).message)
+      .toBe('correctBySubject.SS must be between 0 and Infinity.');
+  });
+});
@@ -0,0 +1,108 @@
+import { HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { db } from './admin';
+import { UserDoc } from './types';
+
+// Input validation helpers for callable functions.
+// Each helper throws an HttpsError that the client SDK surfaces as a
+// FunctionsError with the matching code.
+
+export const requireAuth = (request: CallableRequest<unknown>): string => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be signed in.');
+  }
+  return request.auth.uid;
+};
+
+export const requireObject = (data: unknown): Record<string, unknown> => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new HttpsError('invalid-argument', 'Request data must be an object.');
+  }
+  return data as Record<string, unknown>;
+};
+
+export const requireString = (value: unknown, field: string, maxLength: number = 1000): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new HttpsError('invalid-argument', `${field} must be a non-empty string.`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpsError('invalid-argument', `${field} must be at most ${maxLength} characters.`);
+  }
+  return value;
+};
+
+export const optionalString = (value: unknown, field: string, maxLength: number = 1000): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return requireString(value, field, maxLength);
+};
+
+export const requireNumber = (
+  value: unknown,
+  field: string,
+  { min = -Infinity, max = Infinity, integer = false }: { min?: number; max?: number; integer?: boolean } = {}
+): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new HttpsError('invalid-argument', `${field} must be a number.`);
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new HttpsError('invalid-argument', `${field} must be an integer.`);
+  }
+  if (value < min || value > max) {
+    throw new HttpsError('invalid-argument', `${field} must be between ${min} and ${max}.`);
+  }
+  return value;
+};
+
+export const requireBoolean = (value: unknown, field: string): boolean => {
+  if (typeof value !== 'boolean') {
+    throw new HttpsError('invalid-argument', `${field} must be a boolean.`);
+  }
+  return value;
+};
+
+export const requireStringArray = (
+  value: unknown,
+  field: string,
+  { minLength = 0, maxLength = 500 }: { minLength?: number; maxLength?: number } = {}
+): string[] => {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item === '')) {
+    throw new HttpsError('invalid-argument', `${field} must be an array of non-empty strings.`);
+  }
+  if (value.length < minLength || value.length > maxLength) {
+    throw new HttpsError('invalid-argument', `${field} must contain between ${minLength} and ${maxLength} items.`);
+  }
+  return value as string[];
+};
+
+export const requireOneOf = <T extends string>(value: unknown, field: string, allowed: readonly T[]): T => {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new HttpsError('invalid-argument', `${field} must be one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+};
+
+// Record<string, number> with non-negative integer counts (e.g. correctBySubject)
+export const requireCountMap = (value: unknown, field: string): Record<string, number> => {
+  if (value === undefined || value === null) return {};
+  const map = requireObject(value);
+  const result: Record<string, number> = {};
+  Object.entries(map).forEach(([key, count]) => {
+    result[key] = requireNumber(count, `${field}.${key}`, { min: 0, integer: true });
+  });
+  return result;
+};
+
+export const getUserDoc = async (uid: string): Promise<UserDoc> => {
+  const userDoc = await db.collection('users').doc(uid).get();
+  if (!userDoc.exists) {
+    throw new HttpsError('failed-precondition', 'User profile not found.');
+  }
+  return { uid, ...userDoc.data() } as UserDoc;
+};
+
+export const requireCoach = async (uid: string): Promise<UserDoc> => {
+  const user = await getUserDoc(uid);
+  if (user.role !== 'coach') {
+    throw new HttpsError('permission-denied', 'Only coaches can perform this action.');
+  }
+  return user;
+};
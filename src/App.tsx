@@ -21,6 +21,11 @@ import { MatchJoinPage } from './pages/MatchJoinPage';
 import { CreateMatchPage } from './pages/CreateMatchPage';
 import { MatchResultsPage } from './pages/MatchResultsPage';
 import { MatchPlayPage } from './pages/MatchPlayPage';
+import { MatchDisplayPage } from './pages/MatchDisplayPage';
+import { MatchReplayPage } from './pages/MatchReplayPage';
+import { TournamentsPage } from './pages/TournamentsPage';
+import { PacketsPage } from './pages/PacketsPage';
+import { TournamentPage } from './pages/TournamentPage';
 import { AdminDashboardPage } from './pages/AdminDashboardPage';
 import { AdminUserManagementPage } from './pages/AdminUserManagementPage';
 import { AdminQuestionManagementPage } from './pages/AdminQuestionManagementPage';
@@ -52,6 +57,11 @@ const App = () => {
       <Route path="/match-join" element={<MatchJoinPage />} />
       <Route path="/match-play" element={<MatchPlayPage />} />
       <Route path="/match-results" element={<MatchResultsPage />} />
+      <Route path="/match-display" element={<MatchDisplayPage />} />
+      <Route path="/match-replay" element={<MatchReplayPage />} />
+      <Route path="/tournaments" element={<TournamentsPage />} />
+      <Route path="/tournament" element={<TournamentPage />} />
+      <Route path="/packets" element={<PacketsPage />} />
       <Route path="/leaderboard" element={<LeaderboardPage />} />
       <Route path="/match-history" element={<MatchHistoryPage />} />
       <Route path="/game-settings" element={<GameSettingsPage />} />
@@ -3,6 +3,7 @@ import { ArrowLeft, Settings, Trash2, ChevronLeft, ChevronRight } from 'lucide-r
 import { useAuth } from '../context/AuthContext';
 import { getQuestions, createQuestion, updateQuestion, deleteQuestion } from '../services/firestore';
 import { Question } from '../types/firebase';
+import { QuestionStatsPanel } from './QuestionStatsPanel';
 
 interface AdminQuestionManagementProps {
   onBack: () => void;
@@ -332,6 +333,7 @@ export const AdminQuestionManagement: React.FC<AdminQuestionManagementProps> = (
                     </div>
                   ))}
                 </div>
+                <QuestionStatsPanel question={q} />
               </div>
               ))
             )}
@@ -11,7 +11,8 @@ import {
   Trophy,
   AlertTriangle,
   Bell,
-  X
+  X,
+  BookOpen
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { getPlayersByTeam, getQuestions, createQuestion, markNotificationAsRead } from '../services/firestore';
@@ -32,6 +33,8 @@ interface CoachDashboardProps {
   onGameSettings?: () => void;
   onTeamManagement?: () => void;
   onCreateMatch?: () => void;
+  onTournaments?: () => void;
+  onPackets?: () => void;
 }
 
 export function CoachDashboard({ 
@@ -46,6 +49,8 @@ export function CoachDashboard({
   onGameSettings,
   onTeamManagement,
   onCreateMatch,
+  onTournaments,
+  onPackets,
 }: CoachDashboardProps) {
   const navigate = useNavigate();
   const { userData, loading: authLoading } = useAuth();
@@ -481,6 +486,26 @@ export function CoachDashboard({
                   </button>
                 )}
 
+                {onTournaments && (
+                  <button
+                    onClick={onTournaments}
+                    className="w-full bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-600 hover:to-yellow-700 text-white font-bold py-4 px-6 rounded-lg flex items-center justify-center space-x-2 transition-colors"
+                  >
+                    <Trophy className="w-5 h-5" />
+                    <span>Tournaments</span>
+                  </button>
+                )}
+
+                {onPackets && (
+                  <button
+                    onClick={onPackets}
+                    className="w-full bg-gradient-to-r from-cyan-500 to-cyan-600 hover:from-cyan-600 hover:to-cyan-700 text-white font-bold py-4 px-6 rounded-lg flex items-center justify-center space-x-2 transition-colors"
+                  >
+                    <BookOpen className="w-5 h-5" />
+                    <span>Question Packets</span>
+                  </button>
+                )}
+
                 <label className={`w-full bg-gradient-to-r from-purple-500 to-purple-600 hover:from-purple-600 hover:to-purple-700 text-white font-bold py-4 px-6 rounded-lg flex items-center justify-center space-x-2 transition-colors cursor-pointer ${importing ? 'opacity-50 cursor-not-allowed' : ''}`}>
                   <Upload className="w-5 h-5" />
                   <span>{importing ? 'Importing...' : 'Import Questions'}</span>
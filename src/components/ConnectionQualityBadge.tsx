@@ -0,0 +1,39 @@
+import React from 'react';
+import { Wifi } from 'lucide-react';
+import { ClientConnection } from '../types/firebase';
+
+// Round trips (ms) under which a connection counts as good or fair
+const GOOD_RTT_MS = 150;
+const FAIR_RTT_MS = 400;
+
+interface ConnectionQualityBadgeProps {
+  connection?: ClientConnection;
+}
+
+// A player's connection quality in a match lobby, from their clock-sync round trip
+export const ConnectionQualityBadge: React.FC<ConnectionQualityBadgeProps> = ({ connection }) => {
+  if (!connection) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-bold text-white/50">
+        <Wifi className="w-3 h-3" />
+        Checking...
+      </span>
+    );
+  }
+
+  const [label, color] = connection.rttMs < GOOD_RTT_MS
+    ? ['Good', 'text-green-400']
+    : connection.rttMs < FAIR_RTT_MS
+      ? ['Fair', 'text-yellow-400']
+      : ['Poor', 'text-red-400'];
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs font-bold ${color}`}
+      title={`Round trip ${connection.rttMs} ms`}
+    >
+      <Wifi className="w-3 h-3" />
+      {label}
+    </span>
+  );
+};
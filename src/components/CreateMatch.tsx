@@ -1,18 +1,36 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Play, Users, X, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Play, Pause, SkipForward, StopCircle, UserX, Users, X, RefreshCw, Monitor, Link, CalendarClock, ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { useAuth } from '../context/AuthContext';
 import { useQuestions } from '../context/QuestionsContext';
-import { createGame, getGame, updateGame, getPlayersByTeam } from '../services/firestore';
-import { Question, Game, Player } from '../types/firebase';
+import { useMatchState } from '../hooks/useMatchState';
+import { useMatchPresence } from '../hooks/usePresence';
+import { getGame, updateGame, getPlayersByTeam, getPacketsByTeam, createPacket } from '../services/firestore';
+import { createMatch as createMatchCallable, startMatch, controlMatch, createSpectatorToken } from '../services/functions';
+import { Question, Game, Player, MatchControlAction, Packet } from '../types/firebase';
+import { countPacketSubjects, formatSubjectMix } from '../util/packets';
+import { shuffle } from '../util/practiceSelection';
+import { getResultPoints } from '../util/scoring';
 import { onSnapshot, doc } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { MatchResults } from './MatchResults';
+import { PacketBuilder } from './PacketBuilder';
+import { ConnectionQualityBadge } from './ConnectionQualityBadge';
+import { PresenceIndicator } from './PresenceIndicator';
 
 interface CreateMatchProps {
   onBack: () => void;
+  // Saved packet to load the questions from
+  packetId?: string;
 }
 
-export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
+// datetime-local value (local time, minute precision) for a date
+const toLocalInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack, packetId }) => {
   const { userData } = useAuth();
   const { questions: allQuestions, loading: questionsLoading } = useQuestions();
   const [selectedQuestions, setSelectedQuestions] = useState<string[]>([]);
@@ -22,24 +40,73 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
   const [joinedPlayers, setJoinedPlayers] = useState<Player[]>([]);
   const [subjectFilter, setSubjectFilter] = useState<string>('');
   const [matchIdCode, setMatchIdCode] = useState<string>('');
+  const [opponentTeamId, setOpponentTeamId] = useState('');
   const [showResults, setShowResults] = useState(false);
-  const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Generate a short match ID code (6 characters, alphanumeric)
-  const generateMatchIdCode = (): string => {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
-  };
+  const [controlPending, setControlPending] = useState(false);
+  const [spectatorLink, setSpectatorLink] = useState('');
+  const [scheduleMatch, setScheduleMatch] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [minPlayers, setMinPlayers] = useState(2);
+  const [packets, setPackets] = useState<Packet[]>([]);
+  const [loadedPacket, setLoadedPacket] = useState<Packet | null>(null);
+  const [showBuilder, setShowBuilder] = useState(false);
+  // Live match state, for the coach's controls once the match is running
+  const { matchState } = useMatchState(match?.status === 'active' ? match.id : null);
 
   // Filter questions based on subject filter (computed value, not state)
   const filteredQuestions = subjectFilter
     ? allQuestions.filter(q => q.subjectArea === subjectFilter)
     : allQuestions;
 
+  // The team's saved packets, loading the one this page was opened with
+  useEffect(() => {
+    if (!userData?.teamId) return;
+    getPacketsByTeam(userData.teamId)
+      .then((teamPackets) => {
+        setPackets(teamPackets);
+        const packet = teamPackets.find((p) => p.id === packetId);
+        if (packet) {
+          setLoadedPacket(packet);
+          setSelectedQuestions(packet.questionIds);
+        }
+      })
+      .catch((error) => console.error('Error loading packets:', error));
+  }, [userData?.teamId, packetId]);
+
+  const handleLoadPacket = (id: string) => {
+    const packet = packets.find((p) => p.id === id) || null;
+    setLoadedPacket(packet);
+    setSelectedQuestions(packet ? packet.questionIds : []);
+  };
+
+  // Keep the current selection as a new packet for later matches and practice
+  const handleSaveAsPacket = async () => {
+    if (!userData?.teamId || selectedQuestions.length === 0) return;
+    const name = window.prompt('Packet name');
+    if (!name?.trim()) return;
+    try {
+      const newPacket = {
+        name: name.trim(),
+        teamId: userData.teamId,
+        coachId: userData.uid,
+        questionIds: selectedQuestions,
+        subjectCounts: countPacketSubjects(selectedQuestions, allQuestions),
+      };
+      const id = await createPacket(newPacket);
+      const saved: Packet = { ...newPacket, id, plays: {}, createdAt: new Date(), updatedAt: new Date() };
+      setPackets((prev) => [saved, ...prev]);
+      setLoadedPacket(saved);
+    } catch (error) {
+      console.error('Error saving packet:', error);
+      alert(`Failed to save packet${error instanceof Error ? `: ${error.message}` : ''}`);
+    }
+  };
+
+  // The match only counts as a play of the packet if its questions weren't changed
+  const packetUnchanged = !!loadedPacket &&
+    loadedPacket.questionIds.length === selectedQuestions.length &&
+    loadedPacket.questionIds.every((id, index) => selectedQuestions[index] === id);
+
   // Function to refresh joined players
   const refreshJoinedPlayers = async () => {
     if (!match || !userData?.teamId) return;
@@ -58,57 +125,45 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
     }
   };
 
+  const matchId = match?.id;
   useEffect(() => {
-    if (match) {
-      // Initial load of joined players
-      refreshJoinedPlayers();
-
-      // Set up auto-refresh every 5 seconds
-      refreshIntervalRef.current = setInterval(() => {
-        refreshJoinedPlayers();
-      }, 5000);
-
-      // Listen for real-time updates to the match
-      const unsubscribe = onSnapshot(doc(db, 'games', match.id), async (docSnapshot) => {
-        if (docSnapshot.exists()) {
-          const data = docSnapshot.data();
-          const updatedMatch = {
-            id: docSnapshot.id,
-            ...data,
-            startedAt: data.startedAt?.toDate() || new Date(),
-            endedAt: data.endedAt?.toDate(),
-          } as Game;
-          setMatch(updatedMatch);
-          // Update matchIdCode if it exists in the game
-          if (updatedMatch.matchIdCode) {
-            setMatchIdCode(updatedMatch.matchIdCode);
-          }
-
-          // Check if match has completed
-          if (updatedMatch.status === 'completed') {
-            setShowResults(true);
-          }
-
-          // Refresh joined players when match updates
-          await refreshJoinedPlayers();
+    if (!matchId) return;
+
+    // Listen for real-time updates to the match
+    const unsubscribe = onSnapshot(doc(db, 'games', matchId), (docSnapshot) => {
+      if (docSnapshot.exists()) {
+        const data = docSnapshot.data();
+        const updatedMatch = {
+          id: docSnapshot.id,
+          ...data,
+          startedAt: data.startedAt?.toDate() || new Date(),
+          endedAt: data.endedAt?.toDate(),
+          scheduledAt: data.scheduledAt?.toDate(),
+        } as Game;
+        setMatch(updatedMatch);
+        // Update matchIdCode if it exists in the game
+        if (updatedMatch.matchIdCode) {
+          setMatchIdCode(updatedMatch.matchIdCode);
         }
-      });
 
-      return () => {
-        unsubscribe();
-        if (refreshIntervalRef.current) {
-          clearInterval(refreshIntervalRef.current);
-          refreshIntervalRef.current = null;
+        // Check if match has completed
+        if (updatedMatch.status === 'completed') {
+          setShowResults(true);
         }
-      };
-    } else {
-      // Clear interval when match is null
-      if (refreshIntervalRef.current) {
-        clearInterval(refreshIntervalRef.current);
-        refreshIntervalRef.current = null;
       }
-    }
-  }, [match, userData]);
+    });
+
+    return () => unsubscribe();
+  }, [matchId]);
+
+  // Reload the joined players whenever someone joins or is removed; who is
+  // still connected comes from their presence heartbeats
+  const playerIdsKey = match?.playerIds?.join(',') ?? '';
+  useEffect(() => {
+    refreshJoinedPlayers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [matchId, playerIdsKey, userData?.teamId]);
+  const { presence, now: presenceNow } = useMatchPresence(matchId);
 
   const handleCreateMatch = async () => {
     if (selectedQuestions.length === 0) {
@@ -121,57 +176,120 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
       return;
     }
 
+    const scheduledAt = scheduleMatch ? new Date(scheduledFor).getTime() : undefined;
+    if (scheduledAt !== undefined && (Number.isNaN(scheduledAt) || scheduledAt <= Date.now())) {
+      alert('Please choose a start time in the future');
+      return;
+    }
+
     try {
       setCreating(true);
-      // Generate match ID code
-      const code = generateMatchIdCode();
-      setMatchIdCode(code);
-      
-      const gameId = await createGame({
-        type: 'match',
-        teamId: userData.teamId,
-        coachId: userData.uid,
+      // The createMatch Cloud Function validates the questions, generates the
+      // match ID code and creates the game document
+      const { data } = await createMatchCallable({
         questionIds: selectedQuestions,
-        status: 'waiting', // Start in waiting state
-        playerIds: [],
+        teamId: userData.teamId,
+        opponentTeamId: opponentTeamId.trim() || undefined,
+        scheduledAt,
+        minPlayers: scheduleMatch ? minPlayers : undefined,
+        packetId: packetUnchanged ? loadedPacket?.id : undefined,
       });
+      setMatchIdCode(data.matchIdCode);
 
-      // Store matchIdCode in the game document
-      await updateGame(gameId, { matchIdCode: code } as any);
-
-      const createdMatch = await getGame(gameId);
+      const createdMatch = await getGame(data.gameId);
       if (createdMatch) {
         setMatch(createdMatch);
-        // Load matchIdCode from the game if it exists
-        if (createdMatch.matchIdCode) {
-          setMatchIdCode(createdMatch.matchIdCode);
-        }
       }
     } catch (error) {
       console.error('Error creating match:', error);
-      alert('Failed to create match');
+      alert(`Failed to create match${error instanceof Error ? `: ${error.message}` : ''}`);
     } finally {
       setCreating(false);
     }
   };
 
+  // Players from an invited team aren't readable from this team's roster
+  const opponentPlayerCount = match?.playerIds
+    ? match.playerIds.filter((id) => !joinedPlayers.some((p) => p.userId === id)).length
+    : 0;
+
   const handleBeginMatch = async () => {
     if (!match) return;
 
-    if (joinedPlayers.length === 0) {
+    if ((match.playerIds?.length ?? 0) === 0) {
       alert('At least one player must join before beginning the match');
       return;
     }
 
     try {
-      await updateGame(match.id, {
-        status: 'active',
-      });
+      // startMatch opens the shared match state and marks the game active
+      await startMatch({ gameId: match.id });
       // Don't navigate away - let coach see the match in progress
       // The match will be active and players can start playing
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error beginning match:', error);
-      alert('Failed to begin match');
+      alert(`Failed to begin match${error?.message ? `: ${error.message}` : ''}`);
+    }
+  };
+
+  // Live controls: every change goes through the server and reaches the
+  // players' screens through the shared match state
+  const handleControl = async (action: MatchControlAction, playerId?: string) => {
+    if (!match || controlPending) return;
+
+    if (action === 'skip' && !window.confirm('Throw out this question? It will not count for anyone.')) return;
+    if (action === 'end' && !window.confirm('End the match now? Results are saved for the questions played so far.')) return;
+    if (action === 'kick' && !window.confirm('Remove this player from the match?')) return;
+
+    try {
+      setControlPending(true);
+      await controlMatch({ gameId: match.id, action, playerId });
+    } catch (error) {
+      console.error(`Error controlling match (${action}):`, error);
+      alert(`Failed to ${action} match${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setControlPending(false);
+    }
+  };
+
+  // Spectator links belong to one match
+  useEffect(() => {
+    setSpectatorLink('');
+  }, [match?.id]);
+
+  // The projector display opens in its own window so it can go on the big screen
+  const handleOpenDisplay = () => {
+    if (!match) return;
+    window.open(`/match-display?gameId=${match.id}`, '_blank');
+  };
+
+  // A spectator link works on a classroom machine that isn't signed in, until
+  // shortly after the match ends. Regenerating it cuts off the old link
+  const handleSpectatorLink = async (regenerate = false) => {
+    if (!match) return;
+    if (regenerate && !confirm('Replace the spectator link? Displays using the current link will stop updating.')) {
+      return;
+    }
+    try {
+      const { data } = await createSpectatorToken({ gameId: match.id, regenerate });
+      const link = `${window.location.origin}/match-display?gameId=${match.id}&token=${data.token}`;
+      setSpectatorLink(link);
+      await navigator.clipboard?.writeText(link);
+    } catch (error) {
+      console.error('Error creating spectator link:', error);
+      alert(`Failed to create spectator link${error instanceof Error ? `: ${error.message}` : ''}`);
+    }
+  };
+
+  // Deep link students can open or scan to join without typing the code
+  const joinLink = matchIdCode ? `${window.location.origin}/match-join?code=${matchIdCode}` : '';
+
+  const handleCopyJoinLink = async () => {
+    try {
+      await navigator.clipboard.writeText(joinLink);
+    } catch (error) {
+      console.error('Error copying join link:', error);
+      alert(`Failed to copy join link${error instanceof Error ? `: ${error.message}` : ''}`);
     }
   };
 
@@ -186,6 +304,7 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
       });
       setMatch(null);
       setSelectedQuestions([]);
+      setLoadedPacket(null);
       setJoinedPlayers([]);
     } catch (error) {
       console.error('Error canceling match:', error);
@@ -195,7 +314,7 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
 
   const handleSelectQuestions = () => {
     // Auto-select random questions based on numQuestions
-    const shuffled = [...filteredQuestions].sort(() => Math.random() - 0.5);
+    const shuffled = shuffle(filteredQuestions, Math.random);
     const selected = shuffled.slice(0, Math.min(numQuestions, filteredQuestions.length));
     setSelectedQuestions(selected.map(q => q.id));
   };
@@ -224,6 +343,7 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
           setShowResults(false);
           setMatch(null);
           setSelectedQuestions([]);
+          setLoadedPacket(null);
           setJoinedPlayers([]);
         }}
       />
@@ -259,6 +379,55 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
             <>
               {/* Match Configuration */}
               <div className="space-y-6 mb-6">
+                {packets.length > 0 && (
+                  <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                    <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">
+                      Load Saved Packet (Optional)
+                    </label>
+                    <select
+                      value={loadedPacket?.id || ''}
+                      onChange={(e) => handleLoadPacket(e.target.value)}
+                      className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30"
+                    >
+                      <option value="">No packet</option>
+                      {packets.map((packet) => (
+                        <option key={packet.id} value={packet.id}>
+                          {packet.name} ({packet.questionIds.length} questions)
+                        </option>
+                      ))}
+                    </select>
+                    {loadedPacket && (
+                      <p className="text-white/50 text-xs mt-2">
+                        {formatSubjectMix(loadedPacket.subjectCounts || {})}
+                        {!packetUnchanged && ' · Questions changed; this match will not count as a play of the packet.'}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                  <button
+                    onClick={() => setShowBuilder(!showBuilder)}
+                    className="text-cyan-400 hover:text-white text-sm font-bold uppercase flex items-center gap-1"
+                  >
+                    {showBuilder ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    Build A Balanced Set (Optional)
+                  </button>
+                  {showBuilder && (
+                    <div className="mt-4">
+                      <PacketBuilder
+                        questions={allQuestions}
+                        teamId={userData?.teamId}
+                        onBuilt={(questionIds) => {
+                          setLoadedPacket(null);
+                          setSelectedQuestions(questionIds);
+                          setShowBuilder(false);
+                        }}
+                      />
+                    </div>
+                  )}
+                </div>
+
                 <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
                   <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">
                     Select Subject Area (Optional)
@@ -299,6 +468,69 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
                   </div>
                 </div>
 
+                <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                  <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">
+                    Opponent Team ID (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={opponentTeamId}
+                    onChange={(e) => setOpponentTeamId(e.target.value)}
+                    placeholder="Leave blank for an intra-team match"
+                    className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30 placeholder-white/40"
+                  />
+                  <p className="text-white/50 text-xs mt-2">
+                    The other team's coach is notified and their players join with the same Match ID Code.
+                  </p>
+                </div>
+
+                <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                  <label className="flex items-center gap-3 text-cyan-400 text-sm font-bold uppercase cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={scheduleMatch}
+                      onChange={(e) => {
+                        setScheduleMatch(e.target.checked);
+                        if (e.target.checked && !scheduledFor) {
+                          setScheduledFor(toLocalInputValue(new Date(Date.now() + 60 * 60 * 1000)));
+                        }
+                      }}
+                      className="w-5 h-5"
+                    />
+                    <CalendarClock className="w-5 h-5" />
+                    Schedule For Later
+                  </label>
+                  {scheduleMatch && (
+                    <div className="grid grid-cols-2 gap-4 mt-4">
+                      <div>
+                        <label className="block text-white/70 text-xs uppercase mb-1">Start Time</label>
+                        <input
+                          type="datetime-local"
+                          value={scheduledFor}
+                          min={toLocalInputValue(new Date())}
+                          onChange={(e) => setScheduledFor(e.target.value)}
+                          className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-white/70 text-xs uppercase mb-1">Minimum Players</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={50}
+                          value={minPlayers}
+                          onChange={(e) => setMinPlayers(Math.min(50, Math.max(1, parseInt(e.target.value) || 1)))}
+                          className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30"
+                        />
+                      </div>
+                      <p className="col-span-2 text-white/50 text-xs">
+                        Your roster is reminded 15 minutes ahead, the lobby opens 5 minutes before, and the match
+                        begins on its own at the start time once enough players have joined.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
                   <div className="flex items-center justify-between mb-4">
                     <label className="block text-cyan-400 text-sm font-bold uppercase">
@@ -312,13 +544,18 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
                       Auto-Select {numQuestions} Questions
                     </button>
                   </div>
-                  <div className="text-white/70 text-sm mb-2">
-                    Selected: {selectedQuestions.length} questions
+                  <div className="flex items-center justify-between text-white/70 text-sm mb-2">
+                    <span>Selected: {selectedQuestions.length} questions</span>
+                    {selectedQuestions.length > 0 && !packetUnchanged && (
+                      <button onClick={handleSaveAsPacket} className="text-cyan-400 hover:text-white font-bold">
+                        Save as Packet
+                      </button>
+                    )}
                   </div>
                   {selectedQuestions.length > 0 && (
                     <div className="max-h-40 overflow-y-auto space-y-2">
                       {selectedQuestions.map((qId) => {
-                        const q = filteredQuestions.find(q => q.id === qId);
+                        const q = allQuestions.find(q => q.id === qId);
                         return q ? (
                           <div key={qId} className="bg-purple-900 rounded p-2 text-sm text-white flex items-center justify-between">
                             <span className="truncate flex-1">{q.questionText}</span>
@@ -348,7 +585,7 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
                   disabled={creating || selectedQuestions.length === 0}
                   className="flex-1 bg-yellow-500 hover:bg-orange-500 text-black font-black py-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {creating ? 'CREATING...' : 'CREATE MATCH'}
+                  {creating ? 'CREATING...' : scheduleMatch ? 'SCHEDULE MATCH' : 'CREATE MATCH'}
                 </button>
               </div>
             </>
@@ -357,16 +594,87 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
               {/* Match Waiting Room */}
               <div className="space-y-6 mb-6">
                 <div className="bg-green-900/30 border-2 border-green-500 rounded-xl p-6">
-                  <h2 className="text-2xl font-black text-green-400 mb-2">Match Created!</h2>
+                  <h2 className="text-2xl font-black text-green-400 mb-2">
+                    {match.scheduledAt ? 'Match Scheduled!' : 'Match Created!'}
+                  </h2>
+                  {match.scheduledAt && match.status !== 'active' && (
+                    <p className="text-yellow-400 font-bold mb-3">
+                      <CalendarClock className="inline w-5 h-5 mr-2" />
+                      {match.scheduledAt.toLocaleString()}
+                      {' · '}
+                      {match.status === 'scheduled' ? 'lobby opens 5 minutes before' : 'lobby open'}
+                      {` · auto-begins with ${match.minPlayers ?? 1}+ player${(match.minPlayers ?? 1) === 1 ? '' : 's'}`}
+                    </p>
+                  )}
                   <div className="bg-purple-950 border-2 border-cyan-400 rounded-lg p-4 mb-4">
                     <p className="text-cyan-400 text-sm font-bold uppercase mb-2">Match ID Code</p>
                     <p className="font-mono font-black text-4xl text-yellow-400 text-center tracking-wider">
                       {matchIdCode || match.id.substring(0, 6).toUpperCase()}
                     </p>
+                    {joinLink && (
+                      <div className="flex flex-col items-center gap-3 mt-4">
+                        <div className="bg-white p-3 rounded-lg">
+                          <QRCodeSVG value={joinLink} size={160} />
+                        </div>
+                        <button
+                          onClick={handleCopyJoinLink}
+                          className="text-cyan-400 hover:text-white text-xs font-mono flex items-center gap-2"
+                          title="Copy join link"
+                        >
+                          <Copy className="w-4 h-4" />
+                          {joinLink}
+                        </button>
+                      </div>
+                    )}
                   </div>
                   <p className="text-white/70 text-sm">
-                    Share this Match ID Code with your students. They can join using the Match Join feature.
+                    Share this Match ID Code with your students. They can join using the Match Join feature, or scan the QR code to join straight away.
                   </p>
+                  {match.teamIds && match.teamNames && (
+                    <p className="text-yellow-400 font-bold mt-2">
+                      {match.teamIds.map((id) => match.teamNames?.[id] || id).join(' vs ')}
+                    </p>
+                  )}
+                  <div className="grid grid-cols-2 gap-3 mt-4">
+                    <button
+                      onClick={handleOpenDisplay}
+                      className="bg-cyan-500 hover:bg-cyan-400 text-white font-bold py-2 px-4 rounded-lg flex items-center justify-center gap-2"
+                    >
+                      <Monitor className="w-4 h-4" />
+                      Projector Display
+                    </button>
+                    <button
+                      onClick={() => handleSpectatorLink()}
+                      className="bg-purple-950 hover:bg-purple-800 text-cyan-400 font-bold py-2 px-4 rounded-lg border-2 border-cyan-400/50 flex items-center justify-center gap-2"
+                    >
+                      <Link className="w-4 h-4" />
+                      Spectator Link
+                    </button>
+                  </div>
+                  {spectatorLink && (
+                    <div className="mt-3">
+                      <p className="text-white/50 text-xs mb-1">
+                        Copied to clipboard. Anyone with this link can watch (read-only) until shortly after the match ends:
+                      </p>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          readOnly
+                          value={spectatorLink}
+                          onFocus={(e) => e.target.select()}
+                          className="flex-1 bg-purple-950 text-white/80 text-xs font-mono p-2 rounded border border-cyan-400/30"
+                        />
+                        <button
+                          onClick={() => handleSpectatorLink(true)}
+                          className="bg-purple-950 hover:bg-purple-800 text-cyan-400 text-xs font-bold px-3 rounded border border-cyan-400/30 flex items-center gap-1"
+                          title="Replace the link; the old one stops working"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                          New Link
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
@@ -374,6 +682,7 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
                     <h3 className="text-cyan-400 font-bold uppercase text-lg">
                       <Users className="inline w-5 h-5 mr-2" />
                       Joined Players ({joinedPlayers.length})
+                      {opponentPlayerCount > 0 && ` + ${opponentPlayerCount} opponent${opponentPlayerCount === 1 ? '' : 's'}`}
                     </h3>
                     <button
                       onClick={refreshJoinedPlayers}
@@ -402,13 +711,80 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
                               {player.gamesPlayed || 0} games played
                             </div>
                           </div>
-                          <div className="text-green-400 font-bold">✓ Joined</div>
+                          <div className="text-right">
+                            <div className="text-green-400 font-bold">✓ Joined</div>
+                            <div className="flex items-center justify-end gap-2">
+                              <PresenceIndicator presence={presence[player.userId]} now={presenceNow} />
+                              <ConnectionQualityBadge connection={match.connections?.[player.userId]} />
+                            </div>
+                          </div>
                         </div>
                       ))}
                     </div>
                   )}
                 </div>
 
+                {match.status === 'active' && matchState && matchState.status !== 'finished' && (
+                  <div className="bg-purple-950 rounded-xl p-6 border-2 border-yellow-500">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-yellow-400 font-bold uppercase text-lg">Live Controls</h3>
+                      <span className="text-white font-bold">
+                        Question {matchState.currentQuestionIndex + 1}/{matchState.questionCount}
+                        {matchState.pausedAt && <span className="ml-2 text-yellow-400">(PAUSED)</span>}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-3 mb-4">
+                      <button
+                        onClick={() => handleControl(matchState.pausedAt ? 'resume' : 'pause')}
+                        disabled={controlPending}
+                        className="bg-yellow-500 hover:bg-orange-500 text-black font-black py-3 rounded-xl flex items-center justify-center gap-2 disabled:opacity-50"
+                      >
+                        {matchState.pausedAt ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                        {matchState.pausedAt ? 'RESUME' : 'PAUSE'}
+                      </button>
+                      <button
+                        onClick={() => handleControl('skip')}
+                        disabled={controlPending}
+                        className="bg-cyan-500 hover:bg-cyan-400 text-white font-black py-3 rounded-xl flex items-center justify-center gap-2 disabled:opacity-50"
+                      >
+                        <SkipForward className="w-5 h-5" />
+                        SKIP QUESTION
+                      </button>
+                      <button
+                        onClick={() => handleControl('end')}
+                        disabled={controlPending}
+                        className="bg-red-500 hover:bg-red-600 text-white font-black py-3 rounded-xl flex items-center justify-center gap-2 disabled:opacity-50"
+                      >
+                        <StopCircle className="w-5 h-5" />
+                        END EARLY
+                      </button>
+                    </div>
+                    <div className="space-y-2">
+                      {Object.entries(matchState.players)
+                        .sort(([, a], [, b]) => getResultPoints(b) - getResultPoints(a))
+                        .map(([id, state]) => (
+                          <div key={id} className="bg-purple-900 rounded-lg px-4 py-2 flex items-center justify-between">
+                            <span className="text-white font-bold">
+                              {joinedPlayers.find((p) => p.userId === id)?.displayName || state.displayName || 'Player'}
+                            </span>
+                            <div className="flex items-center gap-4">
+                              <PresenceIndicator presence={presence[id]} now={presenceNow} />
+                              <span className="text-cyan-400 font-bold">{getResultPoints(state)}</span>
+                              <button
+                                onClick={() => handleControl('kick', id)}
+                                disabled={controlPending}
+                                className="text-red-400 hover:text-red-300 disabled:opacity-50"
+                                title="Remove player"
+                              >
+                                <UserX className="w-5 h-5" />
+                              </button>
+                            </div>
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
                   <h3 className="text-cyan-400 font-bold uppercase mb-4">Match Details</h3>
                   <div className="grid grid-cols-2 gap-4 text-sm">
@@ -425,18 +801,20 @@ export const CreateMatch: React.FC<CreateMatchProps> = ({ onBack }) => {
               </div>
 
               <div className="flex gap-4 pt-6 border-t border-cyan-400/30">
-                <button
-                  onClick={handleCancelMatch}
-                  className="flex-1 bg-red-500 hover:bg-red-600 text-white font-bold py-3 rounded-xl"
-                >
-                  CANCEL MATCH
-                </button>
+                {match.status !== 'active' && (
+                  <button
+                    onClick={handleCancelMatch}
+                    className="flex-1 bg-red-500 hover:bg-red-600 text-white font-bold py-3 rounded-xl"
+                  >
+                    CANCEL MATCH
+                  </button>
+                )}
                 <button
                   onClick={handleBeginMatch}
-                  disabled={joinedPlayers.length === 0 || match.status === 'active'}
+                  disabled={(match.playerIds?.length ?? 0) === 0 || match.status === 'active' || match.status === 'scheduled'}
                   className="flex-1 bg-green-500 hover:bg-green-600 text-white font-black py-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {match.status === 'active' ? 'MATCH ACTIVE' : 'BEGIN MATCH'}
+                  {match.status === 'active' ? 'MATCH ACTIVE' : match.status === 'scheduled' ? 'SCHEDULED' : 'BEGIN MATCH'}
                 </button>
               </div>
             </>
@@ -2,7 +2,8 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useQuestions } from '../context/QuestionsContext';
-import { getGameSettings, getTeam } from '../services/firestore';
+import { getGameSettings, getPlayer, getTeam } from '../services/firestore';
+import { SubjectMix, TIMED_SPRINT_MINUTES, setPracticeFilterParams } from '../util/practiceSelection';
 import { ArrowLeft } from 'lucide-react';
 
 interface GameModeSelectionProps {
@@ -25,8 +26,14 @@ export const GameModeSelection: React.FC<GameModeSelectionProps> = ({ onBack })
   const [gameMode, setGameMode] = useState<'match' | 'practice'>('practice');
   const [selectedSubjects, setSelectedSubjects] = useState<string[]>(['ALL']);
   const [practiceMode, setPracticeMode] = useState<'questions' | 'time'>('questions');
+  const [questionSelection, setQuestionSelection] = useState<'random' | 'adaptive'>('random');
+  const [level, setLevel] = useState<'' | 'EL' | 'MS' | 'HS'>('');
+  const [minYear, setMinYear] = useState('');
+  const [maxYear, setMaxYear] = useState('');
+  const [subjectMix, setSubjectMix] = useState<SubjectMix>('proportional');
   const [numQuestions, setNumQuestions] = useState(10);
   const [timeMinutes, setTimeMinutes] = useState(5);
+  const [timedBests, setTimedBests] = useState<Record<string, number>>({});
   const [coachSettings, setCoachSettings] = useState<{ questionTime: number; hesitationTime: number; wpm: number } | null>(null);
   const [loadingSettings, setLoadingSettings] = useState(true);
   const [hasQuestions, setHasQuestions] = useState(false);
@@ -94,6 +101,14 @@ export const GameModeSelection: React.FC<GameModeSelectionProps> = ({ onBack })
     }
   }, [userData, loadCoachSettings]);
 
+  // Personal bests for each sprint length, shown on the time limit buttons
+  useEffect(() => {
+    if (!userData?.uid) return;
+    getPlayer(userData.uid)
+      .then((player) => setTimedBests(player?.timedBests || {}))
+      .catch((error) => console.error('Error loading personal bests:', error));
+  }, [userData?.uid]);
+
   const handleSubjectToggle = (value: string) => {
     if (value === 'ALL') {
       setSelectedSubjects(['ALL']);
@@ -111,34 +126,21 @@ export const GameModeSelection: React.FC<GameModeSelectionProps> = ({ onBack })
 
   const handleStart = () => {
     if (gameMode === 'practice') {
-      // Build subject filter for practice mode
-      let subjectFilter = 'Mix';
-      if (selectedSubjects.length === 1 && selectedSubjects[0] === 'ALL') {
-        subjectFilter = 'Mix';
-      } else if (selectedSubjects.length > 0 && !selectedSubjects.includes('ALL')) {
-        // Use first selected subject (PracticeMode currently supports single subject)
-        const subjectMap: Record<string, string> = {
-          'AH': 'Arts and Humanities',
-          'LA': 'Language Arts',
-          'MA': 'Math',
-          'SC': 'Science',
-          'SS': 'Social Studies',
-        };
-        subjectFilter = subjectMap[selectedSubjects[0]] || 'Mix';
-      }
-
       const params = new URLSearchParams();
       if (practiceMode === 'questions') {
         params.set('numQuestions', numQuestions.toString());
       } else {
         params.set('timeMinutes', timeMinutes.toString());
-        // For time-based, we'll use a default number of questions (can be adjusted)
-        params.set('numQuestions', '50'); // Large number to allow time-based practice
       }
-      params.set('practiceMode', subjectFilter);
-      // Pass selected subjects for potential future multi-subject support
-      if (selectedSubjects.length > 0 && !selectedSubjects.includes('ALL')) {
-        params.set('subjects', selectedSubjects.join(','));
+      setPracticeFilterParams(params, {
+        subjects: selectedSubjects.filter((subject) => subject !== 'ALL'),
+        level: level || undefined,
+        minYear: minYear ? parseInt(minYear) : undefined,
+        maxYear: maxYear ? parseInt(maxYear) : undefined,
+        mix: subjectMix,
+      });
+      if (questionSelection === 'adaptive') {
+        params.set('adaptive', 'true');
       }
       navigate(`/practice-mode?${params.toString()}`);
     } else {
@@ -225,6 +227,108 @@ export const GameModeSelection: React.FC<GameModeSelectionProps> = ({ onBack })
             </div>
           </div>
 
+          {/* Subject Mix, Level and Years */}
+          {gameMode === 'practice' && (
+            <div className="mb-6">
+              {(selectedSubjects.includes('ALL') || selectedSubjects.length > 1) && questionSelection === 'random' && (
+                <div className="mb-4">
+                  <label className="block text-white text-sm font-bold uppercase mb-3">Subject Mix</label>
+                  <div className="grid grid-cols-2 gap-4">
+                    <button
+                      onClick={() => setSubjectMix('proportional')}
+                      className={`p-4 rounded-xl border-2 transition-all ${
+                        subjectMix === 'proportional'
+                          ? 'bg-yellow-500 border-yellow-600 text-black'
+                          : 'bg-purple-950 border-cyan-400/30 text-white hover:border-cyan-400'
+                      }`}
+                    >
+                      <div className="font-black">Proportional</div>
+                      <div className="text-xs">Follows the question bank</div>
+                    </button>
+                    <button
+                      onClick={() => setSubjectMix('even')}
+                      className={`p-4 rounded-xl border-2 transition-all ${
+                        subjectMix === 'even'
+                          ? 'bg-yellow-500 border-yellow-600 text-black'
+                          : 'bg-purple-950 border-cyan-400/30 text-white hover:border-cyan-400'
+                      }`}
+                    >
+                      <div className="font-black">Even</div>
+                      <div className="text-xs">Same number from each subject</div>
+                    </button>
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-white text-sm font-bold uppercase mb-2">Level</label>
+                  <select
+                    value={level}
+                    onChange={(e) => setLevel(e.target.value as '' | 'EL' | 'MS' | 'HS')}
+                    className="w-full bg-purple-950 text-white p-3 rounded-lg border-2 border-cyan-400/30 font-bold"
+                  >
+                    <option value="">All Levels</option>
+                    <option value="EL">Elementary</option>
+                    <option value="MS">Middle School</option>
+                    <option value="HS">High School</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-white text-sm font-bold uppercase mb-2">From Year</label>
+                  <input
+                    type="number"
+                    value={minYear}
+                    onChange={(e) => setMinYear(e.target.value)}
+                    placeholder="Any"
+                    className="w-full bg-purple-950 text-white p-3 rounded-lg border-2 border-cyan-400/30 font-bold"
+                  />
+                </div>
+                <div>
+                  <label className="block text-white text-sm font-bold uppercase mb-2">To Year</label>
+                  <input
+                    type="number"
+                    value={maxYear}
+                    onChange={(e) => setMaxYear(e.target.value)}
+                    placeholder="Any"
+                    className="w-full bg-purple-950 text-white p-3 rounded-lg border-2 border-cyan-400/30 font-bold"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Question Selection */}
+          {gameMode === 'practice' && (
+            <div className="mb-6">
+              <label className="block text-white text-sm font-bold uppercase mb-3">
+                Question Selection
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={() => setQuestionSelection('random')}
+                  className={`p-4 rounded-xl border-2 transition-all ${
+                    questionSelection === 'random'
+                      ? 'bg-yellow-500 border-yellow-600 text-black'
+                      : 'bg-purple-950 border-cyan-400/30 text-white hover:border-cyan-400'
+                  }`}
+                >
+                  <div className="font-black">Random</div>
+                </button>
+                <button
+                  onClick={() => setQuestionSelection('adaptive')}
+                  className={`p-4 rounded-xl border-2 transition-all ${
+                    questionSelection === 'adaptive'
+                      ? 'bg-yellow-500 border-yellow-600 text-black'
+                      : 'bg-purple-950 border-cyan-400/30 text-white hover:border-cyan-400'
+                  }`}
+                >
+                  <div className="font-black">Adaptive</div>
+                  <div className="text-xs">Weak subjects and missed questions</div>
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Practice Mode Options */}
           {gameMode === 'practice' && (
             <div className="mb-6">
@@ -279,23 +383,29 @@ export const GameModeSelection: React.FC<GameModeSelectionProps> = ({ onBack })
               ) : (
                 <div>
                   <label className="block text-white text-sm font-bold uppercase mb-2">
-                    Time (minutes): {timeMinutes}
+                    Beat the Clock: {timeMinutes} minute{timeMinutes !== 1 ? 's' : ''}
                   </label>
-                  <input
-                    type="range"
-                    min="0"
-                    max="30"
-                    step="1"
-                    value={timeMinutes}
-                    onChange={(e) => setTimeMinutes(parseInt(e.target.value))}
-                    className="w-full h-2 bg-purple-950 rounded-lg cursor-pointer"
-                  />
-                  <div className="flex justify-between text-xs text-white/50 mt-1">
-                    <span>0</span>
-                    <span>10</span>
-                    <span>20</span>
-                    <span>30</span>
+                  <div className="grid grid-cols-3 gap-2">
+                    {TIMED_SPRINT_MINUTES.map((minutes) => (
+                      <button
+                        key={minutes}
+                        onClick={() => setTimeMinutes(minutes)}
+                        className={`p-3 rounded-lg border-2 transition-all ${
+                          timeMinutes === minutes
+                            ? 'bg-cyan-400 border-cyan-500 text-black'
+                            : 'bg-purple-950 border-cyan-400/30 text-white hover:border-cyan-400'
+                        }`}
+                      >
+                        <div className="font-black">{minutes} min</div>
+                        <div className="text-xs opacity-70">
+                          Best: {timedBests[String(minutes)] ?? '-'}
+                        </div>
+                      </button>
+                    ))}
                   </div>
+                  <p className="text-xs text-white/50 mt-2">
+                    Answer as many questions as you can before the clock runs out.
+                  </p>
                 </div>
               )}
             </div>
@@ -1,29 +1,76 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { getTeamLeaderboard } from '../services/firestore';
-import { LeaderboardEntry } from '../types/firebase';
-import { Trophy } from 'lucide-react';
+import { getTeamLeaderboard, getLeagueLeaderboard, getTeam, getGameSettings } from '../services/firestore';
+import { calculateLeaderboard } from '../services/functions';
+import { LeaderboardEntry, Team } from '../types/firebase';
+import { LeaderboardWindow, DEFAULT_MIN_LEADERBOARD_QUESTIONS } from '../util/leaderboardPeriods';
+import { compareAvgBuzzTime } from '../util/ranking';
+import { Trophy, RefreshCw } from 'lucide-react';
 
 interface LeaderboardProps {
   onBack: () => void;
 }
 
+type Level = 'EL' | 'MS' | 'HS';
+
+const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  all: 'All Time',
+  week: 'This Week',
+  month: 'This Month',
+  season: 'This Season',
+};
+
+const LEVEL_LABELS: Record<Level, string> = {
+  EL: 'Elementary',
+  MS: 'Middle',
+  HS: 'High',
+};
+
 export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
-  const { userData } = useAuth();
+  const { userData, isCoach } = useAuth();
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [sortBy, setSortBy] = useState<'accuracy' | 'buzzTime' | 'wins'>('accuracy');
+  const [rebuilding, setRebuilding] = useState(false);
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all');
+  const [scope, setScope] = useState<'team' | 'league'>('team');
+  const [team, setTeam] = useState<Team | null>(null);
+  const [level, setLevel] = useState<Level | null>(null);
+  const [minQuestions, setMinQuestions] = useState(DEFAULT_MIN_LEADERBOARD_QUESTIONS);
+
+  // Team levels decide which league boards are available; settings hold the ranking threshold
+  useEffect(() => {
+    if (!userData?.teamId) return;
+
+    const loadTeamInfo = async () => {
+      try {
+        const [teamData, settings] = await Promise.all([
+          getTeam(userData.teamId!),
+          getGameSettings(userData.teamId),
+        ]);
+        setTeam(teamData);
+        setLevel(teamData?.levels?.[0] || null);
+        setMinQuestions(settings?.minLeaderboardQuestions ?? DEFAULT_MIN_LEADERBOARD_QUESTIONS);
+      } catch (error) {
+        console.error('Error loading team info:', error);
+      }
+    };
+
+    loadTeamInfo();
+  }, [userData]);
 
   useEffect(() => {
     if (userData?.teamId) {
       loadLeaderboard();
     }
-  }, [userData]);
+  }, [userData, timeWindow, scope, level]);
 
   const loadLeaderboard = async () => {
     try {
       setLoading(true);
-      const entries = await getTeamLeaderboard(userData!.teamId!);
+      const entries = scope === 'league' && level
+        ? await getLeagueLeaderboard(level, timeWindow)
+        : await getTeamLeaderboard(userData!.teamId!, timeWindow);
       setLeaderboard(entries);
     } catch (error) {
       console.error('Error loading leaderboard:', error);
@@ -33,22 +80,49 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
     }
   };
 
-  const sortedLeaderboard = [...leaderboard].sort((a, b) => {
+  // Entries are kept current by a matchHistory trigger; a rebuild recomputes
+  // the whole team from scratch (e.g. for results recorded before the trigger existed)
+  const handleRebuild = async () => {
+    if (!userData?.teamId) return;
+    try {
+      setRebuilding(true);
+      await calculateLeaderboard({ teamId: userData.teamId });
+      await loadLeaderboard();
+    } catch (error) {
+      console.error('Error rebuilding leaderboard:', error);
+      alert('Failed to rebuild leaderboard');
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  // Accuracy and buzz time only rank players who have answered enough questions,
+  // so a 1/1 start doesn't top the board. Wins rank everyone.
+  const isQualified = (entry: LeaderboardEntry) =>
+    sortBy === 'wins' || (entry.totalQuestions ?? 0) >= minQuestions;
+
+  const sortedLeaderboard = leaderboard.filter(isQualified).sort((a, b) => {
     switch (sortBy) {
       case 'accuracy':
         return b.accuracy - a.accuracy;
       case 'buzzTime':
-        return a.avgBuzzTime - b.avgBuzzTime;
+        return compareAvgBuzzTime(a.avgBuzzTime, b.avgBuzzTime);
       case 'wins':
         return b.wins - a.wins;
       default:
         return 0;
     }
   });
+  const unrankedEntries = leaderboard
+    .filter((entry) => !isQualified(entry))
+    .sort((a, b) => (b.totalQuestions ?? 0) - (a.totalQuestions ?? 0));
+
+  const teamLevels = team?.levels || [];
+  const showTeamColumn = scope === 'league';
 
   if (loading) {
     return (
-      <div 
+      <div
         className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat flex items-center justify-center"
         style={{
           backgroundImage: 'url(/Environments/Stats2.png)',
@@ -62,7 +136,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
   }
 
   return (
-    <div 
+    <div
       className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
       style={{
         backgroundImage: 'url(/Environments/Stats2.png)',
@@ -75,9 +149,75 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
       <div className="bg-purple-900 border-4 border-yellow-500 rounded-3xl p-12 max-w-4xl w-full">
         <div className="flex items-center mb-8 border-b border-yellow-500/30 pb-6">
           <Trophy className="text-yellow-500 mr-4" size={48} />
-          <h1 className="text-5xl font-black text-white">TEAM LEADERBOARD</h1>
+          <h1 className="text-5xl font-black text-white">
+            {scope === 'league' && level ? `${LEVEL_LABELS[level].toUpperCase()} LEAGUE` : 'TEAM LEADERBOARD'}
+          </h1>
+          {isCoach && scope === 'team' && (
+            <button
+              onClick={handleRebuild}
+              disabled={rebuilding}
+              className="ml-auto bg-cyan-500 hover:bg-cyan-400 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 disabled:opacity-50"
+              title="Recalculate from all match history"
+            >
+              <RefreshCw className={`w-4 h-4 ${rebuilding ? 'animate-spin' : ''}`} />
+              {rebuilding ? 'Rebuilding...' : 'Rebuild'}
+            </button>
+          )}
         </div>
 
+        <div className="mb-4 flex flex-wrap gap-2">
+          {(Object.keys(WINDOW_LABELS) as LeaderboardWindow[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setTimeWindow(option)}
+              className={`px-4 py-2 rounded-xl font-bold text-sm ${
+                timeWindow === option
+                  ? 'bg-cyan-500 text-white'
+                  : 'bg-purple-950 text-white border-2 border-white/20'
+              }`}
+            >
+              {WINDOW_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {teamLevels.length > 0 && (
+          <div className="mb-4 flex flex-wrap gap-2">
+            <button
+              onClick={() => setScope('team')}
+              className={`px-4 py-2 rounded-xl font-bold text-sm ${
+                scope === 'team'
+                  ? 'bg-cyan-500 text-white'
+                  : 'bg-purple-950 text-white border-2 border-white/20'
+              }`}
+            >
+              My Team
+            </button>
+            {teamLevels.map((teamLevel) => (
+              <button
+                key={teamLevel}
+                onClick={() => {
+                  setScope('league');
+                  setLevel(teamLevel);
+                }}
+                className={`px-4 py-2 rounded-xl font-bold text-sm ${
+                  scope === 'league' && level === teamLevel
+                    ? 'bg-cyan-500 text-white'
+                    : 'bg-purple-950 text-white border-2 border-white/20'
+                }`}
+              >
+                {LEVEL_LABELS[teamLevel]} League
+              </button>
+            ))}
+          </div>
+        )}
+
+        {scope === 'league' && !team?.leagueOptIn && (
+          <div className="mb-4 text-sm text-yellow-400">
+            Your team isn't on the league board yet. {isCoach ? 'Opt in from Team Management.' : 'Ask your coach to opt in.'}
+          </div>
+        )}
+
         <div className="mb-6 flex gap-4">
           <button
             onClick={() => setSortBy('accuracy')}
@@ -112,22 +252,34 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
         </div>
 
         <div className="bg-purple-950 rounded-xl p-6">
-          <div className="grid grid-cols-6 gap-4 pb-3 border-b border-white/20 font-bold text-cyan-400 uppercase text-sm">
+          <div className="grid grid-cols-7 gap-4 pb-3 border-b border-white/20 font-bold text-cyan-400 uppercase text-sm">
             <div>Rank</div>
             <div>Player</div>
             <div>Accuracy</div>
             <div>Avg Buzz</div>
             <div>Wins</div>
+            <div>High Score</div>
             <div>Games</div>
           </div>
           <div className="divide-y divide-white/10">
             {sortedLeaderboard.map((entry, idx) => (
-              <div key={entry.id} className="grid grid-cols-6 gap-4 py-4 items-center">
+              <div
+                key={entry.id}
+                className={`grid grid-cols-7 gap-4 py-4 items-center ${
+                  entry.playerId === userData?.uid ? 'bg-yellow-500/10' : ''
+                }`}
+              >
                 <div className="text-yellow-500 font-black text-2xl">#{idx + 1}</div>
-                <div className="text-white font-bold">{entry.displayName}</div>
+                <div className="text-white font-bold">
+                  {entry.displayName}
+                  {showTeamColumn && entry.teamName && (
+                    <div className="text-white/50 text-xs font-normal">{entry.teamName}</div>
+                  )}
+                </div>
                 <div className="text-green-400 font-bold">{entry.accuracy.toFixed(1)}%</div>
                 <div className="text-cyan-400 font-bold">{entry.avgBuzzTime.toFixed(2)}s</div>
                 <div className="text-yellow-400 font-bold">{entry.wins}</div>
+                <div className="text-white font-bold">{entry.highScore}</div>
                 <div className="text-white/70">{entry.totalGames}</div>
               </div>
             ))}
@@ -135,6 +287,23 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
           {sortedLeaderboard.length === 0 && (
             <div className="text-center text-white/50 py-8">No leaderboard entries yet</div>
           )}
+
+          {unrankedEntries.length > 0 && (
+            <div className="mt-6 pt-4 border-t border-white/20">
+              <div className="text-white/50 text-sm font-bold uppercase mb-2">
+                Not yet ranked (needs {minQuestions} questions)
+              </div>
+              {unrankedEntries.map((entry) => (
+                <div key={entry.id} className="flex justify-between py-1 text-white/50">
+                  <span>
+                    {entry.displayName}
+                    {showTeamColumn && entry.teamName && ` (${entry.teamName})`}
+                  </span>
+                  <span>{entry.totalQuestions ?? 0}/{minQuestions}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         <button onClick={onBack} className="w-full mt-6 bg-yellow-500 hover:bg-orange-500 text-black font-black text-2xl py-4 rounded-xl">
@@ -145,8 +314,3 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
     </div>
   );
 };
-
-
-
-
-
@@ -0,0 +1,504 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useMatchState, useRevealedQuestionText, getRevealedWords, getQuestionDeadline } from '../hooks/useMatchState';
+import { usePresenceHeartbeat, useMatchPresence, isPresenceOnline } from '../hooks/usePresence';
+import { getPlayer } from '../services/firestore';
+import { arbitrateBuzzer, submitMatchAnswer, advanceMatch } from '../services/functions';
+import { getResultPoints } from '../util/scoring';
+import { Bolt, ArrowLeft, WifiOff } from 'lucide-react';
+
+const COLOR_THEME = {
+  A_RED: '#FF416C',
+  B_BLUE: '#4F5CF7',
+  C_GREEN: '#32FFB8',
+  D_YELLOW: '#FFC838',
+};
+
+// How often the local reveal/timers are recomputed from the shared state
+const TICK_MS = 100;
+// How long players see that the coach threw out the previous question
+const SKIPPED_NOTICE_MS = 4000;
+
+interface LiveMatchProps {
+  gameId: string;
+  teamNames?: Record<string, string>; // Team-vs-team matches only
+  clockOffsetMs?: number; // From the lobby clock sync; moves this device's clock onto server time
+  onBack: () => void;
+}
+
+interface PlayerInfo {
+  displayName: string;
+  avatar?: string;
+}
+
+/**
+ * Head-to-head match screen. Every player renders the same word-by-word
+ * reveal from matchStates/{gameId}; buzzes and answers go through the live
+ * match Cloud Functions, which decide who holds the buzzer and move the match
+ * along. The question text arrives word by word as it is revealed and the
+ * answer choices once someone buzzes, so the client never holds a word early
+ * or the right answer before the question closes.
+ */
+export const LiveMatch: React.FC<LiveMatchProps> = ({ gameId, teamNames, clockOffsetMs = 0, onBack }) => {
+  const navigate = useNavigate();
+  const { userData } = useAuth();
+  const { matchState, loading, error } = useMatchState(gameId);
+  const [now, setNow] = useState(() => Date.now() + clockOffsetMs);
+  const [players, setPlayers] = useState<Record<string, PlayerInfo>>({});
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [answerError, setAnswerError] = useState<string | null>(null);
+  const [buzzPending, setBuzzPending] = useState(false);
+  const [connected, setConnected] = useState(navigator.onLine);
+  const advanceRequestedRef = useRef<string | null>(null);
+
+  const playerId = userData?.uid;
+
+  // Keep this player's presence alive for the coach and the other players; a
+  // player who refreshes or reconnects picks up the current question from
+  // the shared state, with their score intact
+  const inMatch = !!playerId && !!matchState && matchState.status !== 'finished'
+    && !matchState.kickedPlayerIds?.includes(playerId);
+  usePresenceHeartbeat(gameId, playerId, inMatch);
+  const { presence, now: presenceNow } = useMatchPresence(gameId);
+  const revealedText = useRevealedQuestionText(gameId, matchState, now, true);
+
+  // Show when this device drops off the network; Firestore catches up on its own once it's back
+  useEffect(() => {
+    const handleOnline = () => setConnected(true);
+    const handleOffline = () => setConnected(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Tick the local clock, on server time, so the reveal and timers update smoothly
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now() + clockOffsetMs), TICK_MS);
+    return () => clearInterval(interval);
+  }, [clockOffsetMs]);
+
+  // Load display names and avatars for everyone in the match
+  const playerIdsKey = matchState ? Object.keys(matchState.players).sort().join(',') : '';
+  useEffect(() => {
+    if (!playerIdsKey) return;
+
+    const loadPlayers = async () => {
+      const entries = await Promise.all(
+        playerIdsKey.split(',').map(async (id) => {
+          try {
+            const player = await getPlayer(id);
+            return [id, { displayName: player?.displayName || '', avatar: player?.avatar }] as const;
+          } catch (err) {
+            console.warn(`Error loading player ${id}:`, err);
+            return [id, { displayName: '' }] as const;
+          }
+        })
+      );
+      setPlayers(Object.fromEntries(entries));
+    };
+
+    loadPlayers();
+  }, [playerIdsKey]);
+
+  // Navigate to results once the server has finished the match
+  useEffect(() => {
+    if (matchState?.status === 'finished') {
+      const timeoutId = setTimeout(() => navigate(`/match-results?gameId=${gameId}`), 2000);
+      return () => clearTimeout(timeoutId);
+    }
+  }, [matchState?.status, gameId, navigate]);
+
+  const questionIndex = matchState?.currentQuestionIndex ?? 0;
+
+  // Clear this player's answer selection whenever a new question opens
+  useEffect(() => {
+    setSelectedAnswer(null);
+    setAnswerError(null);
+  }, [questionIndex]);
+
+  // The next deadline at which the server should move the match along
+  const deadline = useMemo(() => {
+    if (!matchState) return null;
+    if (matchState.status === 'reviewing') return matchState.reviewUntil;
+    if (matchState.status !== 'playing') return null;
+    if (matchState.buzzerState === 'buzzed' && matchState.buzzedAt) {
+      return matchState.buzzedAt + matchState.settings.hesitationTime * 1000;
+    }
+    return getQuestionDeadline(matchState);
+  }, [matchState]);
+
+  // Ask the server to advance once the deadline passes. Every client does
+  // this; the server only acts on the first call for each state. Nothing
+  // expires while the coach has the match paused.
+  useEffect(() => {
+    if (!matchState || matchState.pausedAt || deadline === null || now < deadline) return;
+
+    const requestKey = `${matchState.currentQuestionIndex}:${matchState.status}:${matchState.buzzedAt ?? ''}:${deadline}`;
+    if (advanceRequestedRef.current === requestKey) return;
+    advanceRequestedRef.current = requestKey;
+
+    advanceMatch({ gameId, questionIndex: matchState.currentQuestionIndex }).catch((err) => {
+      console.error('Error advancing match:', err);
+      // Allow another attempt on the next tick
+      advanceRequestedRef.current = null;
+    });
+  }, [now, deadline, matchState, gameId]);
+
+  const handleBuzz = async () => {
+    if (!matchState || buzzPending) return;
+    // Taken before the request goes out, so the server can make up for network delay
+    const clientBuzzAt = Date.now();
+    try {
+      setBuzzPending(true);
+      // A rejected buzz shows up through the match state as someone else's buzz
+      await arbitrateBuzzer({ gameId, questionIndex: matchState.currentQuestionIndex, clientBuzzAt });
+    } catch (err) {
+      console.error('Error buzzing in:', err);
+    } finally {
+      setBuzzPending(false);
+    }
+  };
+
+  const handleAnswer = async (answer: string) => {
+    if (!matchState || selectedAnswer) return;
+    setSelectedAnswer(answer);
+    setAnswerError(null);
+    try {
+      await submitMatchAnswer({ gameId, questionIndex: matchState.currentQuestionIndex, answer });
+    } catch (err) {
+      console.error('Error submitting answer:', err);
+      // Let the player answer again while they still hold the buzzer
+      setSelectedAnswer(null);
+      setAnswerError(err instanceof Error ? err.message : 'Your answer did not go through.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div
+        className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat flex items-center justify-center"
+        style={{
+          backgroundImage: 'url(/Environments/Olympus%20Arena.png)',
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      >
+        <div className="text-white text-2xl drop-shadow-lg">Connecting to match...</div>
+      </div>
+    );
+  }
+
+  if (error || !matchState) {
+    return (
+      <div
+        className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+        style={{
+          backgroundImage: 'url(/Environments/Olympus Arena.png)',
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      >
+        <div className="absolute inset-0 flex flex-col items-center justify-center px-4">
+          <div className="bg-purple-900 border-4 border-red-500 rounded-3xl p-12 max-w-md w-full text-center">
+            <h2 className="text-3xl font-black text-white mb-4">Match Unavailable</h2>
+            <p className="text-white/70 mb-6">{error || 'The match has not started yet.'}</p>
+            <button
+              onClick={onBack}
+              className="w-full bg-yellow-500 hover:bg-orange-500 text-black font-black text-xl py-4 rounded-xl"
+            >
+              GO BACK
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { settings, lastResult } = matchState;
+  // The match clock stands still while the coach has it paused
+  const paused = !!matchState.pausedAt;
+  const clockNow = matchState.pausedAt || now;
+
+  if (playerId && matchState.kickedPlayerIds?.includes(playerId)) {
+    return (
+      <div
+        className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+        style={{
+          backgroundImage: 'url(/Environments/Olympus Arena.png)',
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      >
+        <div className="absolute inset-0 flex flex-col items-center justify-center px-4">
+          <div className="bg-purple-900 border-4 border-red-500 rounded-3xl p-12 max-w-md w-full text-center">
+            <h2 className="text-3xl font-black text-white mb-4">Removed From Match</h2>
+            <p className="text-white/70 mb-6">Your coach has removed you from this match.</p>
+            <button
+              onClick={onBack}
+              className="w-full bg-yellow-500 hover:bg-orange-500 text-black font-black text-xl py-4 rounded-xl"
+            >
+              GO BACK
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isPlaying = matchState.status === 'playing';
+  const isReviewing = matchState.status === 'reviewing';
+  const iHoldBuzzer = isPlaying && matchState.buzzerState === 'buzzed' && matchState.buzzedBy === playerId;
+  const someoneElseBuzzed = isPlaying && matchState.buzzerState === 'buzzed' && matchState.buzzedBy !== playerId;
+  const lockedOut = !!playerId && matchState.lockedOutPlayerIds.includes(playerId);
+  const countingDown = isPlaying && matchState.revealStartedAt !== null && clockNow < matchState.revealStartedAt;
+  const canBuzz = isPlaying && !paused && matchState.buzzerState === 'idle' && !lockedOut && !countingDown && !buzzPending;
+  // The previous question was thrown out by the coach just before this one opened
+  const justSkipped = isPlaying && !!matchState.skippedQuestionIndexes?.includes(questionIndex - 1)
+    && clockNow - matchState.questionStartTime < SKIPPED_NOTICE_MS;
+
+  const revealedWordsCount = isReviewing ? matchState.questionWordCount : getRevealedWords(matchState, clockNow);
+  const fullyRevealed = revealedWordsCount >= matchState.questionWordCount;
+
+  // Circle timer: hesitation countdown while someone holds the buzzer,
+  // otherwise the question timer once the question is fully revealed
+  const hesitationLeft = matchState.buzzerState === 'buzzed' && matchState.buzzedAt
+    ? Math.max(0, Math.ceil((matchState.buzzedAt + settings.hesitationTime * 1000 - clockNow) / 1000))
+    : null;
+  const questionDeadline = getQuestionDeadline(matchState);
+  const questionLeft = fullyRevealed && questionDeadline !== null
+    ? Math.max(0, Math.ceil((questionDeadline - clockNow) / 1000))
+    : settings.questionTime;
+  const timerValue = hesitationLeft !== null ? hesitationLeft : questionLeft;
+  const timerMax = hesitationLeft !== null ? settings.hesitationTime : settings.questionTime;
+
+  // Opposing teams' player profiles aren't readable, so fall back to the name in the match state
+  const nameOf = (id?: string | null) =>
+    id ? players[id]?.displayName || matchState.players[id]?.displayName || 'Player' : '';
+  const teamScoreboard = matchState.teamScores
+    ? Object.entries(matchState.teamScores)
+        .map(([teamId, score]) => ({ teamId, name: teamNames?.[teamId] || 'Team', score }))
+        .sort((a, b) => b.score - a.score)
+    : [];
+  const myTeamId = playerId ? matchState.players[playerId]?.teamId : undefined;
+  const scoreboard = Object.entries(matchState.players)
+    .map(([id, state]) => ({ id, score: getResultPoints(state) }))
+    .sort((a, b) => b.score - a.score);
+
+  const showCorrect = isReviewing && lastResult?.outcome === 'correct' && lastResult.playerId === playerId;
+  const showIncorrect = !!lastResult && lastResult.outcome === 'incorrect' && lastResult.playerId === playerId
+    && lastResult.questionIndex === questionIndex && selectedAnswer !== null && !iHoldBuzzer;
+
+  return (
+    <div
+      className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+      style={{
+        backgroundImage: 'url(/Environments/Olympus Arena.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      {/* Overlay interactive elements on top of background */}
+      <div className="absolute inset-0 flex flex-col items-center justify-center px-4 overflow-auto">
+        {/* Back button */}
+        <button
+          onClick={onBack}
+          className="absolute top-4 left-4 p-2 bg-yellow-500 hover:bg-orange-500 rounded-full transition-colors z-20 shadow-lg"
+        >
+          <ArrowLeft className="w-6 h-6 text-black" />
+        </button>
+
+        {!connected && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-600 text-white font-bold px-4 py-2 rounded-xl flex items-center gap-2 z-20 shadow-lg">
+            <WifiOff className="w-5 h-5" />
+            Connection lost. Reconnecting...
+          </div>
+        )}
+
+        {showCorrect && (
+          <div className="fixed inset-0 z-50 pointer-events-none flex items-center justify-center">
+            <div className="relative transform border-8 border-green-500 rounded-xl p-4 bg-green-900/90 shadow-2xl animate-pulse">
+              <h1 className="text-6xl md:text-9xl font-black text-green-400 uppercase" style={{ WebkitTextStroke: '2px black' }}>
+                CORRECT
+              </h1>
+            </div>
+          </div>
+        )}
+        {showIncorrect && (
+          <div className="fixed inset-0 z-50 pointer-events-none flex items-center justify-center">
+            <div className="border-8 border-red-600 rounded-xl p-4 bg-red-900/90 rotate-[-15deg]">
+              <h1 className="text-6xl md:text-9xl font-black text-red-500 uppercase" style={{ WebkitTextStroke: '2px black' }}>
+                INCORRECT
+              </h1>
+            </div>
+          </div>
+        )}
+
+        {paused && (
+          <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center pointer-events-none">
+            <div className="bg-purple-900 border-4 border-yellow-500 rounded-3xl px-12 py-8 text-center">
+              <h1 className="text-5xl md:text-7xl font-black text-yellow-400 uppercase">Paused</h1>
+              <p className="text-white/70 mt-2">Your coach has paused the match.</p>
+            </div>
+          </div>
+        )}
+
+        {justSkipped && (
+          <div className="mb-4 bg-purple-950/90 border-2 border-yellow-500 rounded-xl px-6 py-3">
+            <span className="text-xl font-bold text-yellow-400">
+              Your coach threw out question {questionIndex} - it won't count for anyone.
+            </span>
+          </div>
+        )}
+
+        {/* Live scoreboard */}
+        <div className="absolute top-8 right-8 bg-purple-950/80 border-2 border-cyan-400 rounded-2xl p-4 min-w-[200px]">
+          <div className="text-cyan-400 font-black text-sm uppercase mb-2">
+            Question {questionIndex + 1}/{matchState.questionCount}
+          </div>
+          {teamScoreboard.length > 0 && (
+            <div className="mb-3 pb-2 border-b border-cyan-400/30">
+              {teamScoreboard.map((team) => (
+                <div
+                  key={team.teamId}
+                  className={`flex justify-between gap-4 font-black text-lg ${team.teamId === myTeamId ? 'text-yellow-400' : 'text-white'}`}
+                >
+                  <span className="truncate">{team.name}</span>
+                  <span>{team.score}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {scoreboard.map((entry) => (
+            <div
+              key={entry.id}
+              className={`flex justify-between gap-4 font-bold ${entry.id === playerId ? 'text-yellow-400' : 'text-white'} ${
+                matchState.lockedOutPlayerIds.includes(entry.id) ? 'opacity-50' : ''
+              }`}
+            >
+              <span className="truncate">
+                {nameOf(entry.id)}{entry.id === playerId && ' (You)'}
+                {entry.id !== playerId && !isPresenceOnline(presence[entry.id], presenceNow) && (
+                  <span className="text-white/50 text-xs font-normal"> offline</span>
+                )}
+              </span>
+              <span>{entry.score}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="relative w-40 h-40 flex items-center justify-center mb-6">
+          <svg className="w-full h-full transform -rotate-90">
+            <circle cx="80" cy="80" r={60} stroke="#1A0D3E" strokeWidth="12" fill="none" />
+            <circle
+              cx="80"
+              cy="80"
+              r={60}
+              stroke={timerValue <= 3 ? '#ef4444' : '#00B8FF'}
+              strokeWidth="12"
+              fill="none"
+              strokeDasharray={2 * Math.PI * 60}
+              strokeDashoffset={2 * Math.PI * 60 * (1 - timerValue / timerMax)}
+              strokeLinecap="round"
+              className="transition-all duration-1000"
+            />
+          </svg>
+          <div className="absolute flex flex-col items-center">
+            <span className={`text-6xl font-black ${timerValue <= 3 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+              {countingDown ? Math.ceil(((matchState.revealStartedAt || 0) - clockNow) / 1000) : timerValue}
+            </span>
+          </div>
+        </div>
+
+        {/* Question reveal - shared by every player */}
+        {!iHoldBuzzer && (
+          <div className="relative w-full max-w-4xl mx-auto mb-8">
+            <div className="bg-purple-950/90 border-2 border-cyan-400 rounded-xl p-8 text-center min-h-[160px] flex items-center justify-center">
+              <h2 className="text-3xl md:text-5xl font-black text-white">
+                {countingDown ? 'Get ready...' : revealedText}
+                {!fullyRevealed && !countingDown && <span className="animate-pulse text-cyan-400">|</span>}
+              </h2>
+            </div>
+          </div>
+        )}
+
+        {someoneElseBuzzed && (
+          <div className="mb-6 bg-orange-500/90 border-4 border-yellow-400 rounded-xl px-8 py-4">
+            <span className="text-3xl font-black text-white uppercase">{nameOf(matchState.buzzedBy)} buzzed in!</span>
+          </div>
+        )}
+
+        {isPlaying && lastResult && lastResult.questionIndex === questionIndex && matchState.buzzerState === 'idle' && (
+          <div className="mb-4 text-xl font-bold text-red-300">
+            {nameOf(lastResult.playerId)} {lastResult.outcome === 'hesitation' ? 'hesitated' : 'missed'} - the question is open again!
+          </div>
+        )}
+
+        {iHoldBuzzer ? (
+          /* Show answer choices ONLY to the player holding the buzzer */
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full max-w-4xl">
+            {(matchState.answerChoices ?? []).map((answer, idx) => {
+              const labels = ['A', 'B', 'C', 'D'];
+              const colors = [COLOR_THEME.A_RED, COLOR_THEME.B_BLUE, COLOR_THEME.C_GREEN, COLOR_THEME.D_YELLOW];
+              return (
+                <button
+                  key={`${questionIndex}-${idx}-${answer}`}
+                  onClick={() => handleAnswer(answer)}
+                  disabled={selectedAnswer !== null || paused}
+                  className={`relative p-1 rounded-xl hover:scale-[1.02] ${selectedAnswer !== null || paused ? 'opacity-50' : ''}`}
+                >
+                  <div className="bg-purple-950 border-2 border-white/20 rounded-xl flex items-center p-4">
+                    <div
+                      className="absolute left-0 top-0 bottom-0 w-16 flex items-center justify-center font-black text-2xl text-black rounded-l-xl flex-shrink-0"
+                      style={{ backgroundColor: colors[idx] }}
+                    >
+                      {labels[idx]}
+                    </div>
+                    <span className="ml-20 text-xl font-bold text-white flex-1 text-left">{answer}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        ) : isPlaying ? (
+          <button
+            onClick={handleBuzz}
+            disabled={!canBuzz}
+            className={`w-48 h-48 rounded-full bg-gradient-to-br from-yellow-400 to-yellow-600 border-8 border-orange-500 flex items-center justify-center transform hover:scale-110 active:scale-95 ${
+              !canBuzz ? 'opacity-50' : ''
+            }`}
+          >
+            <Bolt size={80} className="text-yellow-900" fill="currentColor" />
+          </button>
+        ) : null}
+
+        {iHoldBuzzer && answerError && (
+          <div className="mt-4 text-lg font-bold text-red-300">{answerError} Try again.</div>
+        )}
+
+        {isPlaying && lockedOut && (
+          <div className="mt-4 text-lg font-bold text-white/70">You're locked out until the next question.</div>
+        )}
+
+        {isReviewing && lastResult && (
+          <div className="mt-4 text-center">
+            <div className="text-2xl font-black text-white mb-2">
+              {lastResult.outcome === 'correct' && `${nameOf(lastResult.playerId)} got it!`}
+              {lastResult.outcome === 'timeout' && "Time's up!"}
+              {lastResult.outcome === 'hesitation' && `${nameOf(lastResult.playerId)} hesitated!`}
+              {lastResult.outcome === 'incorrect' && 'Nobody got it!'}
+            </div>
+            <div className="text-2xl font-black text-green-400">Correct: {lastResult.correctAnswer}</div>
+          </div>
+        )}
+
+        {matchState.status === 'finished' && (
+          <div className="mt-4 text-3xl font-black text-yellow-400">MATCH COMPLETE!</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,336 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { useMatchState, useRevealedQuestionText, getRevealedWords, getQuestionDeadline } from '../hooks/useMatchState';
+import { getGame } from '../services/firestore';
+import { getSpectatorView, GetSpectatorViewResponse } from '../services/functions';
+import { MatchState } from '../types/firebase';
+import { getResultPoints } from '../util/scoring';
+import { Bolt, Trophy } from 'lucide-react';
+
+// How often the local reveal/timers are recomputed from the shared state
+const TICK_MS = 100;
+// Spectators can't listen to the match state, so they poll the server for it
+const SPECTATOR_POLL_MS = 1000;
+
+// Podium blocks in display order: second, first, third
+const PODIUM = [
+  { place: 2, height: 'h-40', color: 'bg-gray-300/30 border-gray-300' },
+  { place: 1, height: 'h-56', color: 'bg-yellow-500/30 border-yellow-500' },
+  { place: 3, height: 'h-28', color: 'bg-amber-600/30 border-amber-600' },
+];
+
+interface MatchDisplayProps {
+  gameId: string;
+  token: string | null; // Spectator token; without one the viewer must be the match coach
+}
+
+type DisplayGame = GetSpectatorViewResponse['game'];
+
+const Avatar: React.FC<{ avatar?: string; name: string; size: string }> = ({ avatar, name, size }) =>
+  avatar ? (
+    <img src={`/Avatars/AVATAR- Transparent/${avatar}.png`} alt={name} className={`${size} rounded-full`} />
+  ) : (
+    <div className={`${size} bg-purple-800 rounded-full flex items-center justify-center`}>
+      <span className="text-2xl font-black text-white">{name.charAt(0).toUpperCase()}</span>
+    </div>
+  );
+
+/**
+ * Read-only big-screen view of a live match for a classroom projector: the
+ * question reveal, who buzzed, a live scoreboard and the final podium. The
+ * coach sees it signed in through the shared match state; anyone else needs
+ * a spectator token and gets the same state from the server. The correct
+ * answer only appears once the question has closed.
+ */
+export const MatchDisplay: React.FC<MatchDisplayProps> = ({ gameId, token }) => {
+  const { userData, loading: authLoading } = useAuth();
+  const coachView = !token;
+  const live = useMatchState(coachView && userData ? gameId : null);
+  const [spectatorState, setSpectatorState] = useState<MatchState | null>(null);
+  const [game, setGame] = useState<DisplayGame | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const matchState = coachView ? live.matchState : spectatorState;
+  const finished = matchState?.status === 'finished';
+  // Spectators get the revealed text with each poll; the coach fetches new words as they are due
+  const revealedText = useRevealedQuestionText(gameId, matchState, now, coachView && !!userData);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Coach view: the game document is readable directly. Reloaded when the
+  // match finishes to pick up whether it was ended early.
+  useEffect(() => {
+    if (!coachView || authLoading) return;
+    if (!userData) {
+      setError('Sign in as the match coach, or open this display with a spectator link.');
+      return;
+    }
+
+    const loadGame = async () => {
+      try {
+        const gameData = await getGame(gameId);
+        if (!gameData || gameData.coachId !== userData.uid) {
+          setError('Only the match coach can open this display without a spectator link.');
+          return;
+        }
+        setGame({
+          status: gameData.status,
+          matchIdCode: gameData.matchIdCode ?? null,
+          teamNames: gameData.teamNames ?? null,
+          endedEarly: gameData.endedEarly ?? false,
+        });
+      } catch (err) {
+        console.error('Error loading match for display:', err);
+        setError('Failed to load the match.');
+      }
+    };
+
+    loadGame();
+  }, [coachView, authLoading, userData, gameId, finished]);
+
+  // Spectator view: poll until the match is over
+  useEffect(() => {
+    if (coachView || !token) return;
+
+    let stopped = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const poll = async () => {
+      try {
+        const { data } = await getSpectatorView({ gameId, token });
+        if (stopped) return;
+        setGame(data.game);
+        setSpectatorState(data.matchState);
+        setError(null);
+        if (data.game.status === 'completed' && data.matchState?.status === 'finished') return;
+      } catch (err) {
+        console.error('Error loading spectator view:', err);
+        if (stopped) return;
+        setError(err instanceof Error ? err.message : 'Failed to load the match.');
+      }
+      timeoutId = setTimeout(poll, SPECTATOR_POLL_MS);
+    };
+
+    poll();
+    return () => {
+      stopped = true;
+      clearTimeout(timeoutId);
+    };
+  }, [coachView, gameId, token]);
+
+  const shell = (content: React.ReactNode) => (
+    <div
+      className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+      style={{
+        backgroundImage: 'url(/Environments/Olympus Arena.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <div className="absolute inset-0 flex flex-col items-center justify-center px-8 py-8 overflow-hidden">{content}</div>
+    </div>
+  );
+
+  const displayError = error || (coachView ? live.error : null);
+  if (displayError) {
+    return shell(
+      <div className="bg-purple-900 border-4 border-red-500 rounded-3xl p-12 max-w-xl w-full text-center">
+        <h2 className="text-4xl font-black text-white mb-4">Display Unavailable</h2>
+        <p className="text-white/70 text-xl">{displayError}</p>
+      </div>
+    );
+  }
+
+  const code = game?.matchIdCode || gameId.substring(0, 6).toUpperCase();
+
+  if (!game || !matchState) {
+    return shell(
+      <div className="text-center">
+        <h1 className="text-5xl font-black text-white drop-shadow-lg mb-6">
+          {game?.status === 'waiting' ? 'Waiting for the match to begin...' : 'Connecting to match...'}
+        </h1>
+        {game && (
+          <div className="bg-purple-950/90 border-4 border-cyan-400 rounded-2xl px-12 py-6 inline-block">
+            <p className="text-cyan-400 text-xl font-bold uppercase mb-2">Match ID Code</p>
+            <p className="font-mono font-black text-7xl text-yellow-400 tracking-widest">{code}</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const nameOf = (id?: string | null) => (id ? matchState.players[id]?.displayName || 'Player' : '');
+  const standings = Object.entries(matchState.players)
+    .map(([id, state]) => ({ id, name: nameOf(id), avatar: state.avatar, score: getResultPoints(state) }))
+    .sort((a, b) => b.score - a.score);
+  const teamStandings = matchState.teamScores
+    ? Object.entries(matchState.teamScores)
+        .map(([teamId, score]) => ({ teamId, name: game.teamNames?.[teamId] || 'Team', score }))
+        .sort((a, b) => b.score - a.score)
+    : [];
+
+  if (finished) {
+    return shell(
+      <div className="w-full max-w-5xl text-center">
+        <h1 className="text-6xl font-black text-yellow-400 drop-shadow-lg mb-2 uppercase">Final Results</h1>
+        {game.endedEarly && <p className="text-white/80 text-xl mb-4">Ended early by the coach</p>}
+        {teamStandings.length > 0 && (
+          <div className="flex justify-center gap-8 mb-8">
+            {teamStandings.map((team, index) => (
+              <div
+                key={team.teamId}
+                className={`px-8 py-4 rounded-2xl border-4 ${index === 0 ? 'bg-yellow-500/30 border-yellow-500' : 'bg-purple-950/90 border-cyan-400/50'}`}
+              >
+                <div className="text-2xl font-black text-white">{team.name}</div>
+                <div className="text-5xl font-black text-yellow-400">{team.score}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-end justify-center gap-6 mb-8">
+          {PODIUM.map(({ place, height, color }) => {
+            const entry = standings[place - 1];
+            if (!entry) return <div key={place} className="w-56" />;
+            return (
+              <div key={place} className="w-56 flex flex-col items-center">
+                <Avatar avatar={entry.avatar} name={entry.name} size="w-24 h-24" />
+                <div className="text-2xl font-black text-white mt-2 truncate max-w-full">{entry.name}</div>
+                <div className="text-3xl font-black text-yellow-400 mb-2">{entry.score}</div>
+                <div className={`w-full ${height} ${color} border-4 rounded-t-2xl flex items-start justify-center pt-4`}>
+                  {place === 1 ? (
+                    <Trophy className="w-16 h-16 text-yellow-400" />
+                  ) : (
+                    <span className="text-5xl font-black text-white">{place}</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {standings.length > PODIUM.length && (
+          <div className="flex flex-wrap justify-center gap-4">
+            {standings.slice(PODIUM.length).map((entry, index) => (
+              <div key={entry.id} className="bg-purple-950/90 border-2 border-cyan-400/30 rounded-xl px-6 py-3 text-xl font-bold text-white">
+                #{index + PODIUM.length + 1} {entry.name} - {entry.score}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // The match clock stands still while the coach has it paused
+  const clockNow = matchState.pausedAt || now;
+  const isPlaying = matchState.status === 'playing';
+  const isReviewing = matchState.status === 'reviewing';
+  const countingDown = isPlaying && matchState.revealStartedAt !== null && clockNow < matchState.revealStartedAt;
+  const revealedWordsCount = isReviewing ? matchState.questionWordCount : getRevealedWords(matchState, clockNow);
+  const fullyRevealed = revealedWordsCount >= matchState.questionWordCount;
+  const buzzedBy = isPlaying && matchState.buzzerState === 'buzzed' ? matchState.buzzedBy : null;
+  const { lastResult, settings } = matchState;
+  // Belt and braces: never show an answer while the question is still open
+  const correctAnswer = isReviewing ? lastResult?.correctAnswer : undefined;
+
+  const hesitationLeft = buzzedBy && matchState.buzzedAt
+    ? Math.max(0, Math.ceil((matchState.buzzedAt + settings.hesitationTime * 1000 - clockNow) / 1000))
+    : null;
+  const questionDeadline = getQuestionDeadline(matchState);
+  const questionLeft = fullyRevealed && questionDeadline !== null
+    ? Math.max(0, Math.ceil((questionDeadline - clockNow) / 1000))
+    : null;
+  const timerValue = countingDown
+    ? Math.ceil(((matchState.revealStartedAt || 0) - clockNow) / 1000)
+    : hesitationLeft ?? questionLeft;
+
+  return shell(
+    <>
+      {matchState.pausedAt && (
+        <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center">
+          <h1 className="text-9xl font-black text-yellow-400 uppercase drop-shadow-lg">Paused</h1>
+        </div>
+      )}
+
+      <div className="w-full h-full flex gap-8">
+        <div className="flex-1 flex flex-col justify-center">
+          <div className="flex items-center justify-between mb-6">
+            <span className="bg-purple-950/90 border-2 border-cyan-400 rounded-full px-6 py-2 text-2xl font-black text-cyan-400">
+              QUESTION {matchState.currentQuestionIndex + 1}/{matchState.questionCount}
+            </span>
+            <span className="bg-purple-950/90 border-2 border-cyan-400 rounded-full px-6 py-2 text-2xl font-black text-white">
+              MATCH <span className="font-mono text-yellow-400">{code}</span>
+            </span>
+            {timerValue !== null && (
+              <span className={`text-7xl font-black drop-shadow-lg ${timerValue <= 3 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+                {timerValue}
+              </span>
+            )}
+          </div>
+
+          <div className="bg-purple-950/90 border-4 border-cyan-400 rounded-2xl p-12 min-h-[320px] flex items-center justify-center text-center">
+            <h2 className="text-5xl md:text-6xl font-black text-white leading-tight">
+              {countingDown ? 'Get ready...' : revealedText}
+              {!fullyRevealed && !countingDown && !buzzedBy && <span className="animate-pulse text-cyan-400">|</span>}
+            </h2>
+          </div>
+
+          <div className="h-32 mt-6 flex items-center justify-center">
+            {buzzedBy && (
+              <div className="bg-orange-500/90 border-4 border-yellow-400 rounded-2xl px-12 py-6 flex items-center gap-6">
+                <Bolt size={64} className="text-yellow-200" fill="currentColor" />
+                <Avatar avatar={matchState.players[buzzedBy]?.avatar} name={nameOf(buzzedBy)} size="w-20 h-20" />
+                <span className="text-5xl font-black text-white uppercase">{nameOf(buzzedBy)} buzzed in!</span>
+              </div>
+            )}
+            {isReviewing && lastResult && (
+              <div className="text-center">
+                <div className="text-4xl font-black text-white mb-2 drop-shadow-lg">
+                  {lastResult.outcome === 'correct' && `${nameOf(lastResult.playerId)} got it!`}
+                  {lastResult.outcome === 'timeout' && "Time's up!"}
+                  {lastResult.outcome === 'hesitation' && `${nameOf(lastResult.playerId)} hesitated!`}
+                  {lastResult.outcome === 'incorrect' && 'Nobody got it!'}
+                </div>
+                {correctAnswer && (
+                  <div className="text-5xl font-black text-green-400 drop-shadow-lg">{correctAnswer}</div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="w-96 flex flex-col justify-center">
+          <div className="bg-purple-950/90 border-4 border-cyan-400 rounded-2xl p-6">
+            <h3 className="text-cyan-400 font-black text-2xl uppercase mb-4">Scoreboard</h3>
+            {teamStandings.length > 0 && (
+              <div className="mb-4 pb-4 border-b-2 border-cyan-400/30 space-y-2">
+                {teamStandings.map((team) => (
+                  <div key={team.teamId} className="flex justify-between text-2xl font-black text-yellow-400">
+                    <span className="truncate">{team.name}</span>
+                    <span>{team.score}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-3">
+              {standings.map((entry) => (
+                <div
+                  key={entry.id}
+                  className={`flex items-center gap-3 ${
+                    isPlaying && matchState.lockedOutPlayerIds.includes(entry.id) ? 'opacity-50' : ''
+                  } ${entry.id === buzzedBy ? 'text-orange-400' : 'text-white'}`}
+                >
+                  <Avatar avatar={entry.avatar} name={entry.name} size="w-12 h-12" />
+                  <span className="flex-1 text-2xl font-bold truncate">{entry.name}</span>
+                  <span className="text-3xl font-black">{entry.score}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
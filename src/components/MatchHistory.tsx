@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { getMatchHistoryByPlayer, getMatchHistoryByTeam } from '../services/firestore';
-import { MatchHistory } from '../types/firebase';
+import { getMatchHistoryByPlayer, getMatchHistoryByTeam, getAttemptsByGame } from '../services/firestore';
+import { MatchHistory, Attempt, AttemptOutcome } from '../types/firebase';
 import { Trophy } from 'lucide-react';
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
@@ -9,11 +9,21 @@ interface MatchHistoryProps {
   onBack: () => void;
 }
 
+const OUTCOME_STYLES: Record<AttemptOutcome, { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'text-green-400' },
+  incorrect: { label: 'Incorrect', className: 'text-red-400' },
+  hesitation: { label: 'Hesitated', className: 'text-yellow-400' },
+  timeout: { label: 'Timed out', className: 'text-white/50' },
+};
+
 export const MatchHistoryComponent: React.FC<MatchHistoryProps> = ({ onBack }) => {
   const { userData } = useAuth();
   const [matchHistory, setMatchHistory] = useState<MatchHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'list' | 'graph'>('list');
+  const [expandedMatchId, setExpandedMatchId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [attemptsLoading, setAttemptsLoading] = useState(false);
 
   useEffect(() => {
     loadMatchHistory();
@@ -37,6 +47,29 @@ export const MatchHistoryComponent: React.FC<MatchHistoryProps> = ({ onBack }) =
     }
   };
 
+  const toggleAnswerLog = async (match: MatchHistory) => {
+    if (expandedMatchId === match.id) {
+      setExpandedMatchId(null);
+      return;
+    }
+    try {
+      setExpandedMatchId(match.id);
+      setAttemptsLoading(true);
+      setAttempts([]);
+      // Coaches read through their team; players read their own attempts
+      const log = await getAttemptsByGame(match.gameId, {
+        playerId: match.playerId,
+        teamId: userData?.role === 'coach' ? userData.teamId : undefined,
+      });
+      setAttempts(log);
+    } catch (error) {
+      console.error('Error loading answer log:', error);
+      alert('Failed to load answer log');
+    } finally {
+      setAttemptsLoading(false);
+    }
+  };
+
   const chartData = matchHistory.map((match, idx) => ({
     name: `Match ${matchHistory.length - idx}`,
     accuracy: (match.score / match.total) * 100,
@@ -107,7 +140,12 @@ export const MatchHistoryComponent: React.FC<MatchHistoryProps> = ({ onBack }) =
               {matchHistory.map((match, idx) => (
                 <div key={match.id} className="bg-purple-900 rounded-xl p-6 border-2 border-purple-800">
                   <div className="flex justify-between items-center mb-3">
-                    <div className="text-white font-bold text-lg">Match {matchHistory.length - idx}</div>
+                    <div className="text-white font-bold text-lg">
+                      Match {matchHistory.length - idx}
+                      {match.dnf && (
+                        <span className="ml-2 text-xs font-black text-red-300 bg-red-900/50 px-2 py-0.5 rounded">DNF</span>
+                      )}
+                    </div>
                     <div className="text-white/50 text-sm">
                       {new Date(match.completedAt).toLocaleDateString()}
                     </div>
@@ -131,7 +169,9 @@ export const MatchHistoryComponent: React.FC<MatchHistoryProps> = ({ onBack }) =
                     </div>
                     <div>
                       <div className="text-purple-400 text-sm font-bold uppercase">Type</div>
-                      <div className="text-white text-lg font-bold uppercase">{match.type}</div>
+                      <div className="text-white text-lg font-bold uppercase">
+                        {match.subtype === 'timed' ? `Timed ${match.timeLimitMinutes} min` : match.type}
+                      </div>
                     </div>
                   </div>
                   <div className="mt-4 pt-4 border-t border-white/10">
@@ -186,6 +226,47 @@ export const MatchHistoryComponent: React.FC<MatchHistoryProps> = ({ onBack }) =
                       )}
                     </div>
                   </div>
+                  <div className="mt-4 pt-4 border-t border-white/10">
+                    <button
+                      onClick={() => toggleAnswerLog(match)}
+                      className="text-cyan-400 text-sm font-bold uppercase hover:text-cyan-300"
+                    >
+                      {expandedMatchId === match.id ? 'Hide Answer Log' : 'Show Answer Log'}
+                      {match.hesitationCount > 0 && ` (${match.hesitationCount} hesitation${match.hesitationCount !== 1 ? 's' : ''})`}
+                    </button>
+                    {expandedMatchId === match.id && (
+                      <div className="mt-3">
+                        {attemptsLoading ? (
+                          <div className="text-white/50 text-sm">Loading answer log...</div>
+                        ) : attempts.length === 0 ? (
+                          <div className="text-white/50 text-sm">No answer log recorded for this game</div>
+                        ) : (
+                          <div className="space-y-1">
+                            <div className="grid grid-cols-6 gap-2 text-white/50 text-xs font-bold uppercase">
+                              <div>#</div>
+                              <div>Subject</div>
+                              <div>Buzz</div>
+                              <div>Words</div>
+                              <div>Answer</div>
+                              <div>Result</div>
+                            </div>
+                            {attempts.map((attempt) => (
+                              <div key={attempt.id} className="grid grid-cols-6 gap-2 text-sm text-white">
+                                <div>{attempt.questionIndex + 1}</div>
+                                <div className="uppercase">{attempt.subjectArea}</div>
+                                <div>{attempt.buzzTime !== null ? `${attempt.buzzTime.toFixed(2)}s` : '-'}</div>
+                                <div>{attempt.wordsRevealed}/{attempt.totalWords}</div>
+                                <div className="truncate" title={attempt.answer || undefined}>{attempt.answer || '-'}</div>
+                                <div className={`font-bold ${OUTCOME_STYLES[attempt.outcome].className}`}>
+                                  {OUTCOME_STYLES[attempt.outcome].label}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
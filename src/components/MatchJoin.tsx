@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { getGame, getGameByMatchIdCode, getPlayer } from '../services/firestore';
 import { ArrowLeft } from 'lucide-react';
@@ -6,13 +6,24 @@ import { ArrowLeft } from 'lucide-react';
 interface MatchJoinProps {
   onJoin: (gameId: string) => void;
   onBack: () => void;
+  // A code from a /match-join?code= link or QR scan; joined automatically once signed in
+  initialCode?: string;
 }
 
-export const MatchJoin: React.FC<MatchJoinProps> = ({ onJoin, onBack }) => {
+export const MatchJoin: React.FC<MatchJoinProps> = ({ onJoin, onBack, initialCode }) => {
   const { userData } = useAuth();
-  const [matchId, setMatchId] = useState('');
+  const [matchId, setMatchId] = useState(initialCode?.trim().toUpperCase() || '');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const autoJoinTried = useRef(false);
+
+  useEffect(() => {
+    if (initialCode && userData && !autoJoinTried.current) {
+      autoJoinTried.current = true;
+      handleJoin();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialCode, userData]);
 
   const handleJoin = async () => {
     if (!matchId.trim()) {
@@ -49,7 +60,7 @@ export const MatchJoin: React.FC<MatchJoinProps> = ({ onJoin, onBack }) => {
       }
       
       if (!game) {
-        setError('Match not found. Please check the Match ID Code.');
+        setError('Match not found or its code has expired. Please check the Match ID Code.');
         return;
       }
 
@@ -66,25 +77,36 @@ export const MatchJoin: React.FC<MatchJoinProps> = ({ onJoin, onBack }) => {
         return;
       }
 
+      // Players already in the match go straight back to it, e.g. after a refresh or lost connection
+      const playerIds = game.playerIds || [];
+      if (playerIds.includes(userData.uid)) {
+        onJoin(gameId);
+        return;
+      }
+
       if (game.status === 'active') {
         setError('This match has already started.');
         return;
       }
 
-      // Check if player already joined
-      const playerIds = game.playerIds || [];
-      if (playerIds.includes(userData.uid)) {
-        setError('You have already joined this match.');
+      if (game.status === 'scheduled') {
+        setError(`This match is scheduled for ${game.scheduledAt?.toLocaleString() ?? 'later'}. The lobby opens a few minutes before it starts.`);
+        return;
+      }
+
+      if (game.tournamentPlayerIds && !game.tournamentPlayerIds.includes(userData.uid)) {
+        setError('This tournament match is for other players.');
         return;
       }
 
-      // Verify team membership matches the match's team
-      if (game.teamId) {
+      // Verify team membership matches the match's team (or either team in a team-vs-team match)
+      const matchTeamIds = game.teamIds || (game.teamId ? [game.teamId] : []);
+      if (matchTeamIds.length > 0) {
         if (!userData.teamId) {
           setError('You must be on a team to join this match.');
           return;
         }
-        if (userData.teamId !== game.teamId) {
+        if (!matchTeamIds.includes(userData.teamId)) {
           setError('You cannot join this match. This match is for a different team.');
           return;
         }
@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import { getGame, getMatchEvents, getMatchState, getPlayer, getQuestionsByIds } from '../services/firestore';
+import { Game, MatchEvent, MatchState, Question } from '../types/firebase';
+import { getAnswerChoices } from '../util/shuffle';
+import { ArrowLeft, ChevronLeft, ChevronRight, Bolt } from 'lucide-react';
+
+interface MatchReplayProps {
+  gameId: string;
+  onBack: () => void;
+}
+
+// Marker colors for a buzz, by what came of it
+const BUZZ_STYLES: Record<string, string> = {
+  correct: 'bg-green-500 text-black',
+  incorrect: 'bg-red-500 text-white',
+  hesitation: 'bg-orange-500 text-black',
+  pending: 'bg-white/70 text-black',
+};
+
+/**
+ * Replay of a finished live match from its recorded event log, one question
+ * at a time: the question text with a marker on the word each player buzzed
+ * on, the answer choices in the order the players saw them, and a
+ * timestamped timeline of everything that happened.
+ */
+export const MatchReplay: React.FC<MatchReplayProps> = ({ gameId, onBack }) => {
+  const [game, setGame] = useState<Game | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [events, setEvents] = useState<MatchEvent[]>([]);
+  const [matchState, setMatchState] = useState<MatchState | null>(null);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadReplay = async () => {
+      try {
+        setLoading(true);
+        const [gameData, eventLog, state] = await Promise.all([
+          getGame(gameId),
+          getMatchEvents(gameId),
+          getMatchState(gameId),
+        ]);
+        setGame(gameData);
+        setEvents(eventLog);
+        setMatchState(state);
+        if (gameData) {
+          setQuestions(await getQuestionsByIds(gameData.questionIds));
+        }
+
+        // Names captured in the match state, then profiles for anyone removed mid-match
+        const playerNames: Record<string, string> = {};
+        Object.entries(state?.players || {}).forEach(([id, player]) => {
+          playerNames[id] = player.displayName || '';
+        });
+        const missing = [...new Set(eventLog.map((event) => event.playerId).filter((id): id is string => !!id))]
+          .filter((id) => !playerNames[id]);
+        await Promise.all(missing.map(async (id) => {
+          try {
+            const player = await getPlayer(id);
+            playerNames[id] = player?.displayName || '';
+          } catch (err) {
+            console.warn(`Error loading player ${id}:`, err);
+          }
+        }));
+        setNames(playerNames);
+      } catch (error) {
+        console.error('Error loading match replay:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (gameId) {
+      loadReplay();
+    }
+  }, [gameId]);
+
+  const nameOf = (id?: string) => (id ? names[id] || 'Player' : '');
+
+  const describe = (event: MatchEvent): string => {
+    switch (event.type) {
+      case 'match_start':
+        return 'Match started';
+      case 'question_start':
+        return 'Question opened';
+      case 'reveal_resume':
+        return `Question reopened at word ${(event.wordsRevealed ?? 0) + 1}`;
+      case 'buzz':
+        return `${nameOf(event.playerId)} buzzed on word ${event.wordsRevealed ?? 0}`;
+      case 'answer':
+        return `${nameOf(event.playerId)} answered "${event.answer}" - ${event.correct ? 'correct' : 'incorrect'}`;
+      case 'hesitation':
+        return event.answer
+          ? `${nameOf(event.playerId)} hesitated (answered "${event.answer}" too late)`
+          : `${nameOf(event.playerId)} hesitated`;
+      case 'timeout':
+        return 'Time ran out';
+      case 'question_end':
+        return `Question closed (${event.outcome}${event.playerId ? ` - ${nameOf(event.playerId)}` : ''})`;
+      case 'pause':
+        return 'Coach paused the match';
+      case 'resume':
+        return 'Coach resumed the match';
+      case 'skip':
+        return 'Coach threw out this question';
+      case 'kick':
+        return `Coach removed ${nameOf(event.playerId)}`;
+      case 'match_end':
+        return 'Match ended';
+    }
+  };
+
+  const shell = (content: React.ReactNode) => (
+    <div
+      className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+      style={{
+        backgroundImage: 'url(/Environments/Lobby.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <div className="absolute inset-0 flex flex-col items-center px-4 py-8 overflow-auto">
+        <button
+          onClick={onBack}
+          className="absolute top-4 left-4 p-2 bg-yellow-500 hover:bg-orange-500 rounded-full transition-colors z-20 shadow-lg"
+        >
+          <ArrowLeft className="w-6 h-6 text-black" />
+        </button>
+        {content}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return shell(<div className="text-white text-2xl drop-shadow-lg mt-32">Loading replay...</div>);
+  }
+
+  if (!game || events.length === 0) {
+    return shell(
+      <div className="bg-purple-900 border-4 border-cyan-400 rounded-3xl p-12 max-w-md w-full text-center mt-32">
+        <h2 className="text-3xl font-black text-white mb-4">No Replay</h2>
+        <p className="text-white/70">No event log was recorded for this match.</p>
+      </div>
+    );
+  }
+
+  const questionCount = game.questionIds.length;
+  const question = questions.find((q) => q.id === game.questionIds[questionIndex]);
+  const questionEvents = events.filter((event) => event.questionIndex === questionIndex);
+  const start = questionEvents.find((event) => event.type === 'question_start');
+  const words = question ? question.questionText.split(' ') : [];
+  const skipped = matchState?.skippedQuestionIndexes?.includes(questionIndex) ?? false;
+
+  // Each buzz, with what the player then did with it
+  const buzzes = questionEvents
+    .filter((event) => event.type === 'buzz')
+    .map((buzz) => {
+      const followUp = questionEvents.find(
+        (event) => event.seq > buzz.seq && event.playerId === buzz.playerId &&
+          (event.type === 'answer' || event.type === 'hesitation')
+      );
+      const result = !followUp ? 'pending' : followUp.type === 'hesitation' ? 'hesitation' : followUp.correct ? 'correct' : 'incorrect';
+      return {
+        event: buzz,
+        result,
+        // Markers sit on the last word on screen at the buzz
+        wordIndex: Math.max(0, (buzz.wordsRevealed ?? 0) - 1),
+        seconds: start ? (buzz.at - start.at) / 1000 : null,
+      };
+    });
+
+  return shell(
+    <div className="bg-purple-900 border-4 border-cyan-400 rounded-3xl p-8 max-w-5xl w-full mt-8">
+      <h2 className="text-4xl font-black text-white mb-2 text-center">MATCH REPLAY</h2>
+      <p className="text-cyan-400 text-lg font-bold mb-6 text-center">
+        Match ID: <span className="text-white font-mono">{game.matchIdCode || game.id.substring(0, 6).toUpperCase()}</span>
+      </p>
+
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={() => setQuestionIndex((index) => Math.max(0, index - 1))}
+          disabled={questionIndex === 0}
+          className="p-2 bg-yellow-500 hover:bg-orange-500 rounded-full disabled:opacity-30"
+        >
+          <ChevronLeft className="w-6 h-6 text-black" />
+        </button>
+        <div className="flex flex-wrap justify-center gap-2">
+          {game.questionIds.map((id, index) => {
+            const played = events.some((event) => event.type === 'question_start' && event.questionIndex === index);
+            return (
+              <button
+                key={`${id}-${index}`}
+                onClick={() => setQuestionIndex(index)}
+                disabled={!played}
+                className={`w-9 h-9 rounded-lg font-bold text-sm ${
+                  index === questionIndex
+                    ? 'bg-yellow-500 text-black'
+                    : 'bg-purple-950 text-white border border-cyan-400/30 hover:border-cyan-400'
+                } disabled:opacity-30`}
+              >
+                {index + 1}
+              </button>
+            );
+          })}
+        </div>
+        <button
+          onClick={() => setQuestionIndex((index) => Math.min(questionCount - 1, index + 1))}
+          disabled={questionIndex >= questionCount - 1}
+          className="p-2 bg-yellow-500 hover:bg-orange-500 rounded-full disabled:opacity-30"
+        >
+          <ChevronRight className="w-6 h-6 text-black" />
+        </button>
+      </div>
+
+      <div className="bg-purple-950 border-2 border-cyan-400/50 rounded-xl p-6 mb-4">
+        <div className="flex justify-between text-sm font-bold uppercase mb-3">
+          <span className="text-cyan-400">Question {questionIndex + 1} of {questionCount}</span>
+          {skipped && <span className="text-yellow-400">Thrown out</span>}
+        </div>
+        {!start ? (
+          <p className="text-white/50">This question was never reached.</p>
+        ) : (
+          <>
+            <p className="text-xl text-white leading-[3.5rem]">
+              {words.map((word, index) => {
+                const markers = buzzes.filter((buzz) => buzz.wordIndex === index);
+                return (
+                  <span key={index} className="relative inline-block mr-2">
+                    <span className={markers.length > 0 ? 'underline decoration-yellow-400 decoration-4' : ''}>{word}</span>
+                    {markers.length > 0 && (
+                      <span className="absolute left-0 top-7 flex gap-1 whitespace-nowrap">
+                        {markers.map((buzz) => (
+                          <span key={buzz.event.seq} className={`text-xs font-bold px-1.5 rounded ${BUZZ_STYLES[buzz.result]}`}>
+                            <Bolt className="inline w-3 h-3" /> {nameOf(buzz.event.playerId)}
+                            {buzz.seconds !== null && ` ${buzz.seconds.toFixed(1)}s`}
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                  </span>
+                );
+              })}
+            </p>
+            {question && game.shuffleSeed && (
+              <div className="mt-4 grid grid-cols-2 gap-2">
+                {getAnswerChoices(question, game.shuffleSeed, questionIndex).map((answer, index) => (
+                  <div
+                    key={`${index}-${answer}`}
+                    className={`rounded-lg px-3 py-2 text-sm font-bold border-2 ${
+                      answer === question.correctAnswer
+                        ? 'border-green-500 text-green-400'
+                        : 'border-white/10 text-white/70'
+                    }`}
+                  >
+                    {String.fromCharCode(65 + index)}. {answer}
+                  </div>
+                ))}
+              </div>
+            )}
+            {question && !game.shuffleSeed && (
+              <p className="mt-4 text-green-400 font-bold">Correct answer: {question.correctAnswer}</p>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-purple-950 border-2 border-cyan-400/30 rounded-xl p-6">
+        <h3 className="text-cyan-400 font-bold uppercase text-sm mb-3">Timeline</h3>
+        <div className="space-y-1">
+          {questionEvents.map((event) => (
+            <div key={event.seq} className="flex gap-4 text-sm">
+              <span className="w-16 text-right font-mono text-white/50">
+                {start ? `${event.at >= start.at ? '+' : ''}${((event.at - start.at) / 1000).toFixed(1)}s` : ''}
+              </span>
+              <span className="text-white">{describe(event)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { getGame, getMatchHistoriesByGameId, getPlayer } from '../services/firestore';
-import { Game, MatchHistory, Player } from '../types/firebase';
+import { getGame, getMatchHistoriesByGameId, getPlayer, getMatchState } from '../services/firestore';
+import { Game } from '../types/firebase';
+import { compareAvgBuzzTime } from '../util/ranking';
+import { addPoints, getResultPoints } from '../util/scoring';
 import { ArrowLeft, Trophy, Medal, Award } from 'lucide-react';
 
 interface MatchResultsProps {
@@ -14,16 +17,29 @@ interface PlayerResult {
   displayName: string;
   avatar?: string;
   score: number;
+  points: number;
   total: number;
   avgBuzzTime: number;
   accuracy: number;
   rank: number;
+  teamId?: string;
+  dnf: boolean;
+}
+
+interface TeamResult {
+  teamId: string;
+  name: string;
+  score: number;
+  playerCount: number;
+  rank: number;
 }
 
 export const MatchResults: React.FC<MatchResultsProps> = ({ gameId, onBack }) => {
+  const navigate = useNavigate();
   const { userData } = useAuth();
   const [game, setGame] = useState<Game | null>(null);
   const [results, setResults] = useState<PlayerResult[]>([]);
+  const [teamResults, setTeamResults] = useState<TeamResult[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -39,33 +55,47 @@ export const MatchResults: React.FC<MatchResultsProps> = ({ gameId, onBack }) =>
 
         // Load all match histories for this game
         const matchHistories = await getMatchHistoriesByGameId(gameId);
+
+        // Team matches: the opposing team's player profiles aren't readable,
+        // so names fall back to the ones captured in the match state
+        const matchState = gameData?.teamIds ? await getMatchState(gameId) : null;
         
         // Load player info for each match history
         const playerResults: PlayerResult[] = [];
         
         for (const history of matchHistories) {
-          const player = await getPlayer(history.playerId);
-          if (player) {
+          let player = null;
+          try {
+            player = await getPlayer(history.playerId);
+          } catch (err) {
+            console.warn(`Error loading player ${history.playerId}:`, err);
+          }
+          const fallbackName = matchState?.players[history.playerId]?.displayName;
+          if (player || fallbackName) {
             const accuracy = history.total > 0 ? (history.score / history.total) * 100 : 0;
             playerResults.push({
               playerId: history.playerId,
-              displayName: player.displayName,
-              avatar: player.avatar,
+              displayName: player?.displayName || fallbackName || 'Player',
+              avatar: player?.avatar,
               score: history.score,
+              points: getResultPoints(history),
               total: history.total,
               avgBuzzTime: history.avgBuzzTime,
               accuracy: accuracy,
               rank: 0, // Will be set after sorting
+              teamId: history.teamId,
+              dnf: history.dnf ?? false,
             });
           }
         }
 
-        // Sort by score (descending), then by avgBuzzTime (ascending for ties)
+        // Sort by points (descending), then by avgBuzzTime (ascending for ties);
+        // mirrors rankResults in functions/src/scoring.ts
         playerResults.sort((a, b) => {
-          if (b.score !== a.score) {
-            return b.score - a.score; // Higher score first
+          if (b.points !== a.points) {
+            return b.points - a.points; // More points first
           }
-          return a.avgBuzzTime - b.avgBuzzTime; // Lower buzz time first for ties
+          return compareAvgBuzzTime(a.avgBuzzTime, b.avgBuzzTime); // Lower buzz time first for ties, no buzzes last
         });
 
         // Assign ranks
@@ -74,6 +104,27 @@ export const MatchResults: React.FC<MatchResultsProps> = ({ gameId, onBack }) =>
         });
 
         setResults(playerResults);
+
+        // Team scoreboard for team-vs-team matches. Final team points are
+        // written to the game on completion; otherwise sum the players' points.
+        if (gameData?.teamIds) {
+          const teams: TeamResult[] = gameData.teamIds.map((teamId) => {
+            const teamPlayers = matchHistories.filter((history) => history.teamId === teamId);
+            return {
+              teamId,
+              name: gameData.teamNames?.[teamId] || 'Team',
+              score: gameData.teamScores?.[teamId] ?? teamPlayers.reduce((sum, history) => addPoints(sum, getResultPoints(history)), 0),
+              playerCount: teamPlayers.length,
+              rank: 0,
+            };
+          });
+          teams.sort((a, b) => b.score - a.score);
+          // Tied teams share a rank
+          teams.forEach((team, index) => {
+            team.rank = index > 0 && team.score === teams[index - 1].score ? teams[index - 1].rank : index + 1;
+          });
+          setTeamResults(teams);
+        }
       } catch (error) {
         console.error('Error loading match results:', error);
       } finally {
@@ -155,6 +206,43 @@ export const MatchResults: React.FC<MatchResultsProps> = ({ gameId, onBack }) =>
                   Completed: {new Date(game.endedAt).toLocaleString()}
                 </p>
               )}
+              {game.endedAt && game.endedEarly && (
+                <p className="text-yellow-400 text-sm font-bold mt-1">
+                  Ended early by the coach - results cover the questions played
+                </p>
+              )}
+              {game.endedAt && game.abandoned && (
+                <p className="text-yellow-400 text-sm font-bold mt-1">
+                  Closed after everyone stopped playing - results cover the questions played (DNF)
+                </p>
+              )}
+            </div>
+          )}
+
+          {teamResults.length > 0 && (
+            <div className="mb-8">
+              <h3 className="text-2xl font-black text-cyan-400 mb-3 text-center uppercase">Team Scoreboard</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {teamResults.map((team) => (
+                  <div
+                    key={team.teamId}
+                    className={`flex items-center justify-between p-4 rounded-xl border-2 ${getRankColor(team.rank)} ${
+                      team.teamId === userData?.teamId ? 'ring-2 ring-yellow-500' : ''
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      {getRankIcon(team.rank)}
+                      <div>
+                        <div className="text-xl font-black text-white">{team.name}</div>
+                        <div className="text-white/50 text-sm">
+                          {team.playerCount} player{team.playerCount === 1 ? '' : 's'}
+                        </div>
+                      </div>
+                    </div>
+                    <span className="text-4xl font-black text-yellow-400">{team.score}</span>
+                  </div>
+                ))}
+              </div>
             </div>
           )}
 
@@ -168,7 +256,7 @@ export const MatchResults: React.FC<MatchResultsProps> = ({ gameId, onBack }) =>
               <div className="grid grid-cols-6 gap-4 pb-3 border-b border-cyan-400/30 font-bold text-cyan-400 uppercase text-sm">
                 <div>Rank</div>
                 <div>Player</div>
-                <div className="text-center">Score</div>
+                <div className="text-center">Points</div>
                 <div className="text-center">Accuracy</div>
                 <div className="text-center">Avg Buzz</div>
                 <div className="text-center">Total</div>
@@ -204,10 +292,18 @@ export const MatchResults: React.FC<MatchResultsProps> = ({ gameId, onBack }) =>
                     }`}>
                       {result.displayName}
                       {result.playerId === userData?.uid && ' (You)'}
+                      {result.dnf && (
+                        <span className="ml-2 text-xs font-black text-red-300 bg-red-900/50 px-2 py-0.5 rounded">DNF</span>
+                      )}
+                      {teamResults.length > 0 && result.teamId && (
+                        <span className="block text-xs font-normal text-white/50">
+                          {game?.teamNames?.[result.teamId] || 'Team'}
+                        </span>
+                      )}
                     </span>
                   </div>
                   <div className="text-center">
-                    <span className="text-2xl font-black text-yellow-400">{result.score}</span>
+                    <span className="text-2xl font-black text-yellow-400">{result.points}</span>
                   </div>
                   <div className="text-center">
                     <span className="text-lg font-bold text-green-400">{result.accuracy.toFixed(1)}%</span>
@@ -223,9 +319,27 @@ export const MatchResults: React.FC<MatchResultsProps> = ({ gameId, onBack }) =>
             </div>
           )}
 
+          {game?.type === 'match' && (
+            <button
+              onClick={() => navigate(`/match-replay?gameId=${gameId}`)}
+              className="w-full mt-6 bg-cyan-500 hover:bg-cyan-400 text-white font-black text-xl py-4 rounded-xl transition-colors"
+            >
+              WATCH REPLAY
+            </button>
+          )}
+
+          {game?.tournamentId && (
+            <button
+              onClick={() => navigate(`/tournament?tournamentId=${game.tournamentId}`)}
+              className="w-full mt-4 bg-purple-950 hover:bg-purple-800 text-yellow-400 font-black text-xl py-4 rounded-xl border-2 border-yellow-500 transition-colors"
+            >
+              VIEW TOURNAMENT
+            </button>
+          )}
+
           <button
             onClick={onBack}
-            className="w-full mt-6 bg-yellow-500 hover:bg-orange-500 text-black font-black text-xl py-4 rounded-xl transition-colors"
+            className="w-full mt-4 bg-yellow-500 hover:bg-orange-500 text-black font-black text-xl py-4 rounded-xl transition-colors"
           >
             BACK
           </button>
@@ -5,6 +5,10 @@ import { Game, Player } from '../types/firebase';
 import { doc, onSnapshot } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import { ArrowLeft } from 'lucide-react';
+import { useClockSync } from '../hooks/useClockSync';
+import { usePresenceHeartbeat, useMatchPresence } from '../hooks/usePresence';
+import { ConnectionQualityBadge } from './ConnectionQualityBadge';
+import { PresenceIndicator } from './PresenceIndicator';
 
 interface MatchWaitingRoomProps {
   gameId: string;
@@ -29,6 +33,12 @@ export const MatchWaitingRoom: React.FC<MatchWaitingRoomProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Once the player is in the match, sync this device's clock with the server and keep their presence alive
+  const joined = !!userData && !!game?.playerIds?.includes(userData.uid);
+  useClockSync(gameId, joined);
+  usePresenceHeartbeat(gameId, userData?.uid, joined);
+  const { presence, now } = useMatchPresence(gameId);
+
   useEffect(() => {
     if (!userData || !gameId) return;
 
@@ -77,6 +87,7 @@ export const MatchWaitingRoom: React.FC<MatchWaitingRoomProps> = ({
         ...gameData,
         startedAt: gameData.startedAt?.toDate() || new Date(),
         endedAt: gameData.endedAt?.toDate(),
+        scheduledAt: gameData.scheduledAt?.toDate(),
       } as Game;
 
       setGame(updatedGame);
@@ -176,6 +187,12 @@ export const MatchWaitingRoom: React.FC<MatchWaitingRoomProps> = ({
             <p className="text-white/70 text-sm">
               Waiting for match to start... ({players.length} player{players.length !== 1 ? 's' : ''} joined)
             </p>
+            {game?.scheduledAt && (
+              <p className="text-yellow-400 text-sm font-bold mt-2">
+                Starts automatically at {game.scheduledAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                {(game.minPlayers ?? 1) > 1 && ` once ${game.minPlayers} players have joined`}
+              </p>
+            )}
           </div>
 
           <div className="mb-6">
@@ -209,6 +226,10 @@ export const MatchWaitingRoom: React.FC<MatchWaitingRoomProps> = ({
                     {player.displayName}
                     {player.playerId === userData?.uid && ' (You)'}
                   </p>
+                  <div className="flex items-center justify-center gap-2 mt-1">
+                    <PresenceIndicator presence={presence[player.playerId]} now={now} />
+                    <ConnectionQualityBadge connection={game?.connections?.[player.playerId]} />
+                  </div>
                 </div>
               ))}
             </div>
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Dices, Wand2 } from 'lucide-react';
+import { getRecentTeamQuestionIds } from '../services/firestore';
+import { Question } from '../types/firebase';
+import { DIFFICULTY_LABELS, PacketDifficulty, buildPacket, newPacketSeed } from '../util/packetBuilder';
+import { SUBJECT_NAMES } from '../util/practiceSelection';
+
+interface PacketBuilderProps {
+  questions: Question[];
+  teamId?: string;
+  // The built question IDs, and a one-line description of the constraints and seed
+  onBuilt: (questionIds: string[], description: string) => void;
+}
+
+const LEVELS = ['EL', 'MS', 'HS'] as const;
+const RECENT_DAY_OPTIONS = [0, 7, 14, 30, 60, 90];
+
+/**
+ * Build a balanced question set from constraints: total count, questions per
+ * subject, levels, difficulty, approved questions only, and nothing the team
+ * played recently. The seed is shown so the same set can be rebuilt.
+ */
+export const PacketBuilder: React.FC<PacketBuilderProps> = ({ questions, teamId, onBuilt }) => {
+  const [count, setCount] = useState(20);
+  const [quotas, setQuotas] = useState<Record<string, string>>({});
+  const [levels, setLevels] = useState<('EL' | 'MS' | 'HS')[]>([]);
+  const [difficulty, setDifficulty] = useState<PacketDifficulty>('any');
+  const [approvedOnly, setApprovedOnly] = useState(false);
+  const [recentDays, setRecentDays] = useState(30);
+  const [seed, setSeed] = useState(newPacketSeed);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [building, setBuilding] = useState(false);
+
+  const toggleLevel = (level: 'EL' | 'MS' | 'HS') => {
+    setLevels((prev) => (prev.includes(level) ? prev.filter((l) => l !== level) : [...prev, level]));
+  };
+
+  const handleEvenSplit = () => {
+    const subjects = Object.keys(SUBJECT_NAMES);
+    const perSubject = Math.floor(count / subjects.length);
+    setQuotas(Object.fromEntries(subjects.map((subject) => [subject, perSubject > 0 ? String(perSubject) : ''])));
+  };
+
+  const handleBuild = async () => {
+    const subjectQuotas: Record<string, number> = {};
+    Object.entries(quotas).forEach(([subject, value]) => {
+      const quota = parseInt(value);
+      if (quota > 0) subjectQuotas[subject] = quota;
+    });
+
+    try {
+      setBuilding(true);
+      setErrors([]);
+      const excludeQuestionIds = teamId && recentDays > 0
+        ? await getRecentTeamQuestionIds(teamId, new Date(Date.now() - recentDays * 24 * 60 * 60 * 1000))
+        : [];
+      const result = buildPacket(
+        questions,
+        { count, subjectQuotas, levels, difficulty, approvedOnly, excludeQuestionIds },
+        seed
+      );
+      if (!result.ok) {
+        setErrors(result.errors);
+        return;
+      }
+
+      const description = [
+        `${count} questions`,
+        ...Object.entries(subjectQuotas).map(([subject, quota]) => `${quota} ${subject}`),
+        levels.length > 0 ? `levels ${levels.join('/')}` : '',
+        difficulty !== 'any' ? `${difficulty} difficulty` : '',
+        approvedOnly ? 'approved only' : '',
+        recentDays > 0 ? `none used in ${recentDays} days` : '',
+        `seed ${seed}`,
+      ].filter(Boolean).join(', ');
+      onBuilt(result.questionIds, description);
+    } catch (error) {
+      console.error('Error building packet:', error);
+      alert(`Failed to build packet${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-white/70 text-xs uppercase mb-1">Questions</label>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={count}
+            onChange={(e) => setCount(Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+            className="w-full bg-purple-900 text-white p-2 rounded-lg border-2 border-cyan-400/30"
+          />
+        </div>
+        <div>
+          <label className="block text-white/70 text-xs uppercase mb-1">Difficulty</label>
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as PacketDifficulty)}
+            className="w-full bg-purple-900 text-white p-2 rounded-lg border-2 border-cyan-400/30"
+          >
+            {(Object.keys(DIFFICULTY_LABELS) as PacketDifficulty[]).map((option) => (
+              <option key={option} value={option}>{DIFFICULTY_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-white/70 text-xs uppercase mb-1">Skip Questions Used In</label>
+          <select
+            value={recentDays}
+            onChange={(e) => setRecentDays(parseInt(e.target.value))}
+            className="w-full bg-purple-900 text-white p-2 rounded-lg border-2 border-cyan-400/30"
+          >
+            {RECENT_DAY_OPTIONS.map((days) => (
+              <option key={days} value={days}>{days === 0 ? 'Allow repeats' : `Last ${days} days`}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-white/70 text-xs uppercase">Questions Per Subject (blank = any)</label>
+          <button onClick={handleEvenSplit} className="text-cyan-400 hover:text-white text-xs font-bold">
+            Even split
+          </button>
+        </div>
+        <div className="grid grid-cols-5 gap-2">
+          {Object.entries(SUBJECT_NAMES).map(([code, name]) => (
+            <label key={code} className="bg-purple-900 rounded-lg p-2 text-center" title={name}>
+              <span className="block text-cyan-400 text-xs font-bold">{code}</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={quotas[code] || ''}
+                onChange={(e) => setQuotas({ ...quotas, [code]: e.target.value })}
+                className="w-full bg-purple-950 text-white text-center rounded mt-1"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-white text-sm">
+        {LEVELS.map((level) => (
+          <label key={level} className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={levels.includes(level)} onChange={() => toggleLevel(level)} />
+            {level} only
+          </label>
+        ))}
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={approvedOnly} onChange={(e) => setApprovedOnly(e.target.checked)} />
+          Approved questions only
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="text-white/70 text-xs uppercase">Seed</label>
+        <input
+          type="text"
+          value={seed}
+          onChange={(e) => setSeed(e.target.value.toUpperCase())}
+          className="w-28 bg-purple-900 text-white font-mono p-2 rounded-lg border-2 border-cyan-400/30"
+        />
+        <button onClick={() => setSeed(newPacketSeed())} className="text-cyan-400 hover:text-white p-2" title="New seed">
+          <Dices className="w-4 h-4" />
+        </button>
+        <button
+          onClick={handleBuild}
+          disabled={building || !seed.trim()}
+          className="ml-auto bg-cyan-500 hover:bg-cyan-400 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Wand2 className="w-4 h-4" />
+          {building ? 'Building...' : 'Build'}
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-red-900/40 border-2 border-red-500 rounded-lg p-3 text-sm text-white space-y-1">
+          <div className="font-bold text-red-300">These constraints can't be met:</div>
+          {errors.map((error) => (
+            <div key={error}>{error}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
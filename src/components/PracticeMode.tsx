@@ -1,13 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useQuestions } from '../context/QuestionsContext';
-import { createGame, createMatchHistory, updatePlayerStats, getPlayer, getUser, getGame, getMatchHistoriesByGameId, updateGame, createNotification, getTeam } from '../services/firestore';
-import { Question, MatchHistory } from '../types/firebase';
+import { createGame, getPlayer, getAttemptsByPlayer, getPacket, savePracticeProgress } from '../services/firestore';
+import { writeMatchStats, WriteMatchStatsRequest, PracticeAttemptInput } from '../services/functions';
+import { AttemptOutcome, Game, Question, ScoringRules } from '../types/firebase';
+import { selectAdaptiveQuestions } from '../util/adaptivePractice';
+import { getPacketQuestions } from '../util/packets';
+import { addPoints, scoreAttempt } from '../util/scoring';
+import { getAnswerChoices, newShuffleSeed, seededRandom } from '../util/shuffle';
+import {
+  PracticeFilters,
+  TIMED_QUESTION_POOL,
+  filterPracticeQuestions,
+  mixPracticeQuestions,
+} from '../util/practiceSelection';
 import { Bolt, ArrowLeft } from 'lucide-react';
 import { auth } from '../config/firebase';
-import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../config/firebase';
 
 const COLOR_THEME = {
   A_RED: '#FF416C',
@@ -16,33 +24,59 @@ const COLOR_THEME = {
   D_YELLOW: '#FFC838',
 };
 
+// Correct and attempted questions per subject so far, saved with the session's progress
+const tallySubjects = (questions: Question[], attempts: PracticeAttemptInput[]) => {
+  const correctBySubject: Record<string, number> = {};
+  const totalBySubject: Record<string, number> = {};
+  attempts.forEach((attempt) => {
+    const question = questions[attempt.questionIndex];
+    if (!question) return;
+    totalBySubject[question.subjectArea] = (totalBySubject[question.subjectArea] || 0) + 1;
+    if (attempt.answer === question.correctAnswer) {
+      correctBySubject[question.subjectArea] = (correctBySubject[question.subjectArea] || 0) + 1;
+    }
+  });
+  return { correctBySubject, totalBySubject };
+};
+
 interface PracticeModeProps {
   onBack: () => void;
   numQuestions: number;
-  practiceMode: string;
-  gameSettings: { questionTime: number; hesitationTime: number; wpm: number };
-  matchGameId?: string; // Optional: if provided, use this gameId instead of creating a new one
-  matchQuestions?: Question[]; // Optional: if provided, use these questions instead of loading from context
+  filters: PracticeFilters;
+  // Pick questions by weak subjects and spaced review instead of at random
+  adaptive?: boolean;
+  // Timed "beat the clock" practice: questions keep coming until this runs out
+  timeLimitMinutes?: number;
+  // Play a saved packet's questions in order instead of filtering and mixing
+  packetId?: string;
+  // Pick an unfinished session back up where its saved progress left off
+  resumeGame?: Game;
+  gameSettings: { questionTime: number; hesitationTime: number; wpm: number; scoring?: ScoringRules };
 }
 
 export const PracticeMode: React.FC<PracticeModeProps> = ({
   onBack,
   numQuestions,
-  practiceMode,
+  filters,
+  adaptive = false,
+  timeLimitMinutes,
+  packetId,
+  resumeGame,
   gameSettings,
-  matchGameId,
-  matchQuestions,
 }) => {
-  const navigate = useNavigate();
   const { userData, currentUser, loading: authLoading } = useAuth();
   const { questions: allQuestions, loading: questionsLoading } = useQuestions();
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [playerScore, setPlayerScore] = useState(0);
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(resumeGame?.progress?.nextQuestionIndex ?? 0);
+  const [playerScore, setPlayerScore] = useState(resumeGame?.progress?.score ?? 0);
+  // Points under the team's scoring rules; the server recomputes them from the answer log
+  const [playerPoints, setPlayerPoints] = useState(resumeGame?.progress?.points ?? 0);
   const [timer, setTimer] = useState(gameSettings.questionTime);
   const [revealedWordsCount, setRevealedWordsCount] = useState(0);
   const [isQuestionLive, setIsQuestionLive] = useState(false);
   const [shuffledAnswers, setShuffledAnswers] = useState<string[]>([]);
+  // A fresh seed each session, stored on the game so its question and answer order can be rebuilt
+  const [shuffleSeed] = useState(() => resumeGame?.shuffleSeed ?? newShuffleSeed());
   const [shuffledAnswersQuestionId, setShuffledAnswersQuestionId] = useState<string | null>(null);
   const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
   const [showResult, setShowResult] = useState(false);
@@ -50,28 +84,32 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
   const [showIncorrect, setShowIncorrect] = useState(false);
   const [questionStartTime, setQuestionStartTime] = useState<number | null>(null);
   const [questionFullyRevealed, setQuestionFullyRevealed] = useState(false);
-  const [buzzTimes, setBuzzTimes] = useState<number[]>([]);
-  const [correctBySubject, setCorrectBySubject] = useState<Record<string, number>>({});
-  const [totalBySubject, setTotalBySubject] = useState<Record<string, number>>({});
+  const [buzzTime, setBuzzTime] = useState<number | null>(null);
+  const [attempts, setAttempts] = useState<PracticeAttemptInput[]>(resumeGame?.progress?.attempts ?? []);
   const [gameId, setGameId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [hasBuzzed, setHasBuzzed] = useState(false);
   const [showHesitation, setShowHesitation] = useState(false);
   const [hesitationTimer, setHesitationTimer] = useState<number | null>(null);
   const [hesitationComplete, setHesitationComplete] = useState(false);
+  // A resumed sprint's clock kept running from when the session started
+  const [clockRemaining, setClockRemaining] = useState<number | null>(
+    timeLimitMinutes
+      ? Math.max(0, timeLimitMinutes * 60 - (resumeGame ? Math.floor((Date.now() - resumeGame.startedAt.getTime()) / 1000) : 0))
+      : null
+  );
   const revealIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Latest answer log, for ending the game from the clock rather than a question
+  const attemptsRef = useRef<PracticeAttemptInput[]>(resumeGame?.progress?.attempts ?? []);
+  const gameEndedRef = useRef(false);
+  const questionCount = timeLimitMinutes ? TIMED_QUESTION_POOL : numQuestions;
 
-  // Load match questions if provided, otherwise load from context
+  // Load questions from context
   useEffect(() => {
-    if (matchQuestions && matchGameId) {
-      // Use match questions and gameId
-      setQuestions(matchQuestions);
-      setGameId(matchGameId);
-      setLoading(false);
-    } else if (!questionsLoading && allQuestions.length > 0) {
+    if (!questionsLoading && allQuestions.length > 0) {
       loadQuestions();
     }
-  }, [questionsLoading, allQuestions, practiceMode, numQuestions, matchQuestions, matchGameId]);
+  }, [questionsLoading, allQuestions, filters, questionCount, adaptive, packetId, resumeGame]);
 
   // Update timer when gameSettings change (if no question is active)
   useEffect(() => {
@@ -86,38 +124,100 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
     if (questions.length > 0 && gameId && questionStartTime === null && !loading && currentQuestionIndex < questions.length) {
       startQuestion();
     }
+    // A resumed session can come back with every question already answered
+    if (questions.length > 0 && gameId && !loading && currentQuestionIndex >= questions.length) {
+      endGame(playerScore, attemptsRef.current);
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [questions, gameId, currentQuestionIndex, questionStartTime, loading]);
 
+  // Save the session after every question so a refresh or a sleeping laptop can pick it back up
+  useEffect(() => {
+    if (!gameId || attempts.length === 0 || gameEndedRef.current) return;
+    const lastAttempt = attempts[attempts.length - 1];
+    savePracticeProgress(gameId, {
+      nextQuestionIndex: lastAttempt.questionIndex + 1,
+      score: playerScore,
+      points: playerPoints,
+      attempts,
+      ...tallySubjects(questions, attempts),
+    }).catch((err) => {
+      console.warn('Error saving practice progress:', err);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attempts, gameId]);
+
   const loadQuestions = async () => {
     try {
       setLoading(true);
-      
-      // Filter questions based on practice mode
-      let availableQuestions = allQuestions;
-      
-      if (practiceMode !== 'Mix') {
-        const subjectMap: Record<string, string> = {
-          'Social Studies': 'SS',
-          'Science': 'SC',
-          'Language Arts': 'LA',
-          'Math': 'MA',
-          'Arts and Humanities': 'AH',
-        };
-        const subjectCode = subjectMap[practiceMode] || practiceMode;
-        availableQuestions = allQuestions.filter(q => q.subjectArea === subjectCode);
+
+      let selected: Question[];
+      if (resumeGame) {
+        // Rebuild the session from its game; the answer log points at questions by index
+        selected = getPacketQuestions(resumeGame.questionIds, allQuestions);
+        if (selected.length !== resumeGame.questionIds.length) {
+          alert('Some questions in this session are no longer available, so it can\'t be resumed.');
+          onBack();
+          return;
+        }
+        setQuestions(selected);
+        setGameId(resumeGame.id);
+        return;
       }
+      if (packetId) {
+        const packet = await getPacket(packetId);
+        selected = packet ? getPacketQuestions(packet.questionIds, allQuestions) : [];
+        if (selected.length === 0) {
+          alert('This packet has no questions you can play. Ask your coach to check it.');
+          onBack();
+          return;
+        }
+        // Packets are played in order; skip subject filtering and mixing
+        setQuestions(selected);
+        if (userData) {
+          setGameId(await createGame({
+            type: 'practice',
+            playerId: userData.uid,
+            teamId: userData.teamId,
+            questionIds: selected.map((q) => q.id),
+            status: 'active',
+            packetId,
+            shuffleSeed,
+          }));
+        }
+        return;
+      }
+      
+      // Filter questions by the chosen subjects, level and years
+      const availableQuestions = filterPracticeQuestions(allQuestions, filters);
       
       if (availableQuestions.length === 0) {
-        alert('No questions available. Please ask your coach to add questions first.');
+        alert('No questions match these practice settings. Try more subjects or a wider year range, or ask your coach to add questions.');
         onBack();
         return;
       }
 
-      // Shuffle questions but keep each question object intact with its answers
-      // This ensures questions and their answers stay locked together
-      const shuffled = [...availableQuestions].sort(() => Math.random() - 0.5);
-      const selected = shuffled.slice(0, Math.min(numQuestions, availableQuestions.length));
+      if (adaptive && userData) {
+        // Weight toward weak subjects and bring back missed questions that are due
+        const [player, attempts] = await Promise.all([
+          getPlayer(userData.uid),
+          getAttemptsByPlayer(userData.uid),
+        ]);
+        selected = selectAdaptiveQuestions(
+          availableQuestions,
+          attempts,
+          {
+            correctBySubject: player?.correctBySubject || {},
+            totalBySubject: player?.totalBySubject || {},
+          },
+          questionCount,
+          new Date(),
+          seededRandom(shuffleSeed)
+        );
+      } else {
+        // Question objects are moved whole, so each keeps its own answers
+        selected = mixPracticeQuestions(availableQuestions, filters.mix, questionCount, seededRandom(shuffleSeed));
+      }
       // Verify each question has its correctAnswer and distractors properly set
       const validatedQuestions = selected.map(q => {
         if (!q.correctAnswer || !q.distractors || q.distractors.length === 0) {
@@ -135,6 +235,8 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
           teamId: userData.teamId,
           questionIds: selected.map((q) => q.id),
           status: 'active',
+          shuffleSeed,
+          ...(timeLimitMinutes ? { subtype: 'timed' as const, timeLimitMinutes } : {}),
         });
         setGameId(newGameId);
       }
@@ -163,9 +265,7 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
     
     // Shuffle answers but keep them tied to this specific question object
     // Use the question's ID to ensure we're always using the correct question's answers
-    const shuffled = [currentQuestion.correctAnswer, ...currentQuestion.distractors].sort(
-      () => Math.random() - 0.5
-    );
+    const shuffled = getAnswerChoices(currentQuestion, shuffleSeed, currentQuestionIndex);
     
     // Debug: Log to verify question and answers match
     console.log('Starting question:', {
@@ -181,6 +281,7 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
     setRevealedWordsCount(0);
     setIsQuestionLive(true); // Allow immediate buzzing
     setHasBuzzed(false);
+    setBuzzTime(null);
     setShowHesitation(false);
     setHesitationTimer(null);
     setHesitationComplete(false);
@@ -249,8 +350,7 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
       revealIntervalRef.current = null;
     }
     
-    const buzzTime = (Date.now() - questionStartTime) / 1000;
-    setBuzzTimes((prev) => [...prev, buzzTime]);
+    setBuzzTime((Date.now() - questionStartTime) / 1000);
     setHasBuzzed(true);
     
     // Stop question timer by setting it to 0 (timer effect checks hasBuzzed, so it won't run)
@@ -327,17 +427,9 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
       setShowResult(true);
       setSelectedAnswer(null);
       
-      // Track this as a missed question (no answer selected, hesitation timeout)
-      setTotalBySubject((prev) => {
-        const currentQuestion = questions[currentQuestionIndex];
-        if (currentQuestion) {
-          return {
-            ...prev,
-            [currentQuestion.subjectArea]: (prev[currentQuestion.subjectArea] || 0) + 1,
-          };
-        }
-        return prev;
-      });
+      // Log the hesitation (buzzed but no answer selected)
+      const updatedAttempts = recordAttempt(null);
+      setPlayerPoints((prev) => addPoints(prev, scoreCurrentQuestion('hesitation')));
       
       // After 3 seconds, automatically advance to next question
       setTimeout(() => {
@@ -345,7 +437,7 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
         const nextIndex = currentQuestionIndex + 1;
         if (nextIndex >= questions.length) {
           // Pass current score (no change since no answer was selected)
-          endGame(playerScore);
+          endGame(playerScore, updatedAttempts);
         } else {
           setCurrentQuestionIndex(nextIndex);
           // Reset question state for next question
@@ -391,9 +483,7 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
           console.error(`Question ${currentQuestion.id} is missing answer data`);
           return;
         }
-        const shuffled = [currentQuestion.correctAnswer, ...currentQuestion.distractors].sort(
-          () => Math.random() - 0.5
-        );
+        const shuffled = getAnswerChoices(currentQuestion, shuffleSeed, currentQuestionIndex);
         console.log('Regenerating shuffled answers for question:', {
           questionId: currentQuestion.id,
           questionText: currentQuestion.questionText,
@@ -403,12 +493,41 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
         setShuffledAnswersQuestionId(currentQuestion.id);
       }
     }
-  }, [currentQuestionIndex, questions, shuffledAnswersQuestionId]);
+  }, [currentQuestionIndex, questions, shuffledAnswersQuestionId, shuffleSeed]);
+
+  // Add the current question to the answer log. The words revealed count is
+  // frozen by a buzz, so it is the buzz point for buzzed questions.
+  const recordAttempt = (answer: string | null): PracticeAttemptInput[] => {
+    const updatedAttempts = [
+      ...attempts,
+      {
+        questionIndex: currentQuestionIndex,
+        buzzTime: hasBuzzed ? buzzTime : null,
+        wordsRevealed: revealedWordsCount,
+        answer,
+      },
+    ];
+    setAttempts(updatedAttempts);
+    attemptsRef.current = updatedAttempts;
+    return updatedAttempts;
+  };
+
+  // Points for the current question's outcome at the current buzz point
+  const scoreCurrentQuestion = (outcome: AttemptOutcome) => {
+    const currentQuestion = questions[currentQuestionIndex];
+    return scoreAttempt(gameSettings.scoring, {
+      outcome,
+      subjectArea: currentQuestion.subjectArea,
+      wordsRevealed: revealedWordsCount,
+      totalWords: currentQuestion.questionText.split(' ').length,
+    });
+  };
 
   const handleTimeExpired = () => {
     // Show the answer when time expires
     setShowResult(true);
     setSelectedAnswer(null); // No answer selected, so show correct answer
+    const updatedAttempts = recordAttempt(null);
     
     // Wait 3 seconds to show the answer before moving to next question
     setTimeout(() => {
@@ -416,7 +535,7 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
       const nextIndex = currentQuestionIndex + 1;
       if (nextIndex >= questions.length) {
         // Pass current score (no change since no answer was selected)
-        endGame(playerScore);
+        endGame(playerScore, updatedAttempts);
       } else {
         setCurrentQuestionIndex(nextIndex);
         startQuestion();
@@ -433,22 +552,16 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
     setSelectedAnswer(answer);
     setShowResult(true);
 
-    // Track total questions by subject
-    setTotalBySubject((prev) => ({
-      ...prev,
-      [currentQuestion.subjectArea]: (prev[currentQuestion.subjectArea] || 0) + 1,
-    }));
-
-    // Calculate the updated score immediately
+    // Calculate the updated score and answer log immediately so the last
+    // question is included when endGame runs from the timeout below
     const updatedScore = isCorrect ? playerScore + 1 : playerScore;
+    const updatedAttempts = recordAttempt(answer);
+    const points = scoreCurrentQuestion(isCorrect ? 'correct' : 'incorrect');
+    setPlayerPoints((prev) => addPoints(prev, points));
 
     if (isCorrect) {
       setPlayerScore((prev) => prev + 1);
       setShowCorrect(true);
-      setCorrectBySubject((prev) => ({
-        ...prev,
-        [currentQuestion.subjectArea]: (prev[currentQuestion.subjectArea] || 0) + 1,
-      }));
     } else {
       setShowIncorrect(true);
     }
@@ -459,7 +572,7 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
       const nextIndex = currentQuestionIndex + 1;
       if (nextIndex >= questions.length) {
         // Pass the updated score to ensure the last question's point is included
-        endGame(updatedScore);
+        endGame(updatedScore, updatedAttempts);
       } else {
         setCurrentQuestionIndex(nextIndex);
         startQuestion();
@@ -467,7 +580,24 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
     }, 2000);
   };
 
-  const endGame = async (finalScore?: number) => {
+  // Overall countdown for timed practice; starts once the game is ready and
+  // ends the game when it runs out, mid-question or not
+  useEffect(() => {
+    if (clockRemaining === null || !gameId || loading) return;
+    if (clockRemaining <= 0) {
+      endGame(playerScore, attemptsRef.current);
+      return;
+    }
+    const timeout = setTimeout(() => setClockRemaining((t) => (t === null ? t : t - 1)), 1000);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clockRemaining, gameId, loading]);
+
+  const endGame = async (finalScore: number, finalAttempts: PracticeAttemptInput[]) => {
+    // The clock and the last question's timeout can both try to end a timed game
+    if (gameEndedRef.current) return;
+    gameEndedRef.current = true;
+
     // Ensure auth is fully loaded before proceeding
     if (authLoading) {
       console.error('Cannot save match history: Auth still loading');
@@ -514,448 +644,47 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
       return;
     }
 
-    const avgBuzzTime = buzzTimes.length > 0
-      ? buzzTimes.reduce((a, b) => a + b, 0) / buzzTimes.length
-      : 0;
-
-    // Use finalScore if provided (to ensure last question score is included), otherwise use current state
-    const finalPlayerScore = finalScore !== undefined ? finalScore : playerScore;
-
-    // Determine if this is a match or practice based on whether matchGameId was provided
-    const gameType = matchGameId ? 'match' : 'practice';
-    
-    const matchHistory: Omit<MatchHistory, 'id' | 'startedAt' | 'completedAt'> = {
+    const matchStats: WriteMatchStatsRequest = {
       gameId,
-      playerId: playerId, // Use currentUser.uid to match request.auth.uid
-      teamId: userData.teamId,
-      type: gameType,
-      score: finalPlayerScore,
-      total: questions.length,
-      avgBuzzTime: parseFloat(avgBuzzTime.toFixed(2)),
-      correctBySubject,
-      totalBySubject,
-      questionIds: questions.map((q) => q.id),
-      hesitationCount: 0,
+      attempts: finalAttempts,
     };
 
     try {
-      // Verify user document exists in Firestore (required for some rules)
-      let userDoc = await getUser(playerId);
-      if (!userDoc) {
-        console.warn('User document does not exist in Firestore, creating it...');
-        try {
-          // Create user document if it doesn't exist
-          await setDoc(doc(db, 'users', playerId), {
-            uid: playerId,
-            email: currentUser.email || '',
-            displayName: userData.displayName || '',
-            role: userData.role,
-            teamId: userData.teamId || null,
-            createdAt: serverTimestamp(),
-            lastActive: serverTimestamp(),
-          });
-          console.log('User document created successfully');
-          // Re-fetch to verify it was created
-          userDoc = await getUser(playerId);
-        } catch (userDocError: any) {
-          console.error('Failed to create user document:', userDocError);
-          throw new Error(`Cannot create user document: ${userDocError.message}`);
-        }
-      }
-      
-      // For students, ensure player document exists with correct userId
-      if (userData.role === 'student') {
-        const playerDoc = await getPlayer(playerId);
-        if (!playerDoc) {
-          console.warn('Player document does not exist, creating it...');
-          try {
-            await setDoc(doc(db, 'players', playerId), {
-              userId: playerId, // Must match request.auth.uid for Firestore rules
-              teamId: userData.teamId || '',
-              displayName: userData.displayName || '',
-              gamesPlayed: 0,
-              totalScore: 0,
-              totalQuestions: 0,
-              avgBuzzTime: 0,
-              correctBySubject: {},
-              createdAt: serverTimestamp(),
-            });
-            console.log('Player document created successfully with userId:', playerId);
-          } catch (playerDocError: any) {
-            console.error('Failed to create player document:', playerDocError);
-            // Don't throw - we'll try again later when updating stats
-          }
-        } else if (playerDoc.userId !== playerId) {
-          // Fix userId if it doesn't match
-          console.warn('Player document userId mismatch, fixing...', {
-            currentUserId: playerDoc.userId,
-            expectedUserId: playerId,
-          });
-          try {
-            await setDoc(doc(db, 'players', playerId), {
-              userId: playerId, // Ensure userId matches auth uid
-            }, { merge: true });
-            console.log('Player document userId fixed');
-          } catch (fixError: any) {
-            console.error('Failed to fix player document userId:', fixError);
-          }
-        }
-      }
-      
-      // Log authentication details for debugging
-      console.log('Authentication check:', {
-        currentUserUid: currentUser.uid,
-        currentAuthUserUid: currentAuthUser?.uid,
-        userDataUid: userData.uid,
-        matchHistoryPlayerId: matchHistory.playerId,
-        authMatch: currentUser.uid === matchHistory.playerId,
-        authTokenExists: !!currentAuthUser,
-        teamId: userData.teamId,
-        userDocExists: !!userDoc,
-        userDocRole: userDoc?.role,
-      });
-      
-      // Verify playerId is a non-empty string
-      if (!matchHistory.playerId || typeof matchHistory.playerId !== 'string') {
-        throw new Error('Invalid playerId: must be a non-empty string');
-      }
-      
-      // Verify playerId matches auth uid exactly
-      if (matchHistory.playerId !== currentAuthUser.uid) {
-        throw new Error(`PlayerId mismatch: ${matchHistory.playerId} !== ${currentAuthUser.uid}`);
-      }
-      
-      console.log('Creating match history with data:', {
-        ...matchHistory,
-        playerId: matchHistory.playerId,
-        teamId: matchHistory.teamId || 'undefined (will be omitted)',
-      });
-      
-      // Double-check auth before writing
-      const finalAuthCheck = auth.currentUser;
-      if (!finalAuthCheck || finalAuthCheck.uid !== matchHistory.playerId) {
-        throw new Error(`Final auth check failed: ${finalAuthCheck?.uid} !== ${matchHistory.playerId}`);
-      }
-      
-      console.log('Final auth verification passed, creating match history...');
-      await createMatchHistory(matchHistory);
-      console.log('Match history created successfully!');
-      
-      // Get current player stats to calculate increments
-      // Use playerId (currentUser.uid) to ensure consistency
-      let currentPlayer = await getPlayer(playerId);
-      
-      // If player document doesn't exist, create it first
-      if (!currentPlayer) {
-        console.warn('Player document does not exist, creating it before updating stats...');
-        try {
-          await setDoc(doc(db, 'players', playerId), {
-            userId: playerId, // Critical: must match request.auth.uid for rules
-            teamId: userData.teamId || '',
-            displayName: userData.displayName || '',
-            gamesPlayed: 0,
-            totalScore: 0,
-            totalQuestions: 0,
-            avgBuzzTime: 0,
-            correctBySubject: {},
-            createdAt: serverTimestamp(),
-          });
-          console.log('Player document created successfully');
-          // Re-fetch to get the created document
-          currentPlayer = await getPlayer(playerId);
-        } catch (playerCreateError: any) {
-          console.error('Failed to create player document:', playerCreateError);
-          throw new Error(`Cannot create player document: ${playerCreateError.message}`);
-        }
-      }
-      
-      // Verify player document has userId field matching auth uid
-      if (currentPlayer && currentPlayer.userId !== playerId) {
-        console.warn('Player document userId mismatch, fixing...');
-        try {
-          await setDoc(doc(db, 'players', playerId), {
-            ...currentPlayer,
-            userId: playerId, // Ensure userId matches auth uid
-          }, { merge: true });
-          currentPlayer = await getPlayer(playerId);
-        } catch (fixError: any) {
-          console.error('Failed to fix player document:', fixError);
-        }
-      }
-      
-      const currentGamesPlayed = currentPlayer?.gamesPlayed || 0;
-      const currentTotalScore = currentPlayer?.totalScore || 0;
-      const currentTotalQuestions = currentPlayer?.totalQuestions || 0;
-      const currentCorrectBySubject = currentPlayer?.correctBySubject || {};
-      
-      // Calculate new averages
-      const newGamesPlayed = currentGamesPlayed + 1;
-      const newTotalScore = currentTotalScore + finalPlayerScore;
-      const newTotalQuestions = currentTotalQuestions + questions.length;
-      const newAvgBuzzTime = buzzTimes.length > 0
-        ? ((currentPlayer?.avgBuzzTime || 0) * currentGamesPlayed + avgBuzzTime) / newGamesPlayed
-        : currentPlayer?.avgBuzzTime || 0;
-      
-      // Merge correctBySubject
-      const mergedCorrectBySubject = { ...currentCorrectBySubject };
-      Object.entries(correctBySubject).forEach(([subject, count]) => {
-        mergedCorrectBySubject[subject] = (mergedCorrectBySubject[subject] || 0) + count;
-      });
-
-      console.log('Updating player stats:', {
-        playerId,
-        playerUserId: currentPlayer?.userId,
-        authUid: currentAuthUser.uid,
-        userIdMatch: currentPlayer?.userId === currentAuthUser.uid,
-      });
-
-      await updatePlayerStats(playerId, {
-        gamesPlayed: newGamesPlayed,
-        totalScore: newTotalScore,
-        totalQuestions: newTotalQuestions,
-        avgBuzzTime: parseFloat(newAvgBuzzTime.toFixed(2)),
-        correctBySubject: mergedCorrectBySubject,
-      });
-      
-      console.log('Player stats updated successfully!');
-
-      // If this is a match (not practice), check if all players have completed
-      if (matchGameId && gameType === 'match') {
-        try {
-          // Get the game to check player list
-          const gameData = await getGame(matchGameId);
-          if (!gameData) {
-            console.error('Game data not found for match:', matchGameId);
-            throw new Error('Game not found');
-          }
-          
-          if (!gameData.playerIds || gameData.playerIds.length === 0) {
-            console.error('No playerIds found in game data');
-            throw new Error('No players in match');
-          }
-          
-          // Include current player in completed set since we just created their match history
-          const completedPlayerIds = new Set([playerId]);
-          
-          // Get all match histories for this game (with retry to account for eventual consistency)
-          let allMatchHistories: MatchHistory[] = [];
-          try {
-            allMatchHistories = await getMatchHistoriesByGameId(matchGameId);
-          } catch (err) {
-            console.warn('Error fetching match histories, will retry:', err);
-          }
-          
-          // Add all players from match histories to completed set
-          allMatchHistories.forEach(mh => completedPlayerIds.add(mh.playerId));
-          
-          // If we don't see the current player's match history yet, wait a bit and retry
-          // This handles Firestore's eventual consistency
-          if (!allMatchHistories.some(mh => mh.playerId === playerId)) {
-            console.log('Match history not yet visible in query, waiting and retrying...');
-            await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-            try {
-              allMatchHistories = await getMatchHistoriesByGameId(matchGameId);
-              allMatchHistories.forEach(mh => completedPlayerIds.add(mh.playerId));
-            } catch (err) {
-              console.warn('Error on retry fetching match histories:', err);
-              // Continue anyway since we already have current player in the set
-            }
-          }
-          
-          // Check if all players have completed
-          // Since we always include the current player, if there's only one player, this will be true
-          const allPlayersCompleted = gameData.playerIds.every(pId => completedPlayerIds.has(pId));
-          
-          console.log('Match completion check:', {
-            gameId: matchGameId,
-            currentPlayerId: playerId,
-            totalPlayers: gameData.playerIds.length,
-            playerIds: gameData.playerIds,
-            completedPlayers: Array.from(completedPlayerIds),
-            allPlayersCompleted,
-            gameStatus: gameData.status,
-            matchHistoriesFound: allMatchHistories.length
-          });
-          
-          if (allPlayersCompleted) {
-            if (gameData.status !== 'completed') {
-              // All players completed - update game status and send notifications
-              console.log('All players completed! Completing match and sending notifications...');
-              await updateGame(matchGameId, {
-                status: 'completed',
-                endedAt: new Date(),
-              });
-              
-              // Get team info to find coach
-              let coachId: string | undefined;
-              try {
-                if (gameData.teamId) {
-                  const team = await getTeam(gameData.teamId);
-                  coachId = team?.coachId;
-                } else if (gameData.coachId) {
-                  coachId = gameData.coachId;
-                }
-              } catch (err) {
-                console.warn('Error fetching team/coach info:', err);
-              }
-              
-              // Create notification for coach
-              if (coachId) {
-                try {
-                  await createNotification({
-                    userId: coachId,
-                    type: 'match_end',
-                    title: 'End of Match',
-                    message: `Match ${gameData.matchIdCode || matchGameId.substring(0, 6).toUpperCase()} has ended. All players have completed.`,
-                    gameId: matchGameId,
-                    teamId: gameData.teamId || userData.teamId,
-                    read: false,
-                  });
-                } catch (err) {
-                  console.warn('Error creating coach notification:', err);
-                }
-              }
-              
-              // Create notifications for all students
-              for (const pId of gameData.playerIds) {
-                try {
-                  await createNotification({
-                    userId: pId,
-                    type: 'match_end',
-                    title: 'End of Match',
-                    message: `Match ${gameData.matchIdCode || matchGameId.substring(0, 6).toUpperCase()} has ended. View your results!`,
-                    gameId: matchGameId,
-                    teamId: gameData.teamId || userData.teamId,
-                    read: false,
-                  });
-                } catch (err) {
-                  console.warn(`Error creating notification for player ${pId}:`, err);
-                }
-              }
-            }
-            
-            // Navigate to match results (whether we just completed it or it was already completed)
-            console.log('Navigating to match results...');
-            navigate(`/match-results?gameId=${matchGameId}`);
-            return;
-          } else {
-            console.log('Not all players completed yet:', {
-              total: gameData.playerIds.length,
-              completed: completedPlayerIds.size,
-              missing: gameData.playerIds.filter(id => !completedPlayerIds.has(id))
-            });
-          }
-        } catch (error: any) {
-          console.error('Error checking match completion:', error);
-          console.error('Error details:', {
-            message: error?.message,
-            code: error?.code,
-            stack: error?.stack
-          });
-          // If there's an error, we can't determine completion status
-          // But since we know the current player just completed, if there's only one player,
-          // we should still complete the match
-          try {
-            const gameData = await getGame(matchGameId);
-            if (gameData && gameData.playerIds && gameData.playerIds.length === 1 && gameData.playerIds[0] === playerId) {
-              // Only one player and it's the current player - complete the match
-              console.log('Single player match detected, completing despite error...');
-              await updateGame(matchGameId, {
-                status: 'completed',
-                endedAt: new Date(),
-              });
-              
-              // Get coach and send notifications
-              let coachId: string | undefined;
-              if (gameData.teamId) {
-                const team = await getTeam(gameData.teamId);
-                coachId = team?.coachId;
-              } else if (gameData.coachId) {
-                coachId = gameData.coachId;
-              }
-              
-              if (coachId) {
-                await createNotification({
-                  userId: coachId,
-                  type: 'match_end',
-                  title: 'End of Match',
-                  message: `Match ${gameData.matchIdCode || matchGameId.substring(0, 6).toUpperCase()} has ended.`,
-                  gameId: matchGameId,
-                  teamId: gameData.teamId || userData.teamId,
-                  read: false,
-                });
-              }
-              
-              await createNotification({
-                userId: playerId,
-                type: 'match_end',
-                title: 'End of Match',
-                message: `Match ${gameData.matchIdCode || matchGameId.substring(0, 6).toUpperCase()} has ended. View your results!`,
-                gameId: matchGameId,
-                teamId: gameData.teamId || userData.teamId,
-                read: false,
-              });
-              
-              navigate(`/match-results?gameId=${matchGameId}`);
-              return;
-            }
-          } catch (fallbackError) {
-            console.error('Error in fallback completion check:', fallbackError);
-          }
-          // Continue with normal flow if we can't complete the match
-        }
-      }
-
-      // For practice mode or if not all players completed, show normal completion message
-      if (gameType === 'practice') {
-        alert(`Practice Complete! Final Score: ${finalPlayerScore}/${questions.length}`);
-        onBack();
+      // The writeMatchStats Cloud Function judges each attempt against the game's
+      // questions, writes the answer log and matchHistory, updates player stats
+      // and completes the practice game
+      console.log('Recording match stats:', matchStats);
+      const { data: result } = await writeMatchStats(matchStats);
+      console.log('Match stats recorded:', result);
+
+      if (timeLimitMinutes) {
+        alert(`Time's up! You got ${result.score} correct (${result.points} points) in ${timeLimitMinutes} minute${timeLimitMinutes !== 1 ? 's' : ''}.${
+          result.personalBest ? '\n\nNew personal best!' : ''
+        }`);
       } else {
-        // For matches, if we reach here, it means not all players completed yet
-        // But we should still check one more time after a short delay in case of eventual consistency
-        if (matchGameId) {
-          setTimeout(async () => {
-            try {
-              const gameData = await getGame(matchGameId);
-              if (gameData && gameData.status === 'completed') {
-                // Match was completed by another player or eventual consistency caught up, navigate to results
-                navigate(`/match-results?gameId=${matchGameId}`);
-                return;
-              }
-            } catch (error) {
-              console.error('Error checking match status:', error);
-            }
-          }, 2000); // Wait 2 seconds before showing waiting message
-        }
-        alert(`Match Complete! Final Score: ${finalPlayerScore}/${questions.length}\nWaiting for other players to finish...`);
-        onBack();
+        alert(`Practice Complete! ${result.score}/${questions.length} correct for ${result.points} points`);
       }
+      onBack();
     } catch (error: any) {
       console.error('Error saving match history:', error);
       console.error('Error code:', error?.code);
       console.error('Error message:', error?.message);
-      console.error('Error stack:', error?.stack);
-      console.error('Match history data:', matchHistory);
-      console.error('Auth state at error:', {
-        currentUser: !!currentUser,
-        currentUserUid: currentUser?.uid,
-        currentAuthUser: !!currentAuthUser,
-        currentAuthUserUid: currentAuthUser?.uid,
-        userData: !!userData,
-        userDataUid: userData?.uid,
-      });
-      
+      console.error('Match stats data:', matchStats);
+
+      // Callable errors are prefixed with "functions/" (e.g. functions/permission-denied)
+      const errorCode = typeof error?.code === 'string' ? error.code.replace('functions/', '') : undefined;
+
       // Provide more specific error message based on error code
       let errorMessage = 'Unknown error occurred';
-      if (error?.code === 'permission-denied') {
+      if (errorCode === 'permission-denied') {
         errorMessage = 'Permission denied. Please ensure you are logged in and your account is properly set up.';
-      } else if (error?.code === 'unauthenticated') {
+      } else if (errorCode === 'unauthenticated') {
         errorMessage = 'You are not authenticated. Please log in and try again.';
       } else if (error?.message) {
         errorMessage = error.message;
       }
-      
-      alert(`Game completed but failed to save results.\n\nError: ${errorMessage}\n\nYour score: ${finalPlayerScore}/${questions.length}`);
+
+      alert(`Game completed but failed to save results.\n\nError: ${errorMessage}\n\nYour score: ${finalScore}/${questions.length}`);
       onBack();
     }
   };
@@ -1048,9 +777,19 @@ export const PracticeMode: React.FC<PracticeModeProps> = ({
       )}
 
       <div className="absolute top-8 right-8 bg-purple-950/80 border-2 border-cyan-400 px-6 py-3 rounded-full">
-        <span className="text-cyan-400 font-black text-2xl">SCORE: {playerScore}</span>
+        <span className="text-cyan-400 font-black text-2xl">SCORE: {playerPoints}</span>
       </div>
 
+      {clockRemaining !== null && (
+        <div className={`absolute top-24 right-8 bg-purple-950/80 border-2 px-6 py-3 rounded-full ${
+          clockRemaining <= 10 ? 'border-red-500' : 'border-yellow-500'
+        }`}>
+          <span className={`font-black text-2xl ${clockRemaining <= 10 ? 'text-red-500 animate-pulse' : 'text-yellow-500'}`}>
+            CLOCK: {Math.floor(clockRemaining / 60)}:{String(clockRemaining % 60).padStart(2, '0')}
+          </span>
+        </div>
+      )}
+
       <div className="relative w-40 h-40 flex items-center justify-center mb-6">
         <svg className="w-full h-full transform -rotate-90">
           <circle cx="80" cy="80" r={60} stroke="#1A0D3E" strokeWidth="12" fill="none" />
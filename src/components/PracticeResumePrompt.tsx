@@ -0,0 +1,61 @@
+import React from 'react';
+import { Game } from '../types/firebase';
+
+interface PracticeResumePromptProps {
+  game: Game;
+  busy: boolean;
+  onResume: () => void;
+  onAbandon: () => void;
+}
+
+// Offered on /practice-mode when the player left a practice session unfinished
+export const PracticeResumePrompt: React.FC<PracticeResumePromptProps> = ({ game, busy, onResume, onAbandon }) => {
+  const progress = game.progress;
+  const answered = progress?.attempts.length ?? 0;
+
+  return (
+    <div
+      className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+      style={{
+        backgroundImage: 'url(/Environments/Olympus Arena.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <div className="absolute inset-0 flex flex-col items-center justify-center px-4 overflow-auto">
+        <div className="bg-purple-900 border-4 border-cyan-400 rounded-3xl p-12 max-w-md w-full text-center">
+          <h2 className="text-3xl font-black text-white mb-4">Unfinished Practice</h2>
+          <p className="text-white/70 mb-2">
+            {game.subtype === 'timed'
+              ? `You were in the middle of a ${game.timeLimitMinutes}-minute sprint.`
+              : `You were on question ${(progress?.nextQuestionIndex ?? 0) + 1} of ${game.questionIds.length}.`}
+          </p>
+          <p className="text-cyan-400 font-bold mb-2">
+            {progress?.score ?? 0}/{answered} correct · {progress?.points ?? 0} points
+          </p>
+          <p className="text-white/50 text-sm mb-6">
+            Last played {progress?.updatedAt.toLocaleString() ?? game.startedAt.toLocaleString()}.
+            {game.subtype === 'timed' && ' The sprint clock kept running while you were away.'}
+            {' '}Abandoning records what you answered as a partial result.
+          </p>
+          <div className="flex flex-col gap-3">
+            <button
+              onClick={onResume}
+              disabled={busy}
+              className="w-full bg-yellow-500 hover:bg-orange-500 disabled:opacity-50 text-black font-black text-xl py-4 rounded-xl"
+            >
+              RESUME
+            </button>
+            <button
+              onClick={onAbandon}
+              disabled={busy}
+              className="w-full bg-purple-950 hover:bg-purple-800 disabled:opacity-50 border-2 border-red-500 text-red-300 font-black text-xl py-4 rounded-xl"
+            >
+              {busy ? 'SAVING...' : 'ABANDON'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
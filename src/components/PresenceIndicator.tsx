@@ -0,0 +1,22 @@
+import React from 'react';
+import { isPresenceOnline } from '../hooks/usePresence';
+import { MatchPresence } from '../types/firebase';
+
+interface PresenceIndicatorProps {
+  presence?: MatchPresence;
+  now: number;
+}
+
+// Online/offline dot for a player in a match lobby or live match
+export const PresenceIndicator: React.FC<PresenceIndicatorProps> = ({ presence, now }) => {
+  const online = isPresenceOnline(presence, now);
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs font-bold ${online ? 'text-green-400' : 'text-white/50'}`}
+      title={presence ? `Last seen ${presence.lastSeen.toLocaleTimeString()}` : 'Not connected yet'}
+    >
+      <span className={`w-2 h-2 rounded-full ${online ? 'bg-green-400' : 'bg-white/30'}`} />
+      {online ? 'Online' : 'Offline'}
+    </span>
+  );
+};
@@ -3,6 +3,7 @@ import { useAuth } from '../context/AuthContext';
 import { useQuestions } from '../context/QuestionsContext';
 import { createQuestion, updateQuestion, deleteQuestion } from '../services/firestore';
 import { Question } from '../types/firebase';
+import { QuestionStatsPanel } from './QuestionStatsPanel';
 import { Settings, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface QuestionEditorProps {
@@ -997,6 +998,7 @@ export const QuestionEditor: React.FC<QuestionEditorProps> = ({ onBack }) => {
                   </div>
                 ))}
               </div>
+              <QuestionStatsPanel question={q} />
             </div>
           ))}
         </div>
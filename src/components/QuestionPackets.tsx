@@ -0,0 +1,446 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, ArrowUp, ArrowDown, BookOpen, ChevronDown, ChevronRight, Copy, Pencil, Play, Plus, Trash2, Users, X } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useQuestions } from '../context/QuestionsContext';
+import { createPacket, deletePacket, getPacketsByTeam, getPlayersByTeam, updatePacket } from '../services/firestore';
+import { Packet, Player } from '../types/firebase';
+import { MAX_PACKET_QUESTIONS, countPacketSubjects, formatSubjectMix } from '../util/packets';
+import { PacketBuilder } from './PacketBuilder';
+
+interface QuestionPacketsProps {
+  onBack: () => void;
+  onUseInMatch: (packetId: string) => void;
+  onPractice: (packetId: string) => void;
+}
+
+type PacketLevel = '' | 'EL' | 'MS' | 'HS';
+
+/**
+ * The team's saved question packets: build and edit ordered question lists,
+ * duplicate them, load them into a new match or practice session, and see
+ * which students have played each one.
+ */
+export const QuestionPackets: React.FC<QuestionPacketsProps> = ({ onBack, onUseInMatch, onPractice }) => {
+  const { userData } = useAuth();
+  const { questions: allQuestions } = useQuestions();
+  const [packets, setPackets] = useState<Packet[]>([]);
+  const [roster, setRoster] = useState<Player[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [expandedPacketId, setExpandedPacketId] = useState<string | null>(null);
+  // null while browsing; '' for a new packet, otherwise the packet being edited
+  const [editingPacketId, setEditingPacketId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [level, setLevel] = useState<PacketLevel>('');
+  const [notes, setNotes] = useState('');
+  const [questionIds, setQuestionIds] = useState<string[]>([]);
+  const [subjectFilter, setSubjectFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [showBuilder, setShowBuilder] = useState(false);
+
+  const loadPackets = async () => {
+    if (!userData?.teamId) {
+      setLoading(false);
+      return;
+    }
+    try {
+      setLoading(true);
+      const [teamPackets, players] = await Promise.all([
+        getPacketsByTeam(userData.teamId),
+        getPlayersByTeam(userData.teamId),
+      ]);
+      setPackets(teamPackets);
+      setRoster(players);
+    } catch (error) {
+      console.error('Error loading packets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPackets();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userData]);
+
+  const questionById = new Map(allQuestions.map((q) => [q.id, q]));
+  const availableQuestions = allQuestions.filter(
+    (q) =>
+      !questionIds.includes(q.id) &&
+      (!subjectFilter || q.subjectArea === subjectFilter) &&
+      (!level || q.level === level) &&
+      (!search.trim() || q.questionText.toLowerCase().includes(search.trim().toLowerCase()))
+  );
+
+  const openEditor = (packet?: Packet) => {
+    setEditingPacketId(packet?.id ?? '');
+    setName(packet?.name ?? '');
+    setLevel(packet?.level ?? '');
+    setNotes(packet?.notes ?? '');
+    setQuestionIds(packet?.questionIds ?? []);
+    setSubjectFilter('');
+    setSearch('');
+    setShowBuilder(!packet);
+  };
+
+  // A built set replaces the packet's questions; the constraints and seed go in the notes
+  const handleBuilt = (builtQuestionIds: string[], description: string) => {
+    if (questionIds.length > 0 && !window.confirm('Replace the questions in this packet with the built set?')) return;
+    setQuestionIds(builtQuestionIds);
+    setNotes((prev) => (prev.trim() ? `${prev.trim()}\nBuilt from: ${description}` : `Built from: ${description}`));
+    setShowBuilder(false);
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    setQuestionIds((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const addQuestion = (questionId: string) => {
+    if (questionIds.length >= MAX_PACKET_QUESTIONS) {
+      alert(`A packet can hold at most ${MAX_PACKET_QUESTIONS} questions`);
+      return;
+    }
+    setQuestionIds((prev) => [...prev, questionId]);
+  };
+
+  const handleSave = async () => {
+    if (!userData?.teamId || editingPacketId === null) return;
+    if (!name.trim()) {
+      alert('Please name the packet');
+      return;
+    }
+    if (questionIds.length === 0) {
+      alert('Please add at least one question');
+      return;
+    }
+
+    const fields = {
+      name: name.trim(),
+      questionIds,
+      subjectCounts: countPacketSubjects(questionIds, allQuestions),
+      level: level || undefined,
+      notes: notes.trim() || undefined,
+    };
+    try {
+      setSaving(true);
+      if (editingPacketId) {
+        await updatePacket(editingPacketId, fields);
+      } else {
+        await createPacket({ ...fields, teamId: userData.teamId, coachId: userData.uid });
+      }
+      setEditingPacketId(null);
+      await loadPackets();
+    } catch (error) {
+      console.error('Error saving packet:', error);
+      alert(`Failed to save packet${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDuplicate = async (packet: Packet) => {
+    if (!userData?.teamId) return;
+    try {
+      await createPacket({
+        name: `${packet.name} (Copy)`,
+        teamId: userData.teamId,
+        coachId: userData.uid,
+        questionIds: packet.questionIds,
+        subjectCounts: packet.subjectCounts,
+        level: packet.level,
+        notes: packet.notes,
+      });
+      await loadPackets();
+    } catch (error) {
+      console.error('Error duplicating packet:', error);
+      alert(`Failed to duplicate packet${error instanceof Error ? `: ${error.message}` : ''}`);
+    }
+  };
+
+  const handleDelete = async (packet: Packet) => {
+    if (!window.confirm(`Delete "${packet.name}"? Matches already played from it keep their questions.`)) return;
+    try {
+      await deletePacket(packet.id);
+      setPackets((prev) => prev.filter((p) => p.id !== packet.id));
+    } catch (error) {
+      console.error('Error deleting packet:', error);
+      alert(`Failed to delete packet${error instanceof Error ? `: ${error.message}` : ''}`);
+    }
+  };
+
+  const nameOf = (playerId: string) => roster.find((p) => p.userId === playerId)?.displayName || 'Former player';
+
+  return (
+    <div
+      className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+      style={{
+        backgroundImage: 'url(/Environments/Coach%20Panel.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <div className="inset-0 flex flex-col items-center justify-center px-4 overflow-auto py-8">
+        <button
+          onClick={editingPacketId !== null ? () => setEditingPacketId(null) : onBack}
+          className="absolute top-4 left-4 p-2 bg-yellow-500 hover:bg-orange-500 rounded-full transition-colors z-20 shadow-lg"
+        >
+          <ArrowLeft className="w-6 h-6 text-black" />
+        </button>
+
+        <div className="bg-purple-900 border-4 border-cyan-400 rounded-3xl p-12 max-w-4xl w-full">
+          <div className="flex items-center justify-between mb-8 border-b border-cyan-400/30 pb-6">
+            <div className="flex items-center">
+              <BookOpen className="text-cyan-400 mr-4" size={48} />
+              <h1 className="text-4xl font-black text-white">QUESTION PACKETS</h1>
+            </div>
+            {editingPacketId === null && (
+              <button
+                onClick={() => openEditor()}
+                className="bg-yellow-500 hover:bg-orange-500 text-black font-black py-3 px-6 rounded-xl flex items-center gap-2"
+              >
+                <Plus className="w-5 h-5" />
+                NEW PACKET
+              </button>
+            )}
+          </div>
+
+          {editingPacketId !== null ? (
+            <div className="space-y-6">
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30 grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-cyan-400 text-sm font-bold uppercase mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Regionals Warm-Up 1"
+                    className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30 placeholder-white/40"
+                  />
+                </div>
+                <div>
+                  <label className="block text-cyan-400 text-sm font-bold uppercase mb-2">Level</label>
+                  <select
+                    value={level}
+                    onChange={(e) => setLevel(e.target.value as PacketLevel)}
+                    className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30"
+                  >
+                    <option value="">Any Level</option>
+                    <option value="EL">Elementary</option>
+                    <option value="MS">Middle School</option>
+                    <option value="HS">High School</option>
+                  </select>
+                </div>
+                <div className="col-span-3">
+                  <label className="block text-cyan-400 text-sm font-bold uppercase mb-2">Notes</label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={2}
+                    placeholder="What this packet is for"
+                    className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30 placeholder-white/40"
+                  />
+                </div>
+              </div>
+
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <button
+                  onClick={() => setShowBuilder(!showBuilder)}
+                  className="text-cyan-400 hover:text-white text-sm font-bold uppercase flex items-center gap-1"
+                >
+                  {showBuilder ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  Build From Constraints
+                </button>
+                {showBuilder && (
+                  <div className="mt-4">
+                    <PacketBuilder questions={allQuestions} teamId={userData?.teamId} onBuilt={handleBuilt} />
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <label className="block text-cyan-400 text-sm font-bold uppercase mb-1">
+                  Packet Questions ({questionIds.length})
+                </label>
+                <p className="text-white/50 text-xs mb-4">
+                  {formatSubjectMix(countPacketSubjects(questionIds, allQuestions)) || 'Add questions from the list below.'}
+                </p>
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {questionIds.map((questionId, index) => (
+                    <div key={questionId} className="bg-purple-900 rounded p-2 text-sm text-white flex items-center gap-2">
+                      <span className="text-yellow-400 font-bold w-6">{index + 1}.</span>
+                      <span className="text-cyan-400 text-xs font-bold w-6">{questionById.get(questionId)?.subjectArea}</span>
+                      <span className="truncate flex-1">
+                        {questionById.get(questionId)?.questionText || 'Question no longer available'}
+                      </span>
+                      <button
+                        onClick={() => moveQuestion(index, -1)}
+                        disabled={index === 0}
+                        className="text-cyan-400 hover:text-white disabled:opacity-30"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveQuestion(index, 1)}
+                        disabled={index === questionIds.length - 1}
+                        className="text-cyan-400 hover:text-white disabled:opacity-30"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setQuestionIds((prev) => prev.filter((id) => id !== questionId))}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">
+                  Add Questions ({availableQuestions.length} available)
+                </label>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <select
+                    value={subjectFilter}
+                    onChange={(e) => setSubjectFilter(e.target.value)}
+                    className="bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30"
+                  >
+                    <option value="">All Subjects</option>
+                    <option value="SS">Social Studies</option>
+                    <option value="SC">Science</option>
+                    <option value="LA">Language Arts</option>
+                    <option value="MA">Math</option>
+                    <option value="AH">Arts & Humanities</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search question text"
+                    className="bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30 placeholder-white/40"
+                  />
+                </div>
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {availableQuestions.slice(0, 100).map((q) => (
+                    <button
+                      key={q.id}
+                      onClick={() => addQuestion(q.id)}
+                      className="w-full bg-purple-900 hover:bg-purple-800 rounded p-2 text-sm text-white flex items-center gap-2 text-left"
+                    >
+                      <Plus className="w-4 h-4 text-green-400 flex-shrink-0" />
+                      <span className="text-cyan-400 text-xs font-bold w-6">{q.subjectArea}</span>
+                      <span className="truncate flex-1">{q.questionText}</span>
+                    </button>
+                  ))}
+                </div>
+                {availableQuestions.length > 100 && (
+                  <p className="text-white/50 text-xs mt-2">Showing the first 100; filter or search to narrow the list.</p>
+                )}
+              </div>
+
+              <div className="flex gap-4 pt-6 border-t border-cyan-400/30">
+                <button
+                  onClick={() => setEditingPacketId(null)}
+                  className="flex-1 bg-purple-950 text-white/70 hover:text-white font-bold py-3 rounded-xl border-2 border-white/20"
+                >
+                  CANCEL
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 bg-yellow-500 hover:bg-orange-500 text-black font-black py-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'SAVING...' : 'SAVE PACKET'}
+                </button>
+              </div>
+            </div>
+          ) : loading ? (
+            <div className="text-white text-center py-8">Loading packets...</div>
+          ) : packets.length === 0 ? (
+            <div className="text-center text-white/50 py-8">
+              <BookOpen className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No packets yet. Build one to reuse a question set across matches and practice.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {packets.map((packet) => {
+                const plays = Object.entries(packet.plays || {}).sort(
+                  ([, a], [, b]) => b.lastPlayedAt.getTime() - a.lastPlayedAt.getTime()
+                );
+                return (
+                  <div key={packet.id} className="bg-purple-950 rounded-xl p-4 border-2 border-cyan-400/30">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="text-white font-bold text-lg">{packet.name}</div>
+                        <div className="text-white/50 text-sm">
+                          {packet.questionIds.length} questions
+                          {packet.level && ` · ${packet.level}`}
+                          {Object.keys(packet.subjectCounts || {}).length > 0 && ` · ${formatSubjectMix(packet.subjectCounts)}`}
+                        </div>
+                        {packet.notes && <div className="text-white/70 text-sm mt-1">{packet.notes}</div>}
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => onUseInMatch(packet.id)}
+                          className="bg-green-500 hover:bg-green-600 text-white text-xs font-bold px-3 py-2 rounded flex items-center gap-1"
+                        >
+                          <Play className="w-3 h-3" />
+                          MATCH
+                        </button>
+                        <button
+                          onClick={() => onPractice(packet.id)}
+                          className="bg-cyan-500 hover:bg-cyan-400 text-white text-xs font-bold px-3 py-2 rounded"
+                        >
+                          PRACTICE
+                        </button>
+                        <button onClick={() => openEditor(packet)} className="text-cyan-400 hover:text-white p-2" title="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDuplicate(packet)} className="text-cyan-400 hover:text-white p-2" title="Duplicate">
+                          <Copy className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDelete(packet)} className="text-red-400 hover:text-red-300 p-2" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setExpandedPacketId(expandedPacketId === packet.id ? null : packet.id)}
+                      className="mt-2 text-cyan-400 hover:text-white text-xs font-bold flex items-center gap-1"
+                    >
+                      <Users className="w-3 h-3" />
+                      Played by {plays.length} student{plays.length !== 1 ? 's' : ''}
+                    </button>
+                    {expandedPacketId === packet.id && plays.length > 0 && (
+                      <div className="mt-2 space-y-1">
+                        {plays.map(([playerId, play]) => (
+                          <div key={playerId} className="grid grid-cols-4 gap-2 text-sm bg-purple-900 rounded px-3 py-1">
+                            <span className="text-white font-bold truncate">{nameOf(playerId)}</span>
+                            <span className="text-white/70">
+                              {play.count} time{play.count !== 1 ? 's' : ''}
+                            </span>
+                            <span className="text-white/70">
+                              Last: {play.lastScore}/{play.lastTotal} ({play.lastType})
+                            </span>
+                            <span className="text-white/50">{play.lastPlayedAt.toLocaleDateString()}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Question } from '../types/firebase';
+
+interface QuestionStatsPanelProps {
+  question: Question;
+}
+
+// Below this many attempts the numbers are shown but not flagged
+const MIN_FLAG_ATTEMPTS = 10;
+const TOO_EASY_PERCENT = 90;
+const TOO_HARD_PERCENT = 20;
+// A distractor nobody picks isn't doing its job
+const UNUSED_DISTRACTOR_RATE = 0.02;
+
+/**
+ * Item analytics for a question: percent correct, mean buzz point,
+ * discrimination and how often each distractor is picked, with flags for
+ * questions that look broken or too easy.
+ */
+export const QuestionStatsPanel: React.FC<QuestionStatsPanelProps> = ({ question }) => {
+  const stats = question.stats;
+
+  if (!stats || stats.attempts === 0) {
+    return <div className="mt-3 text-white/40 text-xs">No attempts recorded yet</div>;
+  }
+
+  const pickRate = (answer: string) =>
+    stats.answered > 0 ? (stats.answerCounts[answer] || 0) / stats.answered : 0;
+
+  const flags: string[] = [];
+  if (stats.attempts >= MIN_FLAG_ATTEMPTS) {
+    if (stats.percentCorrect >= TOO_EASY_PERCENT) {
+      flags.push('Too easy');
+    }
+    if (stats.percentCorrect <= TOO_HARD_PERCENT) {
+      flags.push('Rarely answered correctly - check the answer key');
+    }
+    if (stats.discrimination !== null && stats.discrimination < 0) {
+      flags.push('Stronger players miss this more often than weaker ones');
+    }
+    question.distractors
+      .filter((distractor) => pickRate(distractor) < UNUSED_DISTRACTOR_RATE)
+      .forEach((distractor) => flags.push(`"${distractor}" is almost never picked`));
+  }
+
+  return (
+    <div className="mt-3 bg-purple-900/60 border border-cyan-400/30 rounded p-3">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span className="text-cyan-400 font-bold uppercase text-xs self-center">Item Stats</span>
+        <span className="text-white">
+          <span className="text-white/50">Correct: </span>
+          <span className="font-bold">{stats.percentCorrect.toFixed(1)}%</span>
+          <span className="text-white/50"> of {stats.attempts}</span>
+        </span>
+        <span className="text-white">
+          <span className="text-white/50">Mean buzz point: </span>
+          <span className="font-bold">
+            {stats.meanBuzzPoint !== null ? `${Math.round(stats.meanBuzzPoint * 100)}% revealed` : '-'}
+          </span>
+        </span>
+        <span className="text-white">
+          <span className="text-white/50">Discrimination: </span>
+          <span className="font-bold">{stats.discrimination !== null ? stats.discrimination.toFixed(2) : '-'}</span>
+        </span>
+      </div>
+      {stats.answered > 0 && (
+        <div className="mt-2 flex flex-wrap gap-3 text-xs">
+          <span className="text-green-400">
+            {question.correctAnswer}: {Math.round(pickRate(question.correctAnswer) * 100)}%
+          </span>
+          {question.distractors.map((distractor, i) => (
+            <span key={i} className="text-red-400">
+              {distractor}: {Math.round(pickRate(distractor) * 100)}%
+            </span>
+          ))}
+        </div>
+      )}
+      {flags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {flags.map((flag) => (
+            <span key={flag} className="bg-orange-600 text-white px-2 py-0.5 rounded font-bold text-xs">
+              {flag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
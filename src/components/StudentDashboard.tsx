@@ -63,7 +63,7 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ onBack }) =>
       // Show the most recent unread notification
       if (newNotifications.length > 0) {
         const latestNotification = newNotifications[0];
-        if (latestNotification.type === 'match_end') {
+        if (latestNotification.type === 'match_end' || latestNotification.type === 'match_start') {
           setShowNotification(latestNotification);
         }
       }
@@ -74,14 +74,17 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ onBack }) =>
     return () => unsubscribe();
   }, [userData]);
 
-  // Handle notification click - navigate to match results
+  // Handle notification click - join an upcoming match or view results
   const handleNotificationClick = async (notification: Notification) => {
     if (notification.gameId) {
       // Mark as read
       await markNotificationAsRead(notification.id);
       setShowNotification(null);
-      // Navigate to match results
-      navigate(`/match-results?gameId=${notification.gameId}`);
+      if (notification.type === 'match_start') {
+        navigate('/match-join');
+      } else {
+        navigate(`/match-results?gameId=${notification.gameId}`);
+      }
     }
   };
 
@@ -239,7 +242,7 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ onBack }) =>
                   onClick={() => handleNotificationClick(showNotification)}
                   className="bg-black text-yellow-500 font-bold px-4 py-2 rounded-lg hover:bg-gray-800 transition-colors"
                 >
-                  VIEW RESULTS
+                  {showNotification.type === 'match_start' ? 'JOIN MATCH' : 'VIEW RESULTS'}
                 </button>
               )}
               <button
@@ -392,6 +395,12 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ onBack }) =>
           >
             CHANGE AVATAR
           </button>
+          <button
+            onClick={() => navigate('/tournaments')}
+            className="flex-1 bg-purple-950 hover:bg-purple-800 text-yellow-400 font-black text-xl py-4 rounded-xl border-2 border-yellow-500"
+          >
+            TOURNAMENTS
+          </button>
           <button onClick={onBack} className="flex-1 bg-yellow-500 hover:bg-orange-500 text-black font-black text-2xl py-4 rounded-xl">
             BACK TO LOBBY
           </button>
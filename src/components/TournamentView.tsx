@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Trophy, Play } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useTournament } from '../hooks/useTournament';
+import { startMatch } from '../services/functions';
+import { TournamentMatch } from '../types/firebase';
+import { TIEBREAKER_LABELS, TOURNAMENT_FORMAT_LABELS, getRoundName } from '../util/tournaments';
+
+interface TournamentViewProps {
+  tournamentId: string;
+  onBack: () => void;
+  onViewResults: (gameId: string) => void;
+  onJoinMatch: () => void;
+}
+
+/**
+ * A tournament's bracket (single elimination) or standings and schedule
+ * (round robin), updated live as matches finish. Coaches can begin a match
+ * from here; players see the join code for their own open match.
+ */
+export const TournamentView: React.FC<TournamentViewProps> = ({ tournamentId, onBack, onViewResults, onJoinMatch }) => {
+  const { userData } = useAuth();
+  const { tournament, loading } = useTournament(tournamentId);
+  const [startingGameId, setStartingGameId] = useState<string | null>(null);
+
+  const handleBegin = async (gameId: string) => {
+    try {
+      setStartingGameId(gameId);
+      await startMatch({ gameId });
+    } catch (error) {
+      console.error('Error beginning tournament match:', error);
+      alert(`Failed to begin match${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setStartingGameId(null);
+    }
+  };
+
+  const shell = (content: React.ReactNode) => (
+    <div
+      className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+      style={{
+        backgroundImage: 'url(/Environments/Lobby.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <div className="absolute inset-0 flex flex-col items-center px-4 py-8 overflow-auto">
+        <button
+          onClick={onBack}
+          className="absolute top-4 left-4 p-2 bg-yellow-500 hover:bg-orange-500 rounded-full transition-colors z-20 shadow-lg"
+        >
+          <ArrowLeft className="w-6 h-6 text-black" />
+        </button>
+        {content}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return shell(<div className="text-white text-2xl drop-shadow-lg mt-32">Loading tournament...</div>);
+  }
+
+  if (!tournament) {
+    return shell(
+      <div className="bg-purple-900 border-4 border-cyan-400 rounded-3xl p-12 max-w-md w-full text-center mt-32">
+        <h2 className="text-3xl font-black text-white mb-4">Not Found</h2>
+        <p className="text-white/70">This tournament doesn't exist or you don't have access to it.</p>
+      </div>
+    );
+  }
+
+  const isCoach = userData?.uid === tournament.coachId;
+  const nameOf = (playerId: string | null) => (playerId ? tournament.playerNames[playerId] || 'Player' : 'TBD');
+  const seedOf = (playerId: string) => tournament.playerIds.indexOf(playerId) + 1;
+  const rounds = Array.from({ length: tournament.rounds }, (_, index) => index + 1);
+
+  const renderMatch = (match: TournamentMatch) => {
+    const mine = !!userData && match.playerIds.includes(userData.uid);
+    return (
+      <div
+        key={match.id}
+        className={`bg-purple-950 rounded-xl p-3 border-2 ${mine ? 'border-yellow-500' : 'border-cyan-400/30'} min-w-[14rem]`}
+      >
+        {match.playerIds.map((playerId, index) => (
+          <div
+            key={`${match.id}-${index}`}
+            className={`flex items-center justify-between py-1 ${
+              match.winnerId && playerId === match.winnerId ? 'text-yellow-400 font-black' : 'text-white'
+            } ${match.winnerId && playerId !== match.winnerId ? 'opacity-50' : ''}`}
+          >
+            <span className="truncate">
+              {playerId && <span className="text-white/40 text-xs mr-1">{seedOf(playerId)}</span>}
+              {match.status === 'bye' && !playerId ? 'Bye' : nameOf(playerId)}
+            </span>
+            {playerId && match.scores && <span className="font-mono ml-2">{match.scores[playerId]}</span>}
+          </div>
+        ))}
+        {match.status === 'ready' && match.gameId && (
+          <div className="mt-2 pt-2 border-t border-cyan-400/20 flex items-center justify-between gap-2">
+            <span className="text-cyan-400 text-xs font-bold">
+              Code <span className="font-mono text-white">{match.matchIdCode}</span>
+            </span>
+            {isCoach ? (
+              <button
+                onClick={() => handleBegin(match.gameId as string)}
+                disabled={startingGameId === match.gameId}
+                className="bg-green-500 hover:bg-green-600 text-white text-xs font-bold px-2 py-1 rounded flex items-center gap-1 disabled:opacity-50"
+              >
+                <Play className="w-3 h-3" />
+                BEGIN
+              </button>
+            ) : mine && (
+              <button
+                onClick={onJoinMatch}
+                className="bg-yellow-500 hover:bg-orange-500 text-black text-xs font-bold px-2 py-1 rounded"
+              >
+                JOIN
+              </button>
+            )}
+          </div>
+        )}
+        {match.status === 'completed' && match.gameId && (
+          <button
+            onClick={() => onViewResults(match.gameId as string)}
+            className="mt-2 text-cyan-400 hover:text-white text-xs font-bold"
+          >
+            View results
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return shell(
+    <div className="bg-purple-900 border-4 border-cyan-400 rounded-3xl p-8 max-w-6xl w-full mt-8">
+      <div className="text-center mb-6">
+        <h2 className="text-4xl font-black text-white mb-2">{tournament.name}</h2>
+        <p className="text-cyan-400 font-bold">
+          {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.playerIds.length} players
+          {tournament.teamIds.length > 1 && ` · ${tournament.teamIds.map((id) => tournament.teamNames[id] || id).join(' vs ')}`}
+        </p>
+        <p className="text-white/50 text-xs mt-1">
+          Tiebreakers: {tournament.tiebreakers.map((tiebreaker) => TIEBREAKER_LABELS[tiebreaker]).join(', ')}
+        </p>
+      </div>
+
+      {tournament.status === 'completed' && tournament.championId && (
+        <div className="bg-yellow-500/20 border-2 border-yellow-500 rounded-xl p-4 mb-6 text-center">
+          <Trophy className="inline w-8 h-8 text-yellow-400 mr-2" />
+          <span className="text-yellow-400 text-2xl font-black">CHAMPION: {nameOf(tournament.championId)}</span>
+        </div>
+      )}
+
+      {tournament.format === 'single_elimination' ? (
+        <div className="flex gap-6 overflow-x-auto pb-4">
+          {rounds.map((round) => (
+            <div key={round} className="flex flex-col justify-around gap-4">
+              <h3 className="text-cyan-400 font-bold uppercase text-sm text-center">
+                {getRoundName(tournament.format, round, tournament.rounds)}
+              </h3>
+              {tournament.matches.filter((match) => match.round === round).map(renderMatch)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30 mb-6">
+            <h3 className="text-cyan-400 font-bold uppercase mb-4">Standings</h3>
+            <div className="grid grid-cols-6 gap-4 text-cyan-400 text-xs font-bold uppercase mb-2 px-2">
+              <div>Rank</div>
+              <div className="col-span-2">Player</div>
+              <div>W-L</div>
+              <div>Points</div>
+              <div>Avg Buzz</div>
+            </div>
+            {(tournament.standings || []).map((standing) => (
+              <div
+                key={standing.playerId}
+                className={`grid grid-cols-6 gap-4 items-center p-2 rounded-lg ${
+                  standing.playerId === userData?.uid ? 'bg-yellow-500/20' : ''
+                }`}
+              >
+                <div className="text-white font-black">#{standing.rank}</div>
+                <div className="col-span-2 text-white font-bold truncate">{nameOf(standing.playerId)}</div>
+                <div className="text-white font-mono">{standing.wins}-{standing.losses}</div>
+                <div className="text-white font-mono">{standing.totalScore}</div>
+                <div className="text-white font-mono">{standing.avgBuzzTime > 0 ? `${standing.avgBuzzTime}s` : '-'}</div>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-4">
+            {rounds.map((round) => (
+              <div key={round}>
+                <h3 className="text-cyan-400 font-bold uppercase text-sm mb-2">
+                  {getRoundName(tournament.format, round, tournament.rounds)}
+                </h3>
+                <div className="flex flex-wrap gap-4">
+                  {tournament.matches.filter((match) => match.round === round).map(renderMatch)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, ArrowUp, ArrowDown, Trophy, Plus } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { useQuestions } from '../context/QuestionsContext';
+import { getPlayersByTeam, getTournamentsByTeam } from '../services/firestore';
+import { createTournament } from '../services/functions';
+import { Player, Tournament, TournamentFormat, TournamentTiebreaker } from '../types/firebase';
+import { shuffle } from '../util/practiceSelection';
+import {
+  DEFAULT_TIEBREAKERS,
+  MAX_TOURNAMENT_QUESTION_POOL,
+  TIEBREAKER_LABELS,
+  TOURNAMENT_FORMAT_LABELS,
+} from '../util/tournaments';
+
+interface TournamentsProps {
+  onBack: () => void;
+  onOpenTournament: (tournamentId: string) => void;
+}
+
+/**
+ * The team's tournaments, and for coaches a form to start a new one: pick the
+ * format and players, the questions per match and the order of tiebreakers.
+ * Seeding and match pairings are done by the server.
+ */
+export const Tournaments: React.FC<TournamentsProps> = ({ onBack, onOpenTournament }) => {
+  const { userData } = useAuth();
+  const { questions: allQuestions } = useQuestions();
+  const isCoach = userData?.role === 'coach';
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [roster, setRoster] = useState<Player[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('single_elimination');
+  const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>([]);
+  const [opponentTeamId, setOpponentTeamId] = useState('');
+  const [questionsPerMatch, setQuestionsPerMatch] = useState(10);
+  const [subjectFilter, setSubjectFilter] = useState('');
+  const [tiebreakers, setTiebreakers] = useState<TournamentTiebreaker[]>(DEFAULT_TIEBREAKERS);
+
+  useEffect(() => {
+    const loadTournaments = async () => {
+      if (!userData?.teamId) {
+        setLoading(false);
+        return;
+      }
+      try {
+        setLoading(true);
+        const [teamTournaments, players] = await Promise.all([
+          getTournamentsByTeam(userData.teamId),
+          isCoach ? getPlayersByTeam(userData.teamId) : Promise.resolve([]),
+        ]);
+        setTournaments(teamTournaments);
+        setRoster(players);
+      } catch (error) {
+        console.error('Error loading tournaments:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTournaments();
+  }, [userData, isCoach]);
+
+  const questionPool = subjectFilter
+    ? allQuestions.filter((q) => q.subjectArea === subjectFilter)
+    : allQuestions;
+
+  const togglePlayer = (playerId: string) => {
+    setSelectedPlayerIds((prev) =>
+      prev.includes(playerId) ? prev.filter((id) => id !== playerId) : [...prev, playerId]
+    );
+  };
+
+  const moveTiebreaker = (index: number, offset: number) => {
+    setTiebreakers((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      alert('Please name the tournament');
+      return;
+    }
+    if (selectedPlayerIds.length + (opponentTeamId.trim() ? 1 : 0) < 2) {
+      alert('Please select at least two players');
+      return;
+    }
+    if (questionPool.length < questionsPerMatch) {
+      alert(`Not enough questions: each match needs ${questionsPerMatch}`);
+      return;
+    }
+
+    try {
+      setCreating(true);
+      // Each round draws the next slice of the pool, so shuffle it once here
+      const pool = shuffle(questionPool, Math.random)
+        .slice(0, MAX_TOURNAMENT_QUESTION_POOL)
+        .map((q) => q.id);
+      const { data } = await createTournament({
+        name: name.trim(),
+        format,
+        playerIds: selectedPlayerIds,
+        questionIds: pool,
+        questionsPerMatch,
+        tiebreakers,
+        opponentTeamId: opponentTeamId.trim() || undefined,
+      });
+      onOpenTournament(data.tournamentId);
+    } catch (error) {
+      console.error('Error creating tournament:', error);
+      alert(`Failed to create tournament${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat"
+      style={{
+        backgroundImage: 'url(/Environments/Coach%20Panel.png)',
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      <div className="inset-0 flex flex-col items-center justify-center px-4 overflow-auto py-8">
+        <button
+          onClick={onBack}
+          className="absolute top-4 left-4 p-2 bg-yellow-500 hover:bg-orange-500 rounded-full transition-colors z-20 shadow-lg"
+        >
+          <ArrowLeft className="w-6 h-6 text-black" />
+        </button>
+
+        <div className="bg-purple-900 border-4 border-cyan-400 rounded-3xl p-12 max-w-4xl w-full">
+          <div className="flex items-center justify-between mb-8 border-b border-cyan-400/30 pb-6">
+            <div className="flex items-center">
+              <Trophy className="text-cyan-400 mr-4" size={48} />
+              <h1 className="text-4xl font-black text-white">TOURNAMENTS</h1>
+            </div>
+            {isCoach && !showCreate && (
+              <button
+                onClick={() => setShowCreate(true)}
+                className="bg-yellow-500 hover:bg-orange-500 text-black font-black py-3 px-6 rounded-xl flex items-center gap-2"
+              >
+                <Plus className="w-5 h-5" />
+                NEW TOURNAMENT
+              </button>
+            )}
+          </div>
+
+          {showCreate ? (
+            <div className="space-y-6">
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">Name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Spring Lightning Cup"
+                  className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30 placeholder-white/40"
+                />
+              </div>
+
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">Format</label>
+                <div className="grid grid-cols-2 gap-3">
+                  {(Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setFormat(option)}
+                      className={`py-3 rounded-lg font-bold ${
+                        format === option ? 'bg-yellow-500 text-black' : 'bg-purple-900 text-white border-2 border-cyan-400/30'
+                      }`}
+                    >
+                      {TOURNAMENT_FORMAT_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-white/50 text-xs mt-2">
+                  Players are seeded by leaderboard accuracy. Each match is a live match; winners advance automatically.
+                </p>
+              </div>
+
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">
+                  Players ({selectedPlayerIds.length} selected)
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+                  {roster.map((player) => (
+                    <label
+                      key={player.id}
+                      className="bg-purple-900 rounded-lg p-2 text-white text-sm flex items-center gap-2 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedPlayerIds.includes(player.userId)}
+                        onChange={() => togglePlayer(player.userId)}
+                      />
+                      <span className="truncate">{player.displayName}</span>
+                    </label>
+                  ))}
+                </div>
+                <label className="block text-white/70 text-xs uppercase mt-4 mb-1">Opponent Team ID (Optional)</label>
+                <input
+                  type="text"
+                  value={opponentTeamId}
+                  onChange={(e) => setOpponentTeamId(e.target.value)}
+                  placeholder="Leave blank for a tournament within your team"
+                  className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30 placeholder-white/40"
+                />
+                <p className="text-white/50 text-xs mt-2">The other team's whole roster is entered and its coach is notified.</p>
+              </div>
+
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">
+                  Questions Per Match: {questionsPerMatch}
+                </label>
+                <input
+                  type="range"
+                  min="5"
+                  max="30"
+                  step="5"
+                  value={questionsPerMatch}
+                  onChange={(e) => setQuestionsPerMatch(parseInt(e.target.value))}
+                  className="w-full h-2 bg-purple-900 rounded-lg cursor-pointer"
+                />
+                <select
+                  value={subjectFilter}
+                  onChange={(e) => setSubjectFilter(e.target.value)}
+                  className="w-full bg-purple-900 text-white p-3 rounded-lg border-2 border-cyan-400/30 mt-4"
+                >
+                  <option value="">All Subjects</option>
+                  <option value="SS">Social Studies</option>
+                  <option value="SC">Science</option>
+                  <option value="LA">Language Arts</option>
+                  <option value="MA">Math</option>
+                  <option value="AH">Arts & Humanities</option>
+                </select>
+                <p className="text-white/50 text-xs mt-2">
+                  {questionPool.length} questions available. Each round draws fresh questions from the pool.
+                </p>
+              </div>
+
+              <div className="bg-purple-950 rounded-xl p-6 border-2 border-cyan-400/30">
+                <label className="block text-cyan-400 text-sm font-bold uppercase mb-4">Tiebreakers (in order)</label>
+                <div className="space-y-2">
+                  {tiebreakers.map((tiebreaker, index) => (
+                    <div key={tiebreaker} className="bg-purple-900 rounded-lg px-4 py-2 flex items-center justify-between">
+                      <span className="text-white">
+                        <span className="text-yellow-400 font-bold mr-2">{index + 1}.</span>
+                        {TIEBREAKER_LABELS[tiebreaker]}
+                      </span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => moveTiebreaker(index, -1)}
+                          disabled={index === 0}
+                          className="text-cyan-400 hover:text-white disabled:opacity-30"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveTiebreaker(index, 1)}
+                          disabled={index === tiebreakers.length - 1}
+                          className="text-cyan-400 hover:text-white disabled:opacity-30"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-white/50 text-xs mt-2">
+                  A tied match goes to the faster average buzz or the higher seed; standings use every rule in this order.
+                </p>
+              </div>
+
+              <div className="flex gap-4 pt-6 border-t border-cyan-400/30">
+                <button
+                  onClick={() => setShowCreate(false)}
+                  className="flex-1 bg-purple-950 text-white/70 hover:text-white font-bold py-3 rounded-xl border-2 border-white/20"
+                >
+                  CANCEL
+                </button>
+                <button
+                  onClick={handleCreate}
+                  disabled={creating}
+                  className="flex-1 bg-yellow-500 hover:bg-orange-500 text-black font-black py-3 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {creating ? 'CREATING...' : 'START TOURNAMENT'}
+                </button>
+              </div>
+            </div>
+          ) : loading ? (
+            <div className="text-white text-center py-8">Loading tournaments...</div>
+          ) : tournaments.length === 0 ? (
+            <div className="text-center text-white/50 py-8">
+              <Trophy className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No tournaments yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {tournaments.map((tournament) => (
+                <button
+                  key={tournament.id}
+                  onClick={() => onOpenTournament(tournament.id)}
+                  className="w-full bg-purple-950 hover:bg-purple-800 rounded-xl p-4 border-2 border-cyan-400/30 flex items-center justify-between text-left"
+                >
+                  <div>
+                    <div className="text-white font-bold text-lg">{tournament.name}</div>
+                    <div className="text-white/50 text-sm">
+                      {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.playerIds.length} players
+                      {tournament.teamIds.length > 1 && ` · ${tournament.teamIds.map((id) => tournament.teamNames[id] || id).join(' vs ')}`}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    {tournament.status === 'completed' ? (
+                      <div className="text-yellow-400 font-bold">
+                        <Trophy className="inline w-4 h-4 mr-1" />
+                        {tournament.championId ? tournament.playerNames[tournament.championId] : 'Completed'}
+                      </div>
+                    ) : (
+                      <div className="text-green-400 font-bold uppercase text-sm">In Progress</div>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -58,13 +58,14 @@ export const QuestionsProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         );
         setQuestions(uniqueQuestions);
       } else if (userData.role === 'student') {
-        // For students: get public questions + team-specific questions
+        // For students: get public questions + team-specific questions,
+        // minus any a match in progress is using
         const questionPromises: Promise<Question[]>[] = [
-          getQuestions({ isPublic: true }),
+          getQuestions({ isPublic: true, unlockedOnly: true }),
         ];
 
         if (userData.teamId) {
-          questionPromises.push(getQuestions({ teamId: userData.teamId }));
+          questionPromises.push(getQuestions({ teamId: userData.teamId, unlockedOnly: true }));
         }
 
         const questionResults = await Promise.all(questionPromises);
@@ -89,7 +90,7 @@ export const QuestionsProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         setQuestions(uniqueQuestions);
       } else {
         // For admin or other roles: get all public questions
-        const allQuestions = await getQuestions({ isPublic: true });
+        const allQuestions = await getQuestions({ isPublic: true, unlockedOnly: true });
         setQuestions(allQuestions);
       }
     } catch (err) {
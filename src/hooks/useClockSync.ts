@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { syncClock } from '../services/functions';
+
+// Handshake rounds per sync; the round with the shortest round trip gives the best offset
+const SYNC_ROUNDS = 5;
+
+/**
+ * Measure this device's clock offset to the server once the player is in a
+ * match lobby, NTP style, and report the best sample with the syncClock
+ * callable. The rounds run back to back so the server can time the round
+ * trip itself; it checks the offset against its own timestamps and stores
+ * both on the game, where they drive buzz latency compensation and the
+ * lobby's connection-quality indicators.
+ */
+export const useClockSync = (gameId: string | null | undefined, enabled: boolean) => {
+  const syncedGameRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!gameId || !enabled || syncedGameRef.current === gameId) return;
+    syncedGameRef.current = gameId;
+
+    const sync = async () => {
+      let best: { offsetMs: number; rttMs: number } | null = null;
+      for (let round = 0; round < SYNC_ROUNDS; round++) {
+        const sentAt = Date.now();
+        const { data } = await syncClock({ gameId });
+        const receivedAt = Date.now();
+        const rttMs = receivedAt - sentAt;
+        // Assume the server read its clock halfway through the round trip
+        const offsetMs = Math.round(data.serverTime - (sentAt + rttMs / 2));
+        if (!best || rttMs < best.rttMs) {
+          best = { offsetMs, rttMs };
+        }
+      }
+      if (best) {
+        await syncClock({ gameId, offsetMs: best.offsetMs, clientTime: Date.now() });
+      }
+    };
+
+    sync().catch((err) => {
+      console.error('Error syncing clock:', err);
+      // Try again the next time the lobby updates
+      syncedGameRef.current = null;
+    });
+  }, [gameId, enabled]);
+};
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { revealQuestionText } from '../services/functions';
+import { MatchState } from '../types/firebase';
+
+// Minimum gap between word requests while the server clock catches up with ours
+const REVEAL_RETRY_MS = 250;
+
+// Subscribe to the shared real-time state of a live match (matchStates/{gameId})
+export const useMatchState = (gameId: string | null | undefined) => {
+  const [matchState, setMatchState] = useState<MatchState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!gameId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      doc(db, 'matchStates', gameId),
+      (snapshot) => {
+        setMatchState(snapshot.exists() ? (snapshot.data() as MatchState) : null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to match state:', err);
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [gameId]);
+
+  return { matchState, loading, error };
+};
+
+/**
+ * Words of the current question revealed at time `now` (ms).
+ * Mirrors getRevealedWords in functions/src/liveMatch.ts.
+ */
+export const getRevealedWords = (state: MatchState, now: number): number => {
+  if (state.revealStartedAt === null) {
+    return state.revealedWordsCount;
+  }
+  const msPerWord = (60 / state.settings.wpm) * 1000;
+  const elapsedWords = Math.max(0, Math.floor((now - state.revealStartedAt) / msPerWord));
+  return Math.min(state.questionWordCount, state.revealedWordsCount + elapsedWords);
+};
+
+/**
+ * Time (ms) at which the question timer runs out if nobody buzzes, or null
+ * while the reveal is frozen. Mirrors getQuestionDeadline in functions/src/liveMatch.ts.
+ */
+export const getQuestionDeadline = (state: MatchState): number | null => {
+  if (state.revealStartedAt === null) {
+    return null;
+  }
+  const msPerWord = (60 / state.settings.wpm) * 1000;
+  const remainingWords = state.questionWordCount - state.revealedWordsCount;
+  return state.revealStartedAt + remainingWords * msPerWord + state.settings.questionTime * 1000;
+};
+
+const splitWords = (text: string | undefined): string[] => (text ? text.split(' ') : []);
+
+/**
+ * Text of the current question revealed at server time `now` (ms). The match
+ * state only carries the words up to where the reveal last froze, so while
+ * the reveal runs each new word is fetched with the revealQuestionText
+ * callable as the local reveal clock reaches it. Spectators get the text from
+ * their own poll instead, so pass `enabled` false for them.
+ */
+export const useRevealedQuestionText = (
+  gameId: string | null | undefined,
+  matchState: MatchState | null,
+  now: number,
+  enabled: boolean
+): string => {
+  const [fetched, setFetched] = useState<{ questionIndex: number; words: string[] } | null>(null);
+  const requestRef = useRef({ inFlight: false, lastAt: 0 });
+
+  const questionIndex = matchState?.currentQuestionIndex ?? -1;
+  const wantedWords = !matchState
+    ? 0
+    : matchState.status === 'playing'
+      ? getRevealedWords(matchState, matchState.pausedAt || now)
+      : matchState.questionWordCount;
+  const published = splitWords(matchState?.questionText);
+  const words = fetched && fetched.questionIndex === questionIndex && fetched.words.length > published.length
+    ? fetched.words
+    : published;
+  const needsWords = enabled && !!gameId && matchState?.status === 'playing' && words.length < wantedWords;
+
+  useEffect(() => {
+    const request = requestRef.current;
+    if (!needsWords || !gameId || request.inFlight || Date.now() - request.lastAt < REVEAL_RETRY_MS) return;
+    request.inFlight = true;
+    request.lastAt = Date.now();
+    revealQuestionText({ gameId, questionIndex })
+      .then(({ data }) => setFetched({ questionIndex: data.questionIndex, words: splitWords(data.text) }))
+      .catch((err) => console.warn('Error fetching question text:', err))
+      .finally(() => {
+        request.inFlight = false;
+      });
+  }, [needsWords, gameId, questionIndex, now]);
+
+  return words.slice(0, wantedWords).join(' ');
+};
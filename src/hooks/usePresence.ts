@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { updateMatchPresence } from '../services/firestore';
+import { MatchPresence } from '../types/firebase';
+
+// How often a player's screen reports in
+export const PRESENCE_HEARTBEAT_MS = 15 * 1000;
+// A player counts as offline after missing this many heartbeats' worth of time
+const PRESENCE_TIMEOUT_MS = 3 * PRESENCE_HEARTBEAT_MS;
+
+// Whether a player was online at time `now` (ms)
+export const isPresenceOnline = (presence: MatchPresence | undefined, now: number): boolean =>
+  !!presence && presence.online && now - presence.lastSeen.getTime() < PRESENCE_TIMEOUT_MS;
+
+/**
+ * Send presence heartbeats for this player while they are on a match screen.
+ * Beats again as soon as the tab becomes visible, and marks the player
+ * offline when they leave the page or the screen unmounts.
+ */
+export const usePresenceHeartbeat = (
+  gameId: string | null | undefined,
+  playerId: string | null | undefined,
+  enabled: boolean
+) => {
+  useEffect(() => {
+    if (!gameId || !playerId || !enabled) return;
+
+    const beat = (online: boolean) => {
+      updateMatchPresence(gameId, playerId, online).catch((err) => {
+        console.warn('Error updating presence:', err);
+      });
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') beat(true);
+    };
+    const handlePageHide = () => beat(false);
+
+    beat(true);
+    const interval = setInterval(() => beat(true), PRESENCE_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      beat(false);
+    };
+  }, [gameId, playerId, enabled]);
+};
+
+/**
+ * Subscribe to everyone's presence in a match, keyed by player ID. `now`
+ * ticks on each heartbeat interval so players who stop beating drop to
+ * offline even when nothing else changes.
+ */
+export const useMatchPresence = (gameId: string | null | undefined) => {
+  const [presence, setPresence] = useState<Record<string, MatchPresence>>({});
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!gameId) {
+      setPresence({});
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      collection(db, 'games', gameId, 'presence'),
+      (snapshot) => {
+        setPresence(Object.fromEntries(snapshot.docs.map((presenceDoc) => {
+          // Our own pending heartbeat has no server time yet, so use the local estimate
+          const data = presenceDoc.data({ serverTimestamps: 'estimate' });
+          return [presenceDoc.id, { online: !!data.online, lastSeen: data.lastSeen?.toDate() ?? new Date(0) }];
+        })));
+        setNow(Date.now());
+      },
+      (err) => {
+        console.error('Error listening to presence:', err);
+      }
+    );
+    const interval = setInterval(() => setNow(Date.now()), PRESENCE_HEARTBEAT_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [gameId]);
+
+  return { presence, now };
+};
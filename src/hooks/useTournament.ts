@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { toTournament } from '../services/firestore';
+import { Tournament } from '../types/firebase';
+
+// Subscribe to a tournament's bracket and standings as its matches finish
+export const useTournament = (tournamentId: string | null | undefined) => {
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!tournamentId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      doc(db, 'tournaments', tournamentId),
+      (snapshot) => {
+        setTournament(snapshot.exists() ? toTournament(snapshot.id, snapshot.data()) : null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to tournament:', err);
+        setError(err.message);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [tournamentId]);
+
+  return { tournament, loading, error };
+};
@@ -18,6 +18,8 @@ export const CoachDashboardPage: React.FC = () => {
       onQuestionValidation={() => navigate('/question-validation')}
       onTeamManagement={() => navigate('/team-management')}
       onCreateMatch={() => navigate('/create-match')}
+      onTournaments={() => navigate('/tournaments')}
+      onPackets={() => navigate('/packets')}
     />
   );
 };
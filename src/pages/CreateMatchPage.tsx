@@ -1,10 +1,11 @@
 import React from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { CreateMatch } from '../components/CreateMatch';
 
 export const CreateMatchPage: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
-  return <CreateMatch onBack={() => navigate('/coach-dashboard')} />;
+  return <CreateMatch onBack={() => navigate('/coach-dashboard')} packetId={searchParams.get('packetId') || undefined} />;
 };
 
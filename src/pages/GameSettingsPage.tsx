@@ -3,6 +3,19 @@ import { useNavigate } from 'react-router-dom';
 import { Settings, ArrowLeft } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { getGameSettings, updateGameSettings } from '../services/firestore';
+import { ScoringRules } from '../types/firebase';
+import { DEFAULT_MIN_LEADERBOARD_QUESTIONS } from '../util/leaderboardPeriods';
+import { SUBJECT_NAMES } from '../util/practiceSelection';
+import { DEFAULT_SCORING_RULES } from '../util/scoring';
+
+// Point values editable on this page, in display order
+const SCORING_FIELDS: { key: Exclude<keyof ScoringRules, 'subjectWeights'>; label: string; help: string }[] = [
+  { key: 'correctPoints', label: 'Correct Answer', help: 'Points for every correct answer.' },
+  { key: 'earlyBuzzBonus', label: 'Early Buzz Bonus', help: 'Extra points for a correct buzz before the question is fully read.' },
+  { key: 'speedPoints', label: 'Speed Points', help: 'Up to this many more, by how much of the question was still unread.' },
+  { key: 'interruptPenalty', label: 'Interrupt Penalty', help: 'Points lost for a wrong answer or hesitation after buzzing early.' },
+  { key: 'incorrectPenalty', label: 'Incorrect Penalty', help: 'Points lost for a wrong answer or hesitation after the full question.' },
+];
 
 export const GameSettingsPage: React.FC = () => {
   const navigate = useNavigate();
@@ -11,6 +24,8 @@ export const GameSettingsPage: React.FC = () => {
     questionTime: 10,
     hesitationTime: 5,
     wpm: 150,
+    minLeaderboardQuestions: DEFAULT_MIN_LEADERBOARD_QUESTIONS,
+    scoring: DEFAULT_SCORING_RULES,
   });
   const [loading, setLoading] = useState(true);
 
@@ -33,6 +48,8 @@ export const GameSettingsPage: React.FC = () => {
           questionTime: settings.questionTime,
           hesitationTime: settings.hesitationTime,
           wpm: settings.wpm,
+          minLeaderboardQuestions: settings.minLeaderboardQuestions ?? DEFAULT_MIN_LEADERBOARD_QUESTIONS,
+          scoring: { ...DEFAULT_SCORING_RULES, ...settings.scoring },
         });
         console.log('GameSettingsPage: Updated state with settings:', {
           questionTime: settings.questionTime,
@@ -47,6 +64,9 @@ export const GameSettingsPage: React.FC = () => {
     }
   };
 
+  const setScoring = (changes: Partial<ScoringRules>) =>
+    setGameSettings({ ...gameSettings, scoring: { ...gameSettings.scoring, ...changes } });
+
   const handleSaveSettings = async () => {
     try {
       await updateGameSettings(gameSettings, userData?.teamId);
@@ -153,6 +173,85 @@ export const GameSettingsPage: React.FC = () => {
                 </span>
               </div>
             </div>
+
+            <div>
+              <label className="block text-purple-300 text-sm font-bold uppercase mb-2">
+                Leaderboard Minimum (Questions)
+              </label>
+              <div className="flex items-center gap-4">
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={gameSettings.minLeaderboardQuestions}
+                  onChange={(e) =>
+                    setGameSettings({ ...gameSettings, minLeaderboardQuestions: parseInt(e.target.value) })
+                  }
+                  className="flex-1 h-2 bg-purple-950 rounded-lg cursor-pointer"
+                />
+                <span className="text-3xl font-black text-white w-20 text-center">
+                  {gameSettings.minLeaderboardQuestions}
+                </span>
+              </div>
+              <p className="text-white/50 text-xs mt-1">
+                Players need this many questions answered before they're ranked by accuracy or buzz time.
+              </p>
+            </div>
+
+            <div className="border-t border-cyan-400/30 pt-6">
+              <h2 className="text-cyan-400 text-lg font-black uppercase mb-1">Scoring Rules</h2>
+              <p className="text-white/50 text-xs mb-4">
+                Used for practice scores, live matches and ranking match results.
+              </p>
+              <div className="space-y-3">
+                {SCORING_FIELDS.map(({ key, label, help }) => (
+                  <div key={key} className="flex items-center gap-4">
+                    <div className="flex-1">
+                      <div className="text-white font-bold text-sm uppercase">{label}</div>
+                      <div className="text-white/50 text-xs">{help}</div>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.5"
+                      value={gameSettings.scoring[key]}
+                      onChange={(e) => setScoring({ [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-24 bg-purple-950 border-2 border-cyan-400/30 rounded-lg px-3 py-2 text-white text-center font-bold"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="text-white font-bold text-sm uppercase mt-6 mb-2">Subject Weights</div>
+              <p className="text-white/50 text-xs mb-3">
+                Multiplies a correct answer's points in that subject.
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                {Object.entries(SUBJECT_NAMES).map(([code, name]) => (
+                  <div key={code} className="flex items-center justify-between gap-2 bg-purple-950 rounded-lg px-3 py-2">
+                    <span className="text-white text-sm">{name}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="10"
+                      step="0.25"
+                      value={gameSettings.scoring.subjectWeights[code] ?? 1}
+                      onChange={(e) =>
+                        setScoring({
+                          subjectWeights: {
+                            ...gameSettings.scoring.subjectWeights,
+                            [code]: Math.max(0, parseFloat(e.target.value) || 0),
+                          },
+                        })
+                      }
+                      className="w-20 bg-purple-900 border-2 border-cyan-400/30 rounded-lg px-2 py-1 text-white text-center font-bold"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
           )}
 
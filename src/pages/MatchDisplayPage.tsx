@@ -0,0 +1,19 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { MatchDisplay } from '../components/MatchDisplay';
+
+export const MatchDisplayPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const gameId = searchParams.get('gameId');
+  const token = searchParams.get('token');
+
+  if (!gameId) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-white text-xl">No game ID provided</div>
+      </div>
+    );
+  }
+
+  return <MatchDisplay gameId={gameId} token={token} />;
+};
@@ -1,26 +1,29 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { MatchJoin } from '../components/MatchJoin';
 import { MatchWaitingRoom } from '../components/MatchWaitingRoom';
 
 export const MatchJoinPage: React.FC = () => {
   const navigate = useNavigate();
-  const [gameId, setGameId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The lobby's game lives in the URL, so a refresh puts the player back in the waiting room
+  const gameId = searchParams.get('gameId');
   const [matchStarted, setMatchStarted] = useState(false);
 
   const handleJoin = (joinedGameId: string) => {
-    setGameId(joinedGameId);
+    setSearchParams({ gameId: joinedGameId }, { replace: true });
   };
 
   const handleMatchStart = () => {
     setMatchStarted(true);
     // Navigate to match play when match starts
-    navigate(`/match-play?gameId=${gameId}`);
+    navigate(`/match-play?gameId=${gameId}`, { replace: true });
   };
 
   const handleBack = () => {
     if (gameId) {
-      setGameId(null);
+      // Drop the game and any deep-link code so going back doesn't join the same match again
+      setSearchParams({}, { replace: true });
       setMatchStarted(false);
     } else {
       navigate('/game-mode-selection');
@@ -31,6 +34,6 @@ export const MatchJoinPage: React.FC = () => {
     return <MatchWaitingRoom gameId={gameId} onMatchStart={handleMatchStart} onBack={handleBack} />;
   }
 
-  return <MatchJoin onJoin={handleJoin} onBack={handleBack} />;
+  return <MatchJoin onJoin={handleJoin} onBack={handleBack} initialCode={searchParams.get('code') || undefined} />;
 };
 
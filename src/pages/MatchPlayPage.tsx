@@ -1,9 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { PracticeMode } from '../components/PracticeMode';
+import { LiveMatch } from '../components/LiveMatch';
 import { useAuth } from '../context/AuthContext';
-import { getGame, getQuestionsByIds, getGameSettings } from '../services/firestore';
-import { Game, Question } from '../types/firebase';
+import { getGame } from '../services/firestore';
+import { Game } from '../types/firebase';
 
 export const MatchPlayPage: React.FC = () => {
   const navigate = useNavigate();
@@ -12,14 +12,8 @@ export const MatchPlayPage: React.FC = () => {
   const gameId = searchParams.get('gameId');
   
   const [match, setMatch] = useState<Game | null>(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [gameSettings, setGameSettings] = useState({
-    questionTime: 10,
-    hesitationTime: 5,
-    wpm: 150,
-  });
 
   useEffect(() => {
     if (!gameId) {
@@ -46,13 +40,6 @@ export const MatchPlayPage: React.FC = () => {
           return;
         }
 
-        // Check if match is active
-        if (matchData.status !== 'active') {
-          setError('Match is not active');
-          setLoading(false);
-          return;
-        }
-
         // Check if user is part of the match
         if (matchData.playerIds && !matchData.playerIds.includes(userData.uid)) {
           setError('You are not part of this match');
@@ -60,33 +47,23 @@ export const MatchPlayPage: React.FC = () => {
           return;
         }
 
-        setMatch(matchData);
-
-        // Load questions
-        if (matchData.questionIds && matchData.questionIds.length > 0) {
-          const matchQuestions = await getQuestionsByIds(matchData.questionIds);
-          if (matchQuestions.length === 0) {
-            setError('No questions found for this match');
-            setLoading(false);
-            return;
-          }
-          setQuestions(matchQuestions);
-        } else {
-          setError('Match has no questions');
-          setLoading(false);
+        // A player coming back to a match that isn't live (yet, or any more) goes where it is now
+        if (matchData.status === 'completed') {
+          navigate(`/match-results?gameId=${gameId}`, { replace: true });
           return;
         }
-
-        // Load game settings
-        const settings = await getGameSettings(matchData.teamId);
-        if (settings) {
-          setGameSettings({
-            questionTime: settings.questionTime,
-            hesitationTime: settings.hesitationTime,
-            wpm: settings.wpm,
-          });
+        if (matchData.status === 'waiting') {
+          navigate(`/match-join?gameId=${gameId}`, { replace: true });
+          return;
+        }
+        if (matchData.status !== 'active') {
+          setError('Match is not active');
+          setLoading(false);
+          return;
         }
 
+        // Questions and answer choices are served one at a time through the match state
+        setMatch(matchData);
         setLoading(false);
       } catch (err: any) {
         console.error('Error loading match:', err);
@@ -96,7 +73,7 @@ export const MatchPlayPage: React.FC = () => {
     };
 
     loadMatch();
-  }, [gameId, userData]);
+  }, [gameId, userData, navigate]);
 
   const handleBack = () => {
     navigate('/match-join');
@@ -143,20 +120,17 @@ export const MatchPlayPage: React.FC = () => {
     );
   }
 
-  if (!match || questions.length === 0) {
+  if (!match) {
     return null;
   }
 
-  // Use PracticeMode component with match questions and gameId
+  // Timing and settings come from the shared match state written by startMatch
   return (
-    <PracticeMode
+    <LiveMatch
+      gameId={match.id}
+      teamNames={match.teamNames}
+      clockOffsetMs={userData ? match.connections?.[userData.uid]?.offsetMs : undefined}
       onBack={handleBack}
-      numQuestions={questions.length}
-      practiceMode="Mix"
-      gameSettings={gameSettings}
-      matchGameId={gameId || undefined}
-      matchQuestions={questions}
     />
   );
 };
-
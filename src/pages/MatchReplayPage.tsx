@@ -0,0 +1,19 @@
+import React from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { MatchReplay } from '../components/MatchReplay';
+
+export const MatchReplayPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const gameId = searchParams.get('gameId');
+
+  if (!gameId) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-white text-xl">No game ID provided</div>
+      </div>
+    );
+  }
+
+  return <MatchReplay gameId={gameId} onBack={() => navigate(`/match-results?gameId=${gameId}`)} />;
+};
@@ -0,0 +1,15 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { QuestionPackets } from '../components/QuestionPackets';
+
+export const PacketsPage: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <QuestionPackets
+      onBack={() => navigate('/coach-dashboard')}
+      onUseInMatch={(packetId) => navigate(`/create-match?packetId=${packetId}`)}
+      onPractice={(packetId) => navigate(`/practice-mode?packetId=${packetId}`)}
+    />
+  );
+};
@@ -1,21 +1,33 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { PracticeMode } from '../components/PracticeMode';
+import { PracticeResumePrompt } from '../components/PracticeResumePrompt';
 import { useAuth } from '../context/AuthContext';
-import { getGameSettings } from '../services/firestore';
+import { getGameSettings, getUnfinishedPracticeGame, updateGame } from '../services/firestore';
+import { writeMatchStats } from '../services/functions';
+import { Game, GameSettings } from '../types/firebase';
+import { TIMED_SPRINT_MINUTES, parsePracticeFilters } from '../util/practiceSelection';
 
 export const PracticeModePage: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { userData } = useAuth();
-  const [gameSettings, setGameSettings] = useState({
+  const [gameSettings, setGameSettings] = useState<GameSettings>({
     questionTime: 10,
     hesitationTime: 5,
     wpm: 150,
   });
+  // An unfinished session to offer before starting a new one; undefined until checked
+  const [unfinishedGame, setUnfinishedGame] = useState<Game | null | undefined>(undefined);
+  const [resumeGame, setResumeGame] = useState<Game | null>(null);
+  const [abandoning, setAbandoning] = useState(false);
 
   const numQuestions = parseInt(searchParams.get('numQuestions') || '5');
-  const practiceMode = searchParams.get('practiceMode') || 'Mix';
+  const filters = useMemo(() => parsePracticeFilters(searchParams), [searchParams]);
+  const adaptive = searchParams.get('adaptive') === 'true';
+  const timeMinutes = parseInt(searchParams.get('timeMinutes') || '');
+  const timeLimitMinutes = TIMED_SPRINT_MINUTES.includes(timeMinutes) ? timeMinutes : undefined;
+  const packetId = searchParams.get('packetId') || undefined;
 
   useEffect(() => {
     // Always load settings - getGameSettings will handle fallback to 'default' if teamId doesn't exist
@@ -24,6 +36,42 @@ export const PracticeModePage: React.FC = () => {
     }
   }, [userData]); // Trigger when userData becomes available (even if teamId is undefined)
 
+  // Look for a session the player left part-way, e.g. after a refresh or their laptop went to sleep
+  useEffect(() => {
+    if (!userData) return;
+    getUnfinishedPracticeGame(userData.uid)
+      .then(setUnfinishedGame)
+      .catch((error) => {
+        console.error('Error checking for an unfinished practice session:', error);
+        setUnfinishedGame(null);
+      });
+  }, [userData]);
+
+  const handleResume = () => {
+    setResumeGame(unfinishedGame ?? null);
+    setUnfinishedGame(null);
+  };
+
+  // Record what was answered as a partial result, then start the new session
+  const handleAbandon = async () => {
+    if (!unfinishedGame) return;
+    const attempts = unfinishedGame.progress?.attempts ?? [];
+    try {
+      setAbandoning(true);
+      if (attempts.length > 0) {
+        await writeMatchStats({ gameId: unfinishedGame.id, attempts, abandoned: true });
+      } else {
+        await updateGame(unfinishedGame.id, { status: 'completed', abandoned: true, endedAt: new Date() });
+      }
+      setUnfinishedGame(null);
+    } catch (error) {
+      console.error('Error abandoning practice session:', error);
+      alert(`Failed to abandon the session${error instanceof Error ? `: ${error.message}` : ''}`);
+    } finally {
+      setAbandoning(false);
+    }
+  };
+
   const loadGameSettings = async () => {
     try {
       console.log('PracticeModePage: Loading settings for teamId:', userData?.teamId || 'default');
@@ -35,6 +83,7 @@ export const PracticeModePage: React.FC = () => {
           questionTime: settings.questionTime,
           hesitationTime: settings.hesitationTime,
           wpm: settings.wpm,
+          scoring: settings.scoring,
         });
         console.log('PracticeModePage: Updated state with settings:', {
           questionTime: settings.questionTime,
@@ -55,11 +104,54 @@ export const PracticeModePage: React.FC = () => {
     }
   };
 
+  if (userData && unfinishedGame === undefined) {
+    return (
+      <div
+        className="min-h-screen w-full relative bg-cover bg-center bg-no-repeat flex items-center justify-center"
+        style={{
+          backgroundImage: 'url(/Environments/Olympus%20Arena.png)',
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }}
+      >
+        <div className="text-white text-2xl drop-shadow-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (unfinishedGame) {
+    return (
+      <PracticeResumePrompt
+        game={unfinishedGame}
+        busy={abandoning}
+        onResume={handleResume}
+        onAbandon={handleAbandon}
+      />
+    );
+  }
+
+  if (resumeGame) {
+    return (
+      <PracticeMode
+        key={resumeGame.id}
+        onBack={handleBack}
+        numQuestions={resumeGame.questionIds.length}
+        filters={filters}
+        timeLimitMinutes={resumeGame.timeLimitMinutes}
+        resumeGame={resumeGame}
+        gameSettings={gameSettings}
+      />
+    );
+  }
+
   return (
     <PracticeMode
       onBack={handleBack}
       numQuestions={numQuestions}
-      practiceMode={practiceMode}
+      filters={filters}
+      adaptive={adaptive}
+      timeLimitMinutes={packetId ? undefined : timeLimitMinutes}
+      packetId={packetId}
       gameSettings={gameSettings}
     />
   );
@@ -10,6 +10,7 @@ export const TeamManagementPage: React.FC = () => {
   const { userData, refreshUserData } = useAuth();
   const [teamName, setTeamName] = useState('');
   const [levels, setLevels] = useState<('EL' | 'MS' | 'HS')[]>([]);
+  const [leagueOptIn, setLeagueOptIn] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [creating, setCreating] = useState(false);
@@ -41,6 +42,7 @@ export const TeamManagementPage: React.FC = () => {
       if (teamData) {
         setTeamName(teamData.name);
         setLevels(teamData.levels || []);
+        setLeagueOptIn(teamData.leagueOptIn === true);
       }
       
       // Load student count
@@ -103,7 +105,7 @@ export const TeamManagementPage: React.FC = () => {
 
     try {
       setSaving(true);
-      await updateTeam(userData.teamId, { name: teamName.trim(), levels });
+      await updateTeam(userData.teamId, { name: teamName.trim(), levels, leagueOptIn });
       await loadTeam();
       alert('Team updated successfully!');
     } catch (error) {
@@ -448,6 +450,23 @@ export const TeamManagementPage: React.FC = () => {
             </div>
           </div>
 
+          {/* League Section */}
+          <div className="bg-purple-950 rounded-xl p-6 mb-6 border-2 border-cyan-400/30">
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={leagueOptIn}
+                onChange={(e) => setLeagueOptIn(e.target.checked)}
+                className="w-5 h-5 text-cyan-400 bg-purple-900 border-cyan-400 rounded focus:ring-cyan-400 focus:ring-2"
+              />
+              <span className="ml-3 text-white font-bold text-lg">Join the league leaderboards</span>
+            </label>
+            <p className="text-white/70 text-sm mt-3">
+              Your players' names and stats will appear on the league-wide leaderboards for your team's levels,
+              alongside other teams that have opted in.
+            </p>
+          </div>
+
           {/* Team Stats */}
           <div className="bg-purple-950 rounded-xl p-6 mb-6 border-2 border-cyan-400/30">
             <h3 className="text-cyan-400 font-bold uppercase mb-4">Team Statistics</h3>
@@ -0,0 +1,26 @@
+import React from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { TournamentView } from '../components/TournamentView';
+
+export const TournamentPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const tournamentId = searchParams.get('tournamentId');
+
+  if (!tournamentId) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-white text-xl">No tournament ID provided</div>
+      </div>
+    );
+  }
+
+  return (
+    <TournamentView
+      tournamentId={tournamentId}
+      onBack={() => navigate('/tournaments')}
+      onViewResults={(gameId) => navigate(`/match-results?gameId=${gameId}`)}
+      onJoinMatch={() => navigate('/match-join')}
+    />
+  );
+};
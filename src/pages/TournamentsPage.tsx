@@ -0,0 +1,16 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { Tournaments } from '../components/Tournaments';
+
+export const TournamentsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { isCoach } = useAuth();
+
+  return (
+    <Tournaments
+      onBack={() => navigate(isCoach ? '/coach-dashboard' : '/student-dashboard')}
+      onOpenTournament={(tournamentId) => navigate(`/tournament?tournamentId=${tournamentId}`)}
+    />
+  );
+};
@@ -6,6 +6,7 @@ import {
   setDoc,
   updateDoc,
   deleteDoc,
+  deleteField,
   query,
   where,
   orderBy,
@@ -15,8 +16,12 @@ import {
   writeBatch,
   onSnapshot,
   arrayUnion,
+  QueryDocumentSnapshot,
+  DocumentData,
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { LeaderboardWindow, getLeaderboardPeriod } from '../util/leaderboardPeriods';
+import { DEFAULT_SCORING_RULES, normalizeScoringRules } from '../util/scoring';
 import {
   Question,
   Team,
@@ -27,6 +32,13 @@ import {
   GameSettings,
   User,
   Notification,
+  MatchState,
+  Attempt,
+  MatchEvent,
+  Tournament,
+  Packet,
+  PacketPlay,
+  PracticeProgress,
 } from '../types/firebase';
 
 // Questions Collection
@@ -46,6 +58,8 @@ export const createQuestion = async (question: Omit<Question, 'id' | 'createdAt'
     createdBy: question.createdBy,
     importDate: question.importDate,
     importYear: question.importYear,
+    answersLocked: false,
+    lockedBy: [],
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
   };
@@ -59,16 +73,19 @@ export const createQuestion = async (question: Omit<Question, 'id' | 'createdAt'
   return questionRef.id;
 };
 
+// Question fields only the Cloud Functions write
+const SERVER_QUESTION_FIELDS = ['stats', 'answersLocked', 'lockedBy'];
+
 export const updateQuestion = async (questionId: string, updates: Partial<Question>) => {
   const questionRef = doc(db, 'questions', questionId);
   
   // Build update data, filtering out undefined values
   const updateData: any = {};
   
-  // Copy defined fields
+  // Copy defined fields (stats and answer locks are server-owned)
   Object.keys(updates).forEach(key => {
     const value = (updates as any)[key];
-    if (value !== undefined) {
+    if (value !== undefined && !SERVER_QUESTION_FIELDS.includes(key)) {
       updateData[key] = value;
     }
   });
@@ -90,10 +107,14 @@ export const getQuestions = async (
     subjectArea?: string;
     minYear?: number;
     maxYear?: number;
+    unlockedOnly?: boolean; // Skip questions answer-locked by an unfinished match; required for students
   }
 ) => {
   let q = query(questionsCollection);
 
+  if (filters?.unlockedOnly) {
+    q = query(q, where('answersLocked', '==', false));
+  }
   if (filters?.isPublic !== undefined) {
     q = query(q, where('isPublic', '==', filters.isPublic));
   }
@@ -361,6 +382,18 @@ export const createGame = async (game: Omit<Game, 'id' | 'startedAt'>) => {
   if (game.matchIdCode !== undefined && game.matchIdCode !== null && game.matchIdCode !== '') {
     gameDocData.matchIdCode = game.matchIdCode;
   }
+  if (game.subtype !== undefined) {
+    gameDocData.subtype = game.subtype;
+  }
+  if (game.timeLimitMinutes !== undefined) {
+    gameDocData.timeLimitMinutes = game.timeLimitMinutes;
+  }
+  if (game.packetId !== undefined && game.packetId !== '') {
+    gameDocData.packetId = game.packetId;
+  }
+  if (game.shuffleSeed !== undefined && game.shuffleSeed !== '') {
+    gameDocData.shuffleSeed = game.shuffleSeed;
+  }
   
   await setDoc(gameRef, gameDocData);
   return gameRef.id;
@@ -394,11 +427,65 @@ export const getGame = async (gameId: string) => {
       ...data,
       startedAt: data.startedAt?.toDate() || new Date(),
       endedAt: data.endedAt?.toDate(),
+      scheduledAt: data.scheduledAt?.toDate(),
     } as Game;
   }
   return null;
 };
 
+// Save where a practice session stands after each question, so it survives a refresh
+export const savePracticeProgress = async (gameId: string, progress: Omit<PracticeProgress, 'updatedAt'>) => {
+  await updateDoc(doc(db, 'games', gameId), {
+    progress: { ...progress, updatedAt: serverTimestamp() },
+  });
+};
+
+// The player's most recently played practice session that was never finished. Ordering on
+// progress skips sessions abandoned before their first answer, however recent they are
+export const getUnfinishedPracticeGame = async (playerId: string): Promise<Game | null> => {
+  const q = query(
+    gamesCollection,
+    where('playerId', '==', playerId),
+    where('type', '==', 'practice'),
+    where('status', '==', 'active'),
+    orderBy('progress.updatedAt', 'desc'),
+    limit(1)
+  );
+  const snapshot = await getDocs(q);
+  const gameDoc = snapshot.docs[0];
+  if (!gameDoc) {
+    return null;
+  }
+  const data = gameDoc.data();
+  return {
+    id: gameDoc.id,
+    ...data,
+    startedAt: data.startedAt?.toDate() || new Date(),
+    progress: { ...data.progress, updatedAt: data.progress.updatedAt?.toDate() || new Date() },
+  } as Game;
+};
+
+// Match state is written only by the live match Cloud Functions
+export const getMatchState = async (gameId: string) => {
+  const matchStateDoc = await getDoc(doc(db, 'matchStates', gameId));
+  return matchStateDoc.exists() ? (matchStateDoc.data() as MatchState) : null;
+};
+
+// A live match's event log in order, written only by the live match Cloud Functions
+export const getMatchEvents = async (gameId: string): Promise<MatchEvent[]> => {
+  const q = query(collection(db, 'games', gameId, 'events'), orderBy('seq', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id }) as MatchEvent);
+};
+
+// Heartbeat a player's presence in a match lobby or live match; see hooks/usePresence.ts
+export const updateMatchPresence = async (gameId: string, playerId: string, online: boolean) => {
+  await setDoc(doc(db, 'games', gameId, 'presence', playerId), {
+    online,
+    lastSeen: serverTimestamp(),
+  });
+};
+
 export const joinMatch = async (gameId: string, playerId: string) => {
   const gameRef = doc(db, 'games', gameId);
   console.log('[DEBUG] joinMatch - Getting game document:', gameId);
@@ -423,6 +510,10 @@ export const joinMatch = async (gameId: string, playerId: string) => {
     throw new Error('You have already joined this match');
   }
   
+  if (gameData.status === 'scheduled') {
+    throw new Error('The lobby for this match is not open yet');
+  }
+
   if (gameData.status !== 'waiting') {
     throw new Error('Match is not accepting new players');
   }
@@ -449,26 +540,33 @@ export const getGamesByMatchId = async (matchId: string) => {
   }) as Game[];
 };
 
+// Question IDs from every game the team played (practice, its own matches and
+// matches it was invited to) since the given date
+export const getRecentTeamQuestionIds = async (teamId: string, since: Date) => {
+  const after = Timestamp.fromDate(since);
+  const [hosted, invited] = await Promise.all([
+    getDocs(query(gamesCollection, where('teamId', '==', teamId), where('startedAt', '>=', after))),
+    getDocs(query(gamesCollection, where('teamIds', 'array-contains', teamId), where('startedAt', '>=', after))),
+  ]);
+  const questionIds = new Set<string>();
+  [...hosted.docs, ...invited.docs].forEach((doc) => {
+    ((doc.data().questionIds || []) as string[]).forEach((id) => questionIds.add(id));
+  });
+  return [...questionIds];
+};
+
+// Join codes are reserved by the createMatch and tournament Cloud Functions and
+// released when the match completes or the code expires
 export const getGameByMatchIdCode = async (matchIdCode: string) => {
-  // Query by matchIdCode only (type field may not exist in all documents)
-  // The security rules allow reading games with matchIdCode
-  const q = query(
-    gamesCollection, 
-    where('matchIdCode', '==', matchIdCode.toUpperCase())
-  );
-  const snapshot = await getDocs(q);
-  if (snapshot.empty) {
+  const codeDoc = await getDoc(doc(db, 'matchCodes', matchIdCode.trim().toUpperCase()));
+  if (!codeDoc.exists()) {
     return null;
   }
-  const doc = snapshot.docs[0];
-  const data = doc.data();
-  
-  return {
-    id: doc.id,
-    ...data,
-    startedAt: data.startedAt?.toDate() || new Date(),
-    endedAt: data.endedAt?.toDate(),
-  } as Game;
+  const { gameId, expiresAt } = codeDoc.data();
+  if (expiresAt?.toDate() <= new Date()) {
+    return null;
+  }
+  return getGame(gameId);
 };
 
 // Users Collection
@@ -612,22 +710,87 @@ export const getMatchHistoryByTeam = async (teamId: string, limitCount: number =
   })) as MatchHistory[];
 };
 
-// Leaderboards Collection
-export const leaderboardsCollection = collection(db, 'leaderboards');
+// Attempts Collection (per-question answer log, written only by Cloud Functions)
+export const attemptsCollection = collection(db, 'attempts');
 
-export const getTeamLeaderboard = async (teamId: string) => {
+// Filter by playerId for a player's own log, or by teamId for a coach's view of their team
+export const getAttemptsByGame = async (gameId: string, filters: { playerId?: string; teamId?: string } = {}) => {
+  const constraints = [where('gameId', '==', gameId)];
+  if (filters.playerId) {
+    constraints.push(where('playerId', '==', filters.playerId));
+  }
+  if (filters.teamId) {
+    constraints.push(where('teamId', '==', filters.teamId));
+  }
+  const snapshot = await getDocs(query(attemptsCollection, ...constraints));
+  const attempts = snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+    createdAt: doc.data().createdAt?.toDate() || new Date(),
+  })) as Attempt[];
+  return attempts.sort((a, b) => a.questionIndex - b.questionIndex);
+};
+
+export const getAttemptsByPlayer = async (playerId: string, limitCount: number = 500) => {
   const q = query(
-    leaderboardsCollection,
-    where('teamId', '==', teamId),
-    orderBy('accuracy', 'desc'),
-    orderBy('avgBuzzTime', 'asc')
+    attemptsCollection,
+    where('playerId', '==', playerId),
+    orderBy('createdAt', 'desc'),
+    limit(limitCount)
   );
   const snapshot = await getDocs(q);
   return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...doc.data(),
+    createdAt: doc.data().createdAt?.toDate() || new Date(),
+  })) as Attempt[];
+};
+
+// Leaderboards Collection
+export const leaderboardsCollection = collection(db, 'leaderboards');
+
+export const leaderboardWindowsCollection = collection(db, 'leaderboardWindows');
+
+const toLeaderboardEntries = (docs: QueryDocumentSnapshot[]) =>
+  docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
     lastUpdated: doc.data().lastUpdated?.toDate() || new Date(),
   })) as LeaderboardEntry[];
+
+export const getTeamLeaderboard = async (teamId: string, window: LeaderboardWindow = 'all') => {
+  const q = window === 'all'
+    ? query(
+        leaderboardsCollection,
+        where('teamId', '==', teamId),
+        orderBy('accuracy', 'desc'),
+        orderBy('avgBuzzTime', 'asc')
+      )
+    : query(
+        leaderboardWindowsCollection,
+        where('teamId', '==', teamId),
+        where('period', '==', getLeaderboardPeriod(window))
+      );
+  const snapshot = await getDocs(q);
+  return toLeaderboardEntries(snapshot.docs);
+};
+
+// League-wide leaderboard: every opted-in team at a level
+export const getLeagueLeaderboard = async (level: 'EL' | 'MS' | 'HS', window: LeaderboardWindow = 'all') => {
+  const q = window === 'all'
+    ? query(
+        leaderboardsCollection,
+        where('leagueOptIn', '==', true),
+        where('levels', 'array-contains', level)
+      )
+    : query(
+        leaderboardWindowsCollection,
+        where('leagueOptIn', '==', true),
+        where('levels', 'array-contains', level),
+        where('period', '==', getLeaderboardPeriod(window))
+      );
+  const snapshot = await getDocs(q);
+  return toLeaderboardEntries(snapshot.docs);
 };
 
 // Settings Collection
@@ -641,7 +804,7 @@ export const getGameSettings = async (teamId?: string) => {
     if (teamSettingsDoc.exists()) {
       const data = teamSettingsDoc.data();
       console.log(`Found team-specific settings for teamId: ${teamId}`, data);
-      return data as GameSettings;
+      return { ...data, scoring: normalizeScoringRules(data.scoring) } as GameSettings;
     }
   }
   
@@ -651,7 +814,7 @@ export const getGameSettings = async (teamId?: string) => {
   if (defaultSettingsDoc.exists()) {
     const data = defaultSettingsDoc.data();
     console.log('Using default settings document', data);
-    return data as GameSettings;
+    return { ...data, scoring: normalizeScoringRules(data.scoring) } as GameSettings;
   }
   
   // Return hardcoded defaults only if no settings exist in database
@@ -660,6 +823,7 @@ export const getGameSettings = async (teamId?: string) => {
     questionTime: 10,
     hesitationTime: 5,
     wpm: 150,
+    scoring: DEFAULT_SCORING_RULES,
   } as GameSettings;
 };
 
@@ -677,6 +841,12 @@ export const updateGameSettings = async (settings: GameSettings, teamId?: string
   if (settings.teamId !== undefined && settings.teamId !== null && settings.teamId !== '') {
     settingsDocData.teamId = settings.teamId;
   }
+  if (settings.minLeaderboardQuestions !== undefined) {
+    settingsDocData.minLeaderboardQuestions = settings.minLeaderboardQuestions;
+  }
+  if (settings.scoring !== undefined) {
+    settingsDocData.scoring = normalizeScoringRules(settings.scoring);
+  }
   
   await setDoc(settingsRef, settingsDocData);
 };
@@ -749,3 +919,91 @@ export const markAllNotificationsAsRead = async (userId: string) => {
 
 
 
+
+// Tournaments Collection (written only by the tournament Cloud Functions)
+export const tournamentsCollection = collection(db, 'tournaments');
+
+export const toTournament = (id: string, data: DocumentData) => ({
+  id,
+  ...data,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  completedAt: data.completedAt?.toDate(),
+}) as Tournament;
+
+// Tournaments the team hosts or was invited to, newest first
+export const getTournamentsByTeam = async (teamId: string) => {
+  const q = query(tournamentsCollection, where('teamIds', 'array-contains', teamId));
+  const snapshot = await getDocs(q);
+  return snapshot.docs
+    .map((doc) => toTournament(doc.id, doc.data()))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// Packets Collection (plays are recorded by Cloud Functions)
+export const packetsCollection = collection(db, 'packets');
+
+const toPacket = (id: string, data: DocumentData) => {
+  const plays: Record<string, PacketPlay> = {};
+  Object.entries((data.plays || {}) as Record<string, DocumentData>).forEach(([playerId, play]) => {
+    plays[playerId] = { ...play, lastPlayedAt: play.lastPlayedAt?.toDate() || new Date() } as PacketPlay;
+  });
+  return {
+    id,
+    ...data,
+    plays,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  } as Packet;
+};
+
+export const getPacket = async (packetId: string) => {
+  const packetDoc = await getDoc(doc(db, 'packets', packetId));
+  return packetDoc.exists() ? toPacket(packetDoc.id, packetDoc.data()) : null;
+};
+
+// The team's packets, most recently edited first
+export const getPacketsByTeam = async (teamId: string) => {
+  const q = query(packetsCollection, where('teamId', '==', teamId));
+  const snapshot = await getDocs(q);
+  return snapshot.docs
+    .map((doc) => toPacket(doc.id, doc.data()))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+type PacketFields = Pick<Packet, 'name' | 'questionIds' | 'subjectCounts' | 'level' | 'notes'>;
+
+export const createPacket = async (packet: PacketFields & Pick<Packet, 'teamId' | 'coachId'>) => {
+  const packetRef = doc(packetsCollection);
+  const packetDocData: DocumentData = {
+    name: packet.name,
+    teamId: packet.teamId,
+    coachId: packet.coachId,
+    questionIds: packet.questionIds,
+    subjectCounts: packet.subjectCounts,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  };
+  if (packet.level) {
+    packetDocData.level = packet.level;
+  }
+  if (packet.notes) {
+    packetDocData.notes = packet.notes;
+  }
+  await setDoc(packetRef, packetDocData);
+  return packetRef.id;
+};
+
+export const updatePacket = async (packetId: string, updates: PacketFields) => {
+  await updateDoc(doc(db, 'packets', packetId), {
+    name: updates.name,
+    questionIds: updates.questionIds,
+    subjectCounts: updates.subjectCounts,
+    level: updates.level || deleteField(),
+    notes: updates.notes || deleteField(),
+    updatedAt: serverTimestamp(),
+  });
+};
+
+export const deletePacket = async (packetId: string) => {
+  await deleteDoc(doc(db, 'packets', packetId));
+};
@@ -1,20 +1,198 @@
 import { httpsCallable } from 'firebase/functions';
 import { functions } from '../config/firebase';
+import { Game, MatchControlAction, MatchState, TournamentFormat, TournamentTiebreaker } from '../types/firebase';
 
 // Cloud Functions for server-side logic
+// Request/response shapes mirror the callables in functions/src.
 
-export const arbitrateBuzzer = httpsCallable(functions, 'arbitrateBuzzer');
-export const createMatch = httpsCallable(functions, 'createMatch');
-export const writeMatchStats = httpsCallable(functions, 'writeMatchStats');
-export const calculateLeaderboard = httpsCallable(functions, 'calculateLeaderboard');
-export const commitQuestionEdit = httpsCallable(functions, 'commitQuestionEdit');
+export interface ArbitrateBuzzerRequest {
+  gameId: string;
+  questionIndex: number;
+  clientBuzzAt?: number; // Client clock (ms) when the buzzer was pressed, for latency compensation
+}
 
+export interface ArbitrateBuzzerResponse {
+  accepted: boolean;
+  buzzedBy: string | null;
+  buzzedAt?: number;
+}
 
+export interface SyncClockRequest {
+  gameId: string;
+  // Send the best estimate right after the handshake rounds, with this device's clock at sending;
+  // omit both for a handshake round. The server measures the round trip itself
+  offsetMs?: number;
+  clientTime?: number;
+}
 
+export interface SyncClockResponse {
+  serverTime: number;
+}
 
+export interface CreateMatchRequest {
+  questionIds: string[];
+  teamId?: string;
+  opponentTeamId?: string; // Invite another team for a team-vs-team match
+  scheduledAt?: number; // Epoch ms: schedule the match instead of opening the lobby now
+  minPlayers?: number; // Players needed before a scheduled match auto-begins
+  packetId?: string; // The saved packet the questions were loaded from
+}
 
+export interface CreateMatchResponse {
+  gameId: string;
+  matchIdCode: string;
+}
 
+export interface StartMatchRequest {
+  gameId: string;
+}
 
+export interface StartMatchResponse {
+  started: boolean;
+}
 
+export interface SubmitMatchAnswerRequest {
+  gameId: string;
+  questionIndex: number;
+  answer: string;
+}
 
+export interface SubmitMatchAnswerResponse {
+  correct: boolean;
+  outcome: 'correct' | 'incorrect' | 'hesitation';
+}
 
+export interface RevealQuestionTextRequest {
+  gameId: string;
+  questionIndex: number;
+}
+
+export interface RevealQuestionTextResponse {
+  questionIndex: number;
+  text: string; // The words revealed so far by the server clock
+}
+
+export interface AdvanceMatchRequest {
+  gameId: string;
+  questionIndex: number;
+}
+
+export interface AdvanceMatchResponse {
+  advanced: boolean;
+  finished: boolean;
+}
+
+export interface ControlMatchRequest {
+  gameId: string;
+  action: MatchControlAction;
+  playerId?: string; // Required to kick a player
+}
+
+export interface ControlMatchResponse {
+  finished: boolean;
+}
+
+export interface CreateSpectatorTokenRequest {
+  gameId: string;
+  regenerate?: boolean; // Replace the token so earlier links stop working
+}
+
+export interface CreateSpectatorTokenResponse {
+  token: string;
+}
+
+export interface GetSpectatorViewRequest {
+  gameId: string;
+  token: string;
+}
+
+export interface GetSpectatorViewResponse {
+  game: {
+    status: Game['status'];
+    matchIdCode: string | null;
+    teamNames: Record<string, string> | null;
+    endedEarly: boolean;
+  };
+  matchState: MatchState | null; // Question text as revealed at the poll; the correct answer is withheld until the question closes
+}
+
+// What the player did on one practice question; the server judges it
+export interface PracticeAttemptInput {
+  questionIndex: number;
+  // Seconds from the start of the question to the buzz; null if the player never buzzed
+  buzzTime: number | null;
+  wordsRevealed: number;
+  // null for a timeout, or a hesitation where no answer was selected
+  answer: string | null;
+}
+
+export interface WriteMatchStatsRequest {
+  gameId: string;
+  attempts: PracticeAttemptInput[];
+  abandoned?: boolean; // The player gave up part-way; recorded as a partial (DNF) result
+}
+
+export interface WriteMatchStatsResponse {
+  matchHistoryId: string;
+  score: number;
+  points: number; // Under the team's scoring rules
+  personalBest: boolean; // A timed practice score beat the player's best for that sprint length
+}
+
+export interface CalculateLeaderboardRequest {
+  teamId?: string;
+}
+
+export interface CalculateLeaderboardResponse {
+  teamId: string;
+  entries: number;
+}
+
+export interface CreateTournamentRequest {
+  name: string;
+  format: TournamentFormat;
+  playerIds: string[]; // Players from the coach's team
+  questionIds: string[]; // Question pool; each round draws the next questionsPerMatch
+  questionsPerMatch: number;
+  tiebreakers?: TournamentTiebreaker[];
+  opponentTeamId?: string; // Adds that team's whole roster
+}
+
+export interface CreateTournamentResponse {
+  tournamentId: string;
+}
+
+export interface CommitQuestionEditRequest {
+  action: 'create' | 'update' | 'delete';
+  questionId?: string;
+  question?: {
+    subjectArea: string;
+    questionText: string;
+    correctAnswer: string;
+    distractors: string[];
+    level: 'EL' | 'MS' | 'HS';
+    isPublic: boolean;
+    importYear: number;
+    teamId?: string;
+    validationStatus?: 'pending' | 'approved' | 'flagged' | 'rejected';
+  };
+}
+
+export interface CommitQuestionEditResponse {
+  questionId: string;
+}
+
+export const arbitrateBuzzer = httpsCallable<ArbitrateBuzzerRequest, ArbitrateBuzzerResponse>(functions, 'arbitrateBuzzer');
+export const syncClock = httpsCallable<SyncClockRequest, SyncClockResponse>(functions, 'syncClock');
+export const createMatch = httpsCallable<CreateMatchRequest, CreateMatchResponse>(functions, 'createMatch');
+export const startMatch = httpsCallable<StartMatchRequest, StartMatchResponse>(functions, 'startMatch');
+export const submitMatchAnswer = httpsCallable<SubmitMatchAnswerRequest, SubmitMatchAnswerResponse>(functions, 'submitMatchAnswer');
+export const revealQuestionText = httpsCallable<RevealQuestionTextRequest, RevealQuestionTextResponse>(functions, 'revealQuestionText');
+export const advanceMatch = httpsCallable<AdvanceMatchRequest, AdvanceMatchResponse>(functions, 'advanceMatch');
+export const controlMatch = httpsCallable<ControlMatchRequest, ControlMatchResponse>(functions, 'controlMatch');
+export const createSpectatorToken = httpsCallable<CreateSpectatorTokenRequest, CreateSpectatorTokenResponse>(functions, 'createSpectatorToken');
+export const getSpectatorView = httpsCallable<GetSpectatorViewRequest, GetSpectatorViewResponse>(functions, 'getSpectatorView');
+export const writeMatchStats = httpsCallable<WriteMatchStatsRequest, WriteMatchStatsResponse>(functions, 'writeMatchStats');
+export const calculateLeaderboard = httpsCallable<CalculateLeaderboardRequest, CalculateLeaderboardResponse>(functions, 'calculateLeaderboard');
+export const commitQuestionEdit = httpsCallable<CommitQuestionEditRequest, CommitQuestionEditResponse>(functions, 'commitQuestionEdit');
+export const createTournament = httpsCallable<CreateTournamentRequest, CreateTournamentResponse>(functions, 'createTournament');
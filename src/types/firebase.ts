@@ -19,6 +19,7 @@ export interface Team {
   createdAt: Date;
   playerIds: string[];
   levels?: ('EL' | 'MS' | 'HS')[]; // Elementary, Middle School, High School
+  leagueOptIn?: boolean; // Show this team on the league-wide leaderboards for its levels
 }
 
 export interface Question {
@@ -39,6 +40,27 @@ export interface Question {
   flaggedReason?: string; // Reason why question was flagged
   validatedBy?: string; // User ID who validated the question
   validatedAt?: Date; // When question was validated
+  stats?: QuestionStats; // Item analytics, written by the aggregateItemStats Cloud Function
+  answersLocked?: boolean; // Hidden from students while a match or tournament using it is unfinished (server-owned)
+  lockedBy?: string[]; // Game and tournament IDs holding the lock (server-owned)
+}
+
+// Empirical item analytics built from recorded attempts
+export interface QuestionStats {
+  attempts: number;
+  correct: number;
+  percentCorrect: number;
+  answered: number; // Attempts that picked an answer
+  answerCounts: Record<string, number>; // Picks per answer text
+  buzzCount: number;
+  buzzPointSum: number;
+  meanBuzzPoint: number | null; // Mean fraction of words revealed at the buzz (0-1)
+  discrimination: number | null; // Correlation with the rest-of-game score; null until enough attempts
+  discriminationCount: number;
+  correctSum: number;
+  restScoreSum: number;
+  restScoreSqSum: number;
+  correctRestScoreSum: number;
 }
 
 export interface Player {
@@ -52,21 +74,64 @@ export interface Player {
   totalQuestions: number;
   avgBuzzTime: number;
   correctBySubject: Record<string, number>;
+  totalBySubject?: Record<string, number>; // Missing on players who haven't played since it was added
+  timedBests?: Record<string, number>; // Best timed-practice score keyed by sprint minutes
   createdAt: Date;
 }
 
 export interface Game {
   id: string;
   type: 'practice' | 'match';
+  subtype?: 'timed'; // Timed practice runs against a clock instead of a question count
+  timeLimitMinutes?: number;
   playerId?: string; // Optional: required for practice games, not for match games
   teamId?: string;
   coachId?: string;
   questionIds: string[];
   startedAt: Date;
   endedAt?: Date;
-  status: 'waiting' | 'active' | 'completed';
+  status: 'scheduled' | 'waiting' | 'active' | 'completed'; // 'scheduled' until the lobby opens
   matchIdCode?: string; // Short code for students to join
+  scheduledAt?: Date; // Scheduled matches begin automatically at this time
+  minPlayers?: number; // Players needed before a scheduled match auto-begins
   playerIds?: string[]; // Array of player IDs who joined the match
+  teamIds?: string[]; // Team-vs-team: host team first, then the invited team
+  teamNames?: Record<string, string>; // Team names keyed by team ID
+  teamScores?: Record<string, number>; // Final team points, set when a team match completes
+  endedEarly?: boolean; // The coach ended the match before the last question
+  abandoned?: boolean; // Everyone stopped playing, so the server closed the match after its deadline
+  tournamentId?: string; // Tournament match: the owning tournament and its bracket slot
+  tournamentMatchId?: string;
+  tournamentPlayerIds?: string[]; // The only players who may join a tournament match
+  packetId?: string; // The saved packet the questions were loaded from
+  shuffleSeed?: string; // Seeds the order of every question's answer choices (see util/shuffle.ts)
+  connections?: Record<string, ClientConnection>; // Each player's lobby clock sync, keyed by user ID
+  progress?: PracticeProgress; // In-progress practice session, saved after every question
+}
+
+// Where a practice session stands, so it can be resumed after a refresh or recorded as partial
+export interface PracticeProgress {
+  nextQuestionIndex: number;
+  score: number; // Correct answers so far
+  points: number; // Under the team's scoring rules
+  // Answer log so far, in the shape writeMatchStats takes (buzz times in seconds)
+  attempts: { questionIndex: number; buzzTime: number | null; wordsRevealed: number; answer: string | null }[];
+  correctBySubject: Record<string, number>;
+  totalBySubject: Record<string, number>;
+  updatedAt: Date;
+}
+
+// A player's clock offset and round trip to the server, measured by the syncClock handshake
+export interface ClientConnection {
+  offsetMs: number; // Add to the client clock to get server time
+  rttMs: number; // Measured by the server
+  measuredAt: number; // Server time (ms)
+}
+
+// A player's heartbeat in a match lobby or live match (games/{gameId}/presence/{playerId})
+export interface MatchPresence {
+  online: boolean; // False once the player leaves the page
+  lastSeen: Date;
 }
 
 export interface MatchHistory {
@@ -74,8 +139,12 @@ export interface MatchHistory {
   gameId: string;
   playerId: string;
   teamId?: string;
+  teamIds?: string[]; // Every team in a team-vs-team match
   type: 'practice' | 'match';
-  score: number;
+  subtype?: 'timed';
+  timeLimitMinutes?: number;
+  score: number; // Correct answers
+  points?: number; // Points under the team's scoring rules; absent on older results
   total: number;
   avgBuzzTime: number;
   correctBySubject: Record<string, number>;
@@ -84,6 +153,29 @@ export interface MatchHistory {
   startedAt: Date;
   completedAt: Date;
   hesitationCount: number;
+  dnf?: boolean; // Did not finish: partial results from an abandoned match or practice session
+}
+
+export type AttemptOutcome = 'correct' | 'incorrect' | 'hesitation' | 'timeout';
+
+// One player's attempt at one question in a practice game or match
+export interface Attempt {
+  id: string;
+  gameId: string;
+  gameType: 'practice' | 'match';
+  playerId: string;
+  teamId?: string;
+  teamIds?: string[];
+  questionId: string;
+  questionIndex: number;
+  subjectArea: string;
+  buzzTime: number | null; // Seconds to buzz; null if the player never buzzed
+  wordsRevealed: number;
+  totalWords: number;
+  answer: string | null; // null for a timeout or a hesitation with no answer
+  correct: boolean;
+  outcome: AttemptOutcome;
+  createdAt: Date;
 }
 
 export interface LeaderboardEntry {
@@ -96,25 +188,187 @@ export interface LeaderboardEntry {
   wins: number;
   highScore: number;
   totalGames: number;
+  totalQuestions?: number; // Missing on entries written before windows existed
+  teamName?: string;
+  levels?: ('EL' | 'MS' | 'HS')[];
+  leagueOptIn?: boolean;
+  window?: 'all' | 'week' | 'month' | 'season';
+  period?: string; // e.g. 'week-2026-W42'; absent for all-time entries
   lastUpdated: Date;
 }
 
+// How answers are scored; see src/util/scoring.ts
+export interface ScoringRules {
+  correctPoints: number;
+  earlyBuzzBonus: number; // Flat bonus for a correct buzz before the question is fully revealed
+  speedPoints: number; // Scaled by how much of the question was still hidden at the buzz
+  interruptPenalty: number; // Wrong answer or hesitation before the question is fully revealed
+  incorrectPenalty: number; // Wrong answer or hesitation after the question is fully revealed
+  subjectWeights: Record<string, number>; // Multiplier on a correct answer's points; missing subjects count 1
+}
+
 export interface GameSettings {
   questionTime: number;
   hesitationTime: number;
   wpm: number;
   teamId?: string;
+  minLeaderboardQuestions?: number; // Questions needed to be ranked by accuracy or buzz time
+  scoring?: ScoringRules;
+}
+
+// Per-player running tallies for a live match, turned into matchHistory on finish
+export interface MatchPlayerState {
+  score: number; // Correct answers
+  points?: number; // Points under the match's scoring rules
+  correctBySubject: Record<string, number>;
+  totalBySubject: Record<string, number>;
+  buzzTimes: number[];
+  hesitationCount: number;
+  teamId?: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+export interface MatchQuestionResult {
+  questionIndex: number;
+  outcome: AttemptOutcome;
+  playerId?: string;
+  correctAnswer?: string; // Only set once the question is closed
 }
 
 export interface MatchState {
   gameId: string;
+  status: 'playing' | 'reviewing' | 'finished';
   currentQuestionIndex: number;
+  questionCount: number;
+  questionWordCount: number;
+  questionText?: string; // Current question text up to where the reveal last froze; later words come from revealQuestionText
+  answerChoices?: string[]; // Current question's choices in display order, from the first buzz; which is correct stays on the server
   questionStartTime: number;
+  revealStartedAt: number | null; // Server time the current reveal segment began; null while frozen by a buzz
   buzzerState: 'idle' | 'locked' | 'buzzed';
-  buzzedBy?: string;
-  buzzedAt?: number;
-  revealedWordsCount: number;
+  buzzedBy?: string | null;
+  buzzedAt?: number | null;
+  buzzReceivedAt?: number | null; // Server time the winning buzz arrived; buzzedAt is when it was pressed
+  revealedWordsCount: number; // Words revealed before the current reveal segment began
   questionFullyRevealed: boolean;
+  lockedOutPlayerIds: string[];
+  players: Record<string, MatchPlayerState>;
+  settings: { questionTime: number; hesitationTime: number; wpm: number; scoring?: ScoringRules };
+  lastResult: MatchQuestionResult | null;
+  reviewUntil: number | null;
+  teamScores?: Record<string, number>; // Running points per team; only set for team-vs-team matches
+  pausedAt?: number | null; // Server time the coach paused the match; null or absent while running
+  skippedQuestionIndexes?: number[]; // Questions the coach threw out
+  kickedPlayerIds?: string[]; // Players the coach removed from the match
+  eventCount?: number; // Events logged so far
+}
+
+export type MatchEventType =
+  | 'match_start'
+  | 'question_start'
+  | 'reveal_resume'
+  | 'buzz'
+  | 'answer'
+  | 'hesitation'
+  | 'timeout'
+  | 'question_end'
+  | 'pause'
+  | 'resume'
+  | 'skip'
+  | 'kick'
+  | 'match_end';
+
+// One entry in a live match's event log (games/{gameId}/events)
+export interface MatchEvent {
+  id: string;
+  seq: number;
+  type: MatchEventType;
+  at: number; // Server time (ms) the event took effect
+  questionIndex: number;
+  playerId?: string;
+  wordsRevealed?: number; // Words on screen at a buzz, or where the reveal picks up again
+  answer?: string;
+  correct?: boolean;
+  outcome?: AttemptOutcome; // How a question ended (question_end)
+}
+
+export type MatchControlAction = 'pause' | 'resume' | 'skip' | 'kick' | 'end';
+
+export type TournamentFormat = 'single_elimination' | 'round_robin';
+
+// Tiebreak rules in priority order; seed is always the last resort
+export type TournamentTiebreaker = 'head_to_head' | 'total_score' | 'avg_buzz_time' | 'seed';
+
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  slot: number;
+  playerIds: (string | null)[]; // null while a bracket slot waits on an earlier round
+  status: 'pending' | 'ready' | 'completed' | 'bye';
+  gameId?: string;
+  matchIdCode?: string;
+  winnerId?: string;
+  scores?: Record<string, number>;
+  avgBuzzTimes?: Record<string, number>;
+}
+
+export interface TournamentStanding {
+  playerId: string;
+  played: number;
+  wins: number;
+  losses: number;
+  totalScore: number;
+  avgBuzzTime: number;
+  rank: number;
+}
+
+// Written only by the tournament Cloud Functions
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  coachId: string;
+  teamId: string;
+  teamIds: string[]; // Host team first, then an invited team
+  teamNames: Record<string, string>;
+  playerIds: string[]; // Seed order, seed 1 first
+  playerNames: Record<string, string>;
+  questionIds: string[];
+  questionsPerMatch: number;
+  tiebreakers: TournamentTiebreaker[];
+  rounds: number;
+  matches: TournamentMatch[];
+  standings?: TournamentStanding[]; // Round robin only
+  status: 'active' | 'completed';
+  championId?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+// A student's record of playing a packet, written by Cloud Functions
+export interface PacketPlay {
+  count: number;
+  lastGameId: string;
+  lastType: 'practice' | 'match';
+  lastScore: number;
+  lastTotal: number;
+  lastPlayedAt: Date;
+}
+
+// A saved, ordered question list for matches and practice
+export interface Packet {
+  id: string;
+  name: string;
+  teamId: string;
+  coachId: string;
+  questionIds: string[];
+  subjectCounts: Record<string, number>; // Questions per subject area, counted on save
+  level?: 'EL' | 'MS' | 'HS';
+  notes?: string;
+  plays?: Record<string, PacketPlay>; // Keyed by player ID
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Notification {
@@ -0,0 +1,147 @@
+/**
+ * Adaptive practice question selection
+ * Resurfaces missed questions on a spaced-repetition schedule, skips questions
+ * the player recently got right, and fills the rest of the session weighted
+ * toward the player's weakest subjects.
+ */
+
+import { Attempt, Question } from '../types/firebase';
+import { shuffle } from './practiceSelection';
+
+// Days until a missed question comes back, by how many times it has been
+// answered correctly since the last miss. Past the end it has graduated.
+export const REVIEW_INTERVALS_DAYS = [1, 3, 7, 14, 30];
+
+// Questions answered correctly (and never missed since) stay out this long
+export const RECENT_CORRECT_DAYS = 14;
+
+// At most this share of a session is spent on reviews
+const MAX_REVIEW_SHARE = 0.5;
+
+// Even a player's strongest subject keeps turning up occasionally
+const MIN_SUBJECT_WEIGHT = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface QuestionHistory {
+  lastAttemptAt: Date;
+  everMissed: boolean;
+  // Correct answers in a row since the last miss
+  correctStreak: number;
+}
+
+export interface SubjectStats {
+  correctBySubject: Record<string, number>;
+  totalBySubject: Record<string, number>;
+}
+
+const buildQuestionHistory = (attempts: Attempt[]): Map<string, QuestionHistory> => {
+  const history = new Map<string, QuestionHistory>();
+  [...attempts]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .forEach((attempt) => {
+      const previous = history.get(attempt.questionId);
+      history.set(attempt.questionId, {
+        lastAttemptAt: attempt.createdAt,
+        everMissed: (previous?.everMissed ?? false) || !attempt.correct,
+        correctStreak: attempt.correct ? (previous?.correctStreak ?? 0) + 1 : 0,
+      });
+    });
+  return history;
+};
+
+/**
+ * Selection weight per subject: lower accuracy means a higher weight.
+ * Accuracy is smoothed so subjects with little data sit near the middle.
+ */
+export const getSubjectWeights = (subjects: string[], stats: SubjectStats): Record<string, number> => {
+  const weights: Record<string, number> = {};
+  subjects.forEach((subject) => {
+    const correct = stats.correctBySubject[subject] || 0;
+    const total = stats.totalBySubject[subject] || 0;
+    const accuracy = (correct + 1) / (total + 2);
+    weights[subject] = Math.max(MIN_SUBJECT_WEIGHT, 1 - accuracy);
+  });
+  return weights;
+};
+
+/**
+ * Pick `count` questions from `questions` for an adaptive practice session.
+ *
+ * 1. Missed questions whose review is due, most overdue first (up to half the session)
+ * 2. Fresh questions, picking a subject by weakness each time
+ * 3. If the pool runs dry, the remaining due reviews, then the least recently seen
+ */
+export const selectAdaptiveQuestions = (
+  questions: Question[],
+  attempts: Attempt[],
+  stats: SubjectStats,
+  count: number,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): Question[] => {
+  const history = buildQuestionHistory(attempts);
+  const daysSince = (date: Date) => (now.getTime() - date.getTime()) / DAY_MS;
+
+  const dueReviews: { question: Question; overdue: number }[] = [];
+  const fresh: Question[] = [];
+  const heldBack: Question[] = [];
+
+  questions.forEach((question) => {
+    const entry = history.get(question.id);
+    if (!entry) {
+      fresh.push(question);
+      return;
+    }
+    const graduated = entry.correctStreak >= REVIEW_INTERVALS_DAYS.length;
+    if (entry.everMissed && !graduated) {
+      const interval = REVIEW_INTERVALS_DAYS[entry.correctStreak];
+      const elapsed = daysSince(entry.lastAttemptAt);
+      if (elapsed >= interval) {
+        dueReviews.push({ question, overdue: elapsed / interval });
+      } else {
+        heldBack.push(question);
+      }
+      return;
+    }
+    if (daysSince(entry.lastAttemptAt) < RECENT_CORRECT_DAYS) {
+      heldBack.push(question);
+    } else {
+      fresh.push(question);
+    }
+  });
+
+  const reviews = dueReviews.sort((a, b) => b.overdue - a.overdue).map(({ question }) => question);
+  const reviewCount = Math.ceil(count * MAX_REVIEW_SHARE);
+  const selected = reviews.slice(0, reviewCount);
+
+  // Weighted subject draws from the fresh pool
+  const bySubject = new Map<string, Question[]>();
+  shuffle(fresh, random).forEach((question) => {
+    bySubject.set(question.subjectArea, [...(bySubject.get(question.subjectArea) || []), question]);
+  });
+  const weights = getSubjectWeights([...bySubject.keys()], stats);
+  while (selected.length < count && bySubject.size > 0) {
+    const subjects = [...bySubject.keys()];
+    const totalWeight = subjects.reduce((sum, subject) => sum + weights[subject], 0);
+    let roll = random() * totalWeight;
+    const subject = subjects.find((candidate) => (roll -= weights[candidate]) < 0) ?? subjects[subjects.length - 1];
+    const pool = bySubject.get(subject)!;
+    selected.push(pool.pop()!);
+    if (pool.length === 0) {
+      bySubject.delete(subject);
+    }
+  }
+
+  if (selected.length < count) {
+    const leftovers = [
+      ...reviews.slice(reviewCount),
+      ...heldBack.sort(
+        (a, b) => history.get(a.id)!.lastAttemptAt.getTime() - history.get(b.id)!.lastAttemptAt.getTime()
+      ),
+    ];
+    selected.push(...leftovers.slice(0, count - selected.length));
+  }
+
+  return shuffle(selected, random);
+};
@@ -0,0 +1,37 @@
+/**
+ * Leaderboard time windows
+ * Period keys match the ones the Cloud Functions write (functions/src/leaderboard.ts)
+ */
+
+export type LeaderboardWindow = 'all' | 'week' | 'month' | 'season';
+
+// Seasons follow the school year, starting in August (0-based month)
+const SEASON_START_MONTH = 7;
+
+// Players need this many questions answered in the window to be ranked by accuracy or buzz time
+export const DEFAULT_MIN_LEADERBOARD_QUESTIONS = 20;
+
+/**
+ * Period key for a window containing the given date, e.g. 'week-2026-W42',
+ * 'month-2026-10' or 'season-2026-27'. Weeks are ISO weeks in UTC.
+ */
+export function getLeaderboardPeriod(window: Exclude<LeaderboardWindow, 'all'>, date: Date = new Date()): string {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (window === 'month') {
+    return `month-${year}-${String(month + 1).padStart(2, '0')}`;
+  }
+
+  if (window === 'season') {
+    const seasonStart = month >= SEASON_START_MONTH ? year : year - 1;
+    return `season-${seasonStart}-${String((seasonStart + 1) % 100).padStart(2, '0')}`;
+  }
+
+  // ISO weeks belong to the year of their Thursday
+  const day = new Date(Date.UTC(year, month, date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `week-${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
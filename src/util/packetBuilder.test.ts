@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from '../types/firebase';
+import { buildPacket, PacketConstraints } from './packetBuilder';
+
+const makeQuestion = (id: string, subjectArea: string, overrides: Partial<Question> = {}): Question => ({
+  id,
+  subjectArea,
+  questionText: `Question ${id}`,
+  correctAnswer: 'Right',
+  distractors: ['Wrong 1', 'Wrong 2', 'Wrong 3'],
+  level: 'MS',
+  isPublic: true,
+  createdBy: 'coach',
+  importDate: new Date(0),
+  importYear: 2024,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+// Ten questions in each of three subjects
+const pool: Question[] = ['SS', 'SC', 'MA'].flatMap((subject) =>
+  Array.from({ length: 10 }, (_, i) => makeQuestion(`${subject}-${i}`, subject))
+);
+
+const constraints = (overrides: Partial<PacketConstraints> = {}): PacketConstraints => ({
+  count: 12,
+  subjectQuotas: {},
+  levels: [],
+  difficulty: 'any',
+  approvedOnly: false,
+  excludeQuestionIds: [],
+  ...overrides,
+});
+
+const questionIds = (result: ReturnType<typeof buildPacket>) => {
+  if (!result.ok) throw new Error(result.errors.join('\n'));
+  return result.questionIds;
+};
+
+describe('buildPacket', () => {
+  it('gives the same packet for the same pool, constraints and seed', () => {
+    const first = questionIds(buildPacket(pool, constraints({ subjectQuotas: { SS: 4 } }), 'ABC123'));
+    const second = questionIds(buildPacket([...pool].reverse(), constraints({ subjectQuotas: { SS: 4 } }), 'ABC123'));
+    expect(second).toEqual(first);
+    expect(new Set(first).size).toBe(12);
+  });
+
+  it('gives a different packet for a different seed', () => {
+    expect(questionIds(buildPacket(pool, constraints(), 'ABC123')))
+      .not.toEqual(questionIds(buildPacket(pool, constraints(), 'XYZ789')));
+  });
+
+  it('fills subject quotas exactly and the rest from other subjects', () => {
+    const ids = questionIds(buildPacket(pool, constraints({ subjectQuotas: { SS: 3, SC: 5 } }), 'ABC123'));
+    const subjects = ids.map((id) => id.split('-')[0]);
+    expect(subjects.filter((subject) => subject === 'SS')).toHaveLength(3);
+    expect(subjects.filter((subject) => subject === 'SC')).toHaveLength(5);
+    expect(subjects.filter((subject) => subject === 'MA')).toHaveLength(4);
+  });
+
+  it('leaves out excluded, unapproved and off-level questions', () => {
+    const mixedPool = [
+      ...pool.map((q) => ({ ...q, validationStatus: 'approved' as const })),
+      makeQuestion('HS-1', 'SS', { level: 'HS', validationStatus: 'approved' }),
+      makeQuestion('PENDING-1', 'SS', { validationStatus: 'pending' }),
+    ];
+    const ids = questionIds(buildPacket(mixedPool, constraints({
+      count: 29,
+      levels: ['MS'],
+      approvedOnly: true,
+      excludeQuestionIds: ['MA-0'],
+    }), 'ABC123'));
+    expect(ids).toHaveLength(29);
+    expect(ids).not.toContain('MA-0');
+    expect(ids).not.toContain('HS-1');
+    expect(ids).not.toContain('PENDING-1');
+  });
+
+  it('reports each quota shortfall with the filter that caused it', () => {
+    const result = buildPacket(pool, constraints({
+      count: 20,
+      subjectQuotas: { SS: 8, SC: 12 },
+      excludeQuestionIds: ['SS-0', 'SS-1', 'SS-2'],
+    }), 'ABC123');
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      'SC: needs 12; 10 in the question pool → 10 not used recently.',
+      'SS: needs 8; 10 in the question pool → 7 not used recently.',
+    ]);
+  });
+
+  it('rejects quotas that add up to more than the packet', () => {
+    const result = buildPacket(pool, constraints({ count: 5, subjectQuotas: { SS: 3, SC: 3 } }), 'ABC123');
+    expect(result).toEqual({
+      ok: false,
+      errors: ['Subject quotas add up to 6, more than the 5 questions in the packet.'],
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Constraint-based packet builder
+ * Picks a balanced question set from the question pool: a total count,
+ * per-subject quotas, levels, difficulty, approval and recently used
+ * questions. The same pool, constraints and seed always give the same packet.
+ */
+
+import { Question } from '../types/firebase';
+import { shuffle } from './practiceSelection';
+import { seededRandom } from './shuffle';
+
+export type PacketDifficulty = 'any' | 'mixed' | 'easy' | 'medium' | 'hard';
+
+type DifficultyBand = 'easy' | 'medium' | 'hard';
+
+export interface PacketConstraints {
+  count: number;
+  // Exact questions per subject code; subjects left out fill whatever the quotas don't cover
+  subjectQuotas: Record<string, number>;
+  // Empty means every level
+  levels: ('EL' | 'MS' | 'HS')[];
+  difficulty: PacketDifficulty;
+  approvedOnly: boolean;
+  // Questions the team played recently, or that are otherwise off limits
+  excludeQuestionIds: string[];
+}
+
+export type PacketBuildResult =
+  | { ok: true; questionIds: string[] }
+  | { ok: false; errors: string[] };
+
+// Questions need this many attempts before their percent correct sets a difficulty
+export const MIN_RATED_ATTEMPTS = 10;
+const EASY_PERCENT = 70;
+const HARD_PERCENT = 40;
+
+export const DIFFICULTY_LABELS: Record<PacketDifficulty, string> = {
+  any: 'Any difficulty',
+  mixed: 'Mixed (easy, medium and hard in turn)',
+  easy: `Easy (${EASY_PERCENT}%+ correct)`,
+  medium: `Medium (${HARD_PERCENT}-${EASY_PERCENT}% correct)`,
+  hard: `Hard (under ${HARD_PERCENT}% correct)`,
+};
+
+// Difficulty from item analytics; null until the question has enough attempts
+export const getDifficultyBand = (question: Question): DifficultyBand | null => {
+  const stats = question.stats;
+  if (!stats || stats.attempts < MIN_RATED_ATTEMPTS) return null;
+  if (stats.percentCorrect >= EASY_PERCENT) return 'easy';
+  if (stats.percentCorrect < HARD_PERCENT) return 'hard';
+  return 'medium';
+};
+
+// A short random seed to show the coach, so a packet can be rebuilt
+export const newPacketSeed = () => Math.random().toString(36).slice(2, 8).toUpperCase();
+
+// Take `count` questions from a shuffled pool; mixed difficulty takes easy,
+// medium and hard in turn, then unrated questions once a band runs out
+const pickQuestions = (pool: Question[], count: number, difficulty: PacketDifficulty): Question[] => {
+  if (difficulty !== 'mixed') {
+    return pool.slice(0, count);
+  }
+  const bands: Question[][] = [[], [], [], []];
+  pool.forEach((question) => {
+    const band = getDifficultyBand(question);
+    bands[band === 'easy' ? 0 : band === 'medium' ? 1 : band === 'hard' ? 2 : 3].push(question);
+  });
+  const picked: Question[] = [];
+  while (picked.length < count && bands.slice(0, 3).some((band) => band.length > 0)) {
+    bands.slice(0, 3).forEach((band) => {
+      if (picked.length < count && band.length > 0) {
+        picked.push(band.shift()!);
+      }
+    });
+  }
+  return [...picked, ...bands[3].slice(0, count - picked.length)];
+};
+
+/**
+ * Build a packet from the pool under the given constraints. Returns the
+ * question IDs in play order, or every constraint that can't be met with
+ * how many questions are short.
+ */
+export const buildPacket = (
+  questions: Question[],
+  constraints: PacketConstraints,
+  seed: string
+): PacketBuildResult => {
+  const { count, subjectQuotas, levels, difficulty, approvedOnly, excludeQuestionIds } = constraints;
+  const errors: string[] = [];
+  const quotaTotal = Object.values(subjectQuotas).reduce((sum, quota) => sum + quota, 0);
+  if (count < 1) {
+    errors.push('The packet needs at least one question.');
+  }
+  if (quotaTotal > count) {
+    errors.push(`Subject quotas add up to ${quotaTotal}, more than the ${count} questions in the packet.`);
+  }
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const excluded = new Set(excludeQuestionIds);
+  const byLevel = questions.filter((q) => levels.length === 0 || levels.includes(q.level));
+  const byApproval = byLevel.filter((q) => !approvedOnly || q.validationStatus === 'approved');
+  const byRecent = byApproval.filter((q) => !excluded.has(q.id));
+  // Sorted so the result doesn't depend on the order the pool was loaded in
+  const eligible = byRecent
+    .filter((q) => difficulty === 'any' || difficulty === 'mixed' || getDifficultyBand(q) === difficulty)
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  // Say which filter left too few questions when the packet comes up short
+  const describeShortfall = (label: string, needed: number, matches: (q: Question) => boolean) => {
+    const steps: [string, Question[]][] = [
+      ['in the question pool', questions],
+      [levels.length > 0 ? `at level ${levels.join('/')}` : '', byLevel],
+      [approvedOnly ? 'approved' : '', byApproval],
+      [excluded.size > 0 ? 'not used recently' : '', byRecent],
+      [difficulty !== 'any' && difficulty !== 'mixed' ? `rated ${difficulty}` : '', eligible],
+    ];
+    const counts = steps
+      .filter(([name]) => name)
+      .map(([name, pool]) => `${pool.filter(matches).length} ${name}`);
+    return `${label}: needs ${needed}; ${counts.join(' → ')}.`;
+  };
+
+  const random = seededRandom(seed);
+  const picked: Question[] = [];
+  Object.entries(subjectQuotas)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .forEach(([subject, quota]) => {
+      if (quota <= 0) return;
+      const pool = shuffle(eligible.filter((q) => q.subjectArea === subject), random);
+      const chosen = pickQuestions(pool, quota, difficulty);
+      if (chosen.length < quota) {
+        errors.push(describeShortfall(subject, quota, (q) => q.subjectArea === subject));
+      }
+      picked.push(...chosen);
+    });
+
+  // Subjects without a quota share whatever is left
+  const remaining = count - quotaTotal;
+  if (remaining > 0) {
+    const isOpen = (q: Question) => !(q.subjectArea in subjectQuotas);
+    const pool = shuffle(eligible.filter(isOpen), random);
+    const chosen = pickQuestions(pool, remaining, difficulty);
+    if (chosen.length < remaining) {
+      errors.push(describeShortfall(
+        Object.keys(subjectQuotas).length > 0 ? 'Other subjects' : 'Questions',
+        remaining,
+        isOpen
+      ));
+    }
+    picked.push(...chosen);
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, questionIds: shuffle(picked, random).map((q) => q.id) };
+};
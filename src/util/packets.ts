@@ -0,0 +1,35 @@
+/**
+ * Question packet helpers
+ * Packets are saved, ordered question lists that load into CreateMatch and PracticeMode.
+ */
+
+import { Question } from '../types/firebase';
+
+// Questions a packet can hold; matches the createMatch limit
+export const MAX_PACKET_QUESTIONS = 100;
+
+// Questions per subject area, stored on the packet as its subject mix
+export const countPacketSubjects = (questionIds: string[], questions: Question[]): Record<string, number> => {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const counts: Record<string, number> = {};
+  questionIds.forEach((id) => {
+    const subject = byId.get(id)?.subjectArea;
+    if (subject) {
+      counts[subject] = (counts[subject] || 0) + 1;
+    }
+  });
+  return counts;
+};
+
+// e.g. "SC 4 · MA 3 · SS 3", largest first
+export const formatSubjectMix = (subjectCounts: Record<string, number>): string =>
+  Object.entries(subjectCounts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([subject, count]) => `${subject} ${count}`)
+    .join(' · ');
+
+// A packet's questions in packet order, skipping any that were deleted or aren't visible
+export const getPacketQuestions = (questionIds: string[], questions: Question[]): Question[] => {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  return questionIds.map((id) => byId.get(id)).filter((q): q is Question => !!q);
+};
@@ -0,0 +1,128 @@
+/**
+ * Practice question filters and subject mixing
+ * Filters travel from GameModeSelection to PracticeMode as URL parameters.
+ */
+
+import { Question } from '../types/firebase';
+
+export type SubjectMix = 'proportional' | 'even';
+
+export interface PracticeFilters {
+  // Subject codes (SS, SC, LA, MA, AH); empty means every subject
+  subjects: string[];
+  level?: 'EL' | 'MS' | 'HS';
+  // Inclusive range of question (import) years
+  minYear?: number;
+  maxYear?: number;
+  // Proportional follows how many questions each subject has; even takes turns
+  mix: SubjectMix;
+}
+
+export const SUBJECT_NAMES: Record<string, string> = {
+  AH: 'Arts and Humanities',
+  LA: 'Language Arts',
+  MA: 'Math',
+  SC: 'Science',
+  SS: 'Social Studies',
+};
+
+const LEVELS = ['EL', 'MS', 'HS'] as const;
+
+// Sprint lengths (minutes) for timed practice; mirrors functions/src/stats.ts
+export const TIMED_SPRINT_MINUTES = [1, 5, 10];
+
+// Questions loaded for a timed sprint; the clock, not the count, ends the game
+export const TIMED_QUESTION_POOL = 100;
+
+const parseYear = (value: string | null) => {
+  const year = value ? parseInt(value) : NaN;
+  return Number.isNaN(year) ? undefined : year;
+};
+
+/**
+ * Read practice filters from URL parameters. Also accepts the older single
+ * `practiceMode` parameter ('Mix' or a subject name).
+ */
+export const parsePracticeFilters = (params: URLSearchParams): PracticeFilters => {
+  let subjects = (params.get('subjects') || '').split(',').filter((code) => code in SUBJECT_NAMES);
+  const practiceMode = params.get('practiceMode');
+  if (subjects.length === 0 && practiceMode && practiceMode !== 'Mix') {
+    const code = Object.keys(SUBJECT_NAMES).find((key) => SUBJECT_NAMES[key] === practiceMode) || practiceMode;
+    subjects = code in SUBJECT_NAMES ? [code] : [];
+  }
+
+  const level = params.get('level');
+  return {
+    subjects,
+    level: LEVELS.find((option) => option === level),
+    minYear: parseYear(params.get('minYear')),
+    maxYear: parseYear(params.get('maxYear')),
+    mix: params.get('mix') === 'even' ? 'even' : 'proportional',
+  };
+};
+
+// Write practice filters onto URL parameters (the reverse of parsePracticeFilters)
+export const setPracticeFilterParams = (params: URLSearchParams, filters: PracticeFilters) => {
+  if (filters.subjects.length > 0) {
+    params.set('subjects', filters.subjects.join(','));
+  }
+  if (filters.level) {
+    params.set('level', filters.level);
+  }
+  if (filters.minYear !== undefined) {
+    params.set('minYear', filters.minYear.toString());
+  }
+  if (filters.maxYear !== undefined) {
+    params.set('maxYear', filters.maxYear.toString());
+  }
+  params.set('mix', filters.mix);
+};
+
+export const filterPracticeQuestions = (questions: Question[], filters: PracticeFilters): Question[] =>
+  questions.filter((q) =>
+    (filters.subjects.length === 0 || filters.subjects.includes(q.subjectArea)) &&
+    (!filters.level || q.level === filters.level) &&
+    (filters.minYear === undefined || q.importYear >= filters.minYear) &&
+    (filters.maxYear === undefined || q.importYear <= filters.maxYear)
+  );
+
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Pick up to `count` questions from an already filtered pool. Even mixing
+ * takes one question from each subject in turn, so a subject with few
+ * questions still gets its share until it runs out.
+ */
+export const mixPracticeQuestions = (
+  questions: Question[],
+  mix: SubjectMix,
+  count: number,
+  random: () => number = Math.random
+): Question[] => {
+  const shuffled = shuffle(questions, random);
+  if (mix === 'proportional') {
+    return shuffled.slice(0, count);
+  }
+
+  const bySubject = new Map<string, Question[]>();
+  shuffled.forEach((question) => {
+    bySubject.set(question.subjectArea, [...(bySubject.get(question.subjectArea) || []), question]);
+  });
+  const pools = shuffle([...bySubject.values()], random);
+  const selected: Question[] = [];
+  while (selected.length < count && pools.some((pool) => pool.length > 0)) {
+    pools.forEach((pool) => {
+      if (selected.length < count && pool.length > 0) {
+        selected.push(pool.pop()!);
+      }
+    });
+  }
+  return shuffle(selected, random);
+};
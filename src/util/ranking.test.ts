@@ -0,0 +1,8 @@
+import { describe, expect, it } from 'vitest';
+import { compareAvgBuzzTime } from './ranking';
+
+describe('compareAvgBuzzTime', () => {
+  it('orders buzz times fastest first, with players who never buzzed last', () => {
+    expect([3.1, 0, 1.4, 0, 2].sort(compareAvgBuzzTime)).toEqual([1.4, 2, 3.1, 0, 0]);
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Ranking helpers
+ * Mirrors compareAvgBuzzTime in functions/src/scoring.ts so the web app
+ * orders players the way the server does; keep the two in sync.
+ */
+
+// Average buzz times fastest first; a player who never buzzed (0) ranks behind everyone who did
+export function compareAvgBuzzTime(a: number, b: number): number {
+  if (a > 0 && b > 0) {
+    return a - b;
+  }
+  return (a > 0 ? 0 : 1) - (b > 0 ? 0 : 1);
+}
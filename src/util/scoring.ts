@@ -0,0 +1,78 @@
+/**
+ * Scoring rules engine
+ * Mirrors functions/src/scoring.ts so practice sessions and result screens
+ * show the same points the server records for matches; keep the two in sync.
+ */
+
+import { AttemptOutcome, ScoringRules } from '../types/firebase';
+
+// One point per correct answer and nothing else
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  correctPoints: 1,
+  earlyBuzzBonus: 0,
+  speedPoints: 0,
+  interruptPenalty: 0,
+  incorrectPenalty: 0,
+  subjectWeights: {},
+};
+
+const MAX_POINTS = 100;
+const MAX_SUBJECT_WEIGHT = 10;
+
+const clamp = (value: unknown, fallback: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(0, value), max) : fallback;
+
+// Fill in missing or out-of-range rules from a stored settings document, as the server does
+export function normalizeScoringRules(data?: Partial<ScoringRules> | null): ScoringRules {
+  const subjectWeights: Record<string, number> = {};
+  Object.entries(data?.subjectWeights || {}).forEach(([subject, weight]) => {
+    subjectWeights[subject] = clamp(weight, 1, MAX_SUBJECT_WEIGHT);
+  });
+  return {
+    correctPoints: clamp(data?.correctPoints, DEFAULT_SCORING_RULES.correctPoints, MAX_POINTS),
+    earlyBuzzBonus: clamp(data?.earlyBuzzBonus, DEFAULT_SCORING_RULES.earlyBuzzBonus, MAX_POINTS),
+    speedPoints: clamp(data?.speedPoints, DEFAULT_SCORING_RULES.speedPoints, MAX_POINTS),
+    interruptPenalty: clamp(data?.interruptPenalty, DEFAULT_SCORING_RULES.interruptPenalty, MAX_POINTS),
+    incorrectPenalty: clamp(data?.incorrectPenalty, DEFAULT_SCORING_RULES.incorrectPenalty, MAX_POINTS),
+    subjectWeights,
+  };
+}
+
+export interface ScorableAttempt {
+  outcome: AttemptOutcome;
+  subjectArea: string;
+  wordsRevealed: number; // All of them for a timeout
+  totalWords: number;
+}
+
+/**
+ * Points for one attempt: base, early-buzz and speed points scaled by the
+ * subject weight for a correct answer; the interrupt or incorrect penalty for
+ * a wrong answer or hesitation; nothing for a timeout.
+ */
+export function scoreAttempt(rules: ScoringRules | undefined, attempt: ScorableAttempt): number {
+  const scoring = rules || DEFAULT_SCORING_RULES;
+  const totalWords = Math.max(1, attempt.totalWords);
+  const early = attempt.wordsRevealed < totalWords;
+
+  if (attempt.outcome === 'correct') {
+    const hiddenShare = Math.max(0, totalWords - attempt.wordsRevealed) / totalWords;
+    const weight = scoring.subjectWeights[attempt.subjectArea] ?? 1;
+    const points = (scoring.correctPoints + (early ? scoring.earlyBuzzBonus : 0) + scoring.speedPoints * hiddenShare) * weight;
+    return parseFloat(points.toFixed(2));
+  }
+  if (attempt.outcome === 'incorrect' || attempt.outcome === 'hesitation') {
+    return -(early ? scoring.interruptPenalty : scoring.incorrectPenalty);
+  }
+  return 0;
+}
+
+// Add points, rounded like the server totals
+export function addPoints(total: number, points: number): number {
+  return parseFloat((total + points).toFixed(2));
+}
+
+// A result's points, falling back to its correct answers for older results
+export function getResultPoints(result: { score: number; points?: number }): number {
+  return result.points ?? result.score;
+}
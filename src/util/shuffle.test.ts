@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { shuffle } from './practiceSelection';
+import { getAnswerChoices, seededRandom } from './shuffle';
+
+const seededShuffle = <T>(items: T[], seed: string) => shuffle(items, seededRandom(seed));
+
+describe('seeded shuffle', () => {
+  it('gives the same order for the same seed', () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    expect(seededShuffle(items, 'SEED01')).toEqual(seededShuffle(items, 'SEED01'));
+  });
+
+  it('gives different orders for different seeds', () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    expect(seededShuffle(items, 'SEED01')).not.toEqual(seededShuffle(items, 'SEED02'));
+  });
+
+  it('keeps every item and leaves the input alone', () => {
+    const items = ['A', 'B', 'C', 'D', 'E'];
+    const shuffled = seededShuffle(items, 'SEED01');
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+
+  // Reference orders from functions/src/shuffle.ts: the web app must match the server
+  it('matches the server order for a seed', () => {
+    expect(seededShuffle(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'], 'LIGHTNING')).toEqual(['C', 'H', 'G', 'A', 'E', 'B', 'F', 'D']);
+    expect(getAnswerChoices({ correctAnswer: 'Paris', distractors: ['Lyon', 'Nice', 'Lille'] }, '3F9A2C', 4))
+      .toEqual(['Lyon', 'Nice', 'Lille', 'Paris']);
+  });
+
+  it('puts each item in each position about equally often', () => {
+    const runs = 8000;
+    const counts = Array.from({ length: 4 }, () => [0, 0, 0, 0]);
+    for (let run = 0; run < runs; run++) {
+      seededShuffle([0, 1, 2, 3], `RUN${run}`).forEach((item, position) => {
+        counts[item][position] += 1;
+      });
+    }
+    counts.flat().forEach((count) => {
+      expect(Math.abs(count - runs / 4)).toBeLessThan(runs * 0.03);
+    });
+  });
+});
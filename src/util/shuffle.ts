@@ -0,0 +1,38 @@
+/**
+ * Seeded answer shuffling
+ * A game's shuffleSeed fixes the order of every question's answer choices, so
+ * every player in a match sees the same A-D layout and a replay can rebuild
+ * it; practice gets a fresh seed each session. Mirrors functions/src/shuffle.ts;
+ * keep the two in sync so a seed gives the same order.
+ */
+
+import { Question } from '../types/firebase';
+import { shuffle } from './practiceSelection';
+
+// A fresh seed for a new game
+export const newShuffleSeed = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+// Deterministic 32-bit generator (mulberry32) seeded from any string
+export const seededRandom = (seed: string): (() => number) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 2654435761) >>> 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// The answer choices for the question at `questionIndex`, in the order every player sees them
+export const getAnswerChoices = (
+  question: Pick<Question, 'correctAnswer' | 'distractors'>,
+  shuffleSeed: string,
+  questionIndex: number
+): string[] => shuffle([question.correctAnswer, ...question.distractors], seededRandom(`${shuffleSeed}:${questionIndex}`));
@@ -0,0 +1,38 @@
+/**
+ * Tournament display helpers
+ * Formats and tiebreakers match the ones createTournament accepts (functions/src/tournaments.ts)
+ */
+
+import { TournamentFormat, TournamentTiebreaker } from '../types/firebase';
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: 'Single Elimination',
+  round_robin: 'Round Robin',
+};
+
+export const TIEBREAKER_LABELS: Record<TournamentTiebreaker, string> = {
+  head_to_head: 'Head-to-head result',
+  total_score: 'Total points',
+  avg_buzz_time: 'Faster average buzz',
+  seed: 'Higher seed',
+};
+
+// Default order; seed is always applied last
+export const DEFAULT_TIEBREAKERS: TournamentTiebreaker[] = ['head_to_head', 'total_score', 'avg_buzz_time', 'seed'];
+
+// Questions each tournament match can use; the pool wraps if it runs out
+export const MAX_TOURNAMENT_QUESTION_POOL = 500;
+
+/**
+ * Name of a round: Final, Semifinals and Quarterfinals for the last rounds
+ * of a bracket, "Round N" otherwise.
+ */
+export function getRoundName(format: TournamentFormat, round: number, rounds: number): string {
+  if (format === 'single_elimination') {
+    const fromEnd = rounds - round;
+    if (fromEnd === 0) return 'Final';
+    if (fromEnd === 1) return 'Semifinals';
+    if (fromEnd === 2) return 'Quarterfinals';
+  }
+  return `Round ${round}`;
+}